@@ -1,11 +1,40 @@
+import { useState } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ThemeProvider } from 'next-themes';
 import { Toaster } from '@/components/ui/sonner';
+import { Badge } from '@/components/ui/badge';
 import MainApp from './components/MainApp';
+import LoginButton from './components/LoginButton';
+import ProfileSetup from './components/ProfileSetup';
+import QuoteVerificationView from './components/QuoteVerificationView';
+import SignInPrompt from './components/SignInPrompt';
+import { useInternetIdentity } from './hooks/useInternetIdentity';
+import { useSessionExpiry } from './hooks/useSession';
+import { useLocaleSettings } from './hooks/useLocale';
+import { useGetCallerUserProfile, useGetCallerUserRole } from './hooks/useQueries';
+import { shortenPrincipal, USER_ROLE_LABELS } from './lib/authorization';
+import { readVerificationLink } from './lib/quoteVerification';
 
 const queryClient = new QueryClient();
 
 function AppContent() {
+  const { identity, isInitializing } = useInternetIdentity();
+  const { data: userProfile, isFetched: isProfileFetched } = useGetCallerUserProfile();
+  const { data: userRole } = useGetCallerUserRole();
+  // Links from the QR code on exported quotes open the public verification view, no sign-in needed
+  const [verificationLink, setVerificationLink] = useState(() => readVerificationLink(window.location.search));
+
+  useSessionExpiry();
+  useLocaleSettings();
+
+  const principal = identity?.getPrincipal().toString();
+  const showProfileSetup = !!identity && isProfileFetched && userProfile === null;
+
+  const handleCloseVerification = () => {
+    window.history.replaceState(null, '', window.location.pathname);
+    setVerificationLink(null);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
       <header className="border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -31,11 +60,35 @@ function AppContent() {
               <p className="text-xs text-muted-foreground">Client Quote Generator</p>
             </div>
           </div>
+          <div className="flex items-center gap-3">
+            {principal && (
+              <div className="text-right">
+                <div className="flex items-center justify-end gap-2">
+                  <span className="text-sm font-medium text-foreground">{userProfile?.name || 'Signed in'}</span>
+                  {userRole && <Badge variant="secondary">{USER_ROLE_LABELS[userRole]}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground font-mono" title={principal}>
+                  {shortenPrincipal(principal)}
+                </p>
+              </div>
+            )}
+            <LoginButton />
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        <MainApp />
+        {verificationLink ? (
+          <QuoteVerificationView link={verificationLink} onClose={handleCloseVerification} />
+        ) : isInitializing ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !identity ? (
+          <SignInPrompt />
+        ) : (
+          <MainApp />
+        )}
       </main>
 
       <footer className="border-t border-border/40 mt-16 py-6 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -53,6 +106,7 @@ function AppContent() {
         </div>
       </footer>
 
+      <ProfileSetup open={showProfileSetup} />
       <Toaster />
     </div>
   );
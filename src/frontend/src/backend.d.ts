@@ -1,4 +1,11 @@
 import type { Principal } from "@icp-sdk/core/principal";
+export declare class ExternalBlob {
+    getBytes(): Promise<Uint8Array<ArrayBuffer>>;
+    getDirectURL(): string;
+    static fromURL(url: string): ExternalBlob;
+    static fromBytes(blob: Uint8Array<ArrayBuffer>): ExternalBlob;
+    withUploadProgress(onProgress: (percentage: number) => void): ExternalBlob;
+}
 export interface Some<T> {
     __kind__: "Some";
     value: T;
@@ -8,10 +15,109 @@ export interface None {
 }
 export type Option<T> = Some<T> | None;
 export interface FullQuote {
+    status: QuoteStatus;
     total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    quoteDiscount?: Discount;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
     items: Array<QuoteItem>;
+    taxAmount: number;
+    taxRate: number;
+    subtotal: number;
     header: QuoteHeader;
 }
+export interface ExchangeRate {
+    rate: number;
+    updatedAt: bigint;
+    currency: string;
+}
+export interface DashboardFilter {
+    to?: bigint;
+    clientName?: string;
+    from?: bigint;
+    accountManager?: string;
+}
+export interface MarginThresholds {
+    categories: Array<[string, number]>;
+    overall: number;
+}
+export interface PricingScenario {
+    id: string;
+    standardCosts: Array<[string, number]>;
+    name: string;
+    createdBy: Principal;
+    quoteId: string;
+    updatedAt: bigint;
+}
+export interface QuoteStatusChange {
+    status: QuoteStatus;
+    changedBy?: Principal;
+    timestamp: bigint;
+}
+export interface MarginBreach {
+    threshold: number;
+    marginPercentage: number;
+    category?: string;
+}
+export type PricingTarget = {
+    __kind__: "marginPercentage";
+    marginPercentage: number;
+} | {
+    __kind__: "grandTotal";
+    grandTotal: number;
+};
+export interface ApprovalDecision {
+    comment: string;
+    approved: boolean;
+    timestamp: bigint;
+    decidedBy: Principal;
+}
+export interface TaxSettings {
+    name: string;
+    rate: number;
+}
+export interface UserSummary {
+    principal: Principal;
+    role: UserRole;
+    profile?: UserProfile;
+}
+export interface PricingSolution {
+    standardCosts: Array<[string, number]>;
+    grandTotal: number;
+    analysis: AnalysisSummary;
+    reachable: boolean;
+}
+export interface AccountManagerPerformance {
+    quoteCount: bigint;
+    marginPercentage: number;
+    quotedValue: number;
+    accountManager: string;
+    wonValue: number;
+    wonCount: bigint;
+    lostCount: bigint;
+    winRate: number;
+}
+export interface AccountManager {
+    id: string;
+    name: string;
+    email?: string;
+}
+export interface Quote {
+    total: number;
+    items: Array<QuoteItem>;
+}
+export interface PricingSolverRequest {
+    categories: Array<string>;
+    target: PricingTarget;
+    minimumMarginPercentage: number;
+}
 export interface UploadedFile {
     id: string;
     contentType: string;
@@ -19,47 +125,182 @@ export interface UploadedFile {
     size: bigint;
     blobId: string;
 }
+export interface DashboardFilterOptions {
+    accountManagers: Array<string>;
+    clientNames: Array<string>;
+}
 export interface QuoteHistoryItem {
     id: string;
+    status: QuoteStatus;
     total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    createdBy: Principal;
+    statusHistory: Array<QuoteStatusChange>;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    accountManagerId: string;
+    approval?: ApprovalDecision;
+    quoteDiscount?: Discount;
+    currency: string;
     timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
     items: Array<QuoteItem>;
+    taxAmount: number;
+    rateCardVersion: bigint;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
     header: QuoteHeader;
 }
+export interface Discount {
+    value: number;
+    discountType: DiscountType;
+}
+export interface ScenarioAnalysis {
+    scenario: PricingScenario;
+    analysis: AnalysisSummary;
+}
+export interface CategoryAnalysis {
+    revenue: number;
+    grossProfit: number;
+    marginPercentage: number;
+    cost: number;
+    itemCount: bigint;
+    category: string;
+}
+export interface PdfTemplate {
+    id: string;
+    primaryColor: string;
+    logo?: ExternalBlob;
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}
+export interface QuoteVerificationItem {
+    total: number;
+    duration: bigint;
+    subcategory: string;
+    discountAmount: number;
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    standardCost: number;
+    itemRefNo: string;
+}
 export interface RateCard {
+    version: bigint;
     items: Array<RateCardItem>;
+    effectiveFrom: bigint;
+}
+export interface DashboardSummary {
+    quoteCount: bigint;
+    grossProfit: number;
+    marginPercentage: number;
+    quotedValue: number;
+    wonValue: number;
+    totalCost: number;
+    wonCount: bigint;
+    currency: string;
+    lostCount: bigint;
+    totalRevenue: number;
+    winRate: number;
+}
+export interface LocaleSettings {
+    locale: string;
+    timeZone: string;
+}
+export interface DashboardItem {
+    revenue: number;
+    grossProfit: number;
+    marginPercentage: number;
+    cost: number;
+    lineCount: bigint;
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    itemRefNo: string;
 }
 export interface AnalysisSummary {
-    totalProfit: number;
-    totalMargin: number;
+    categories: Array<CategoryAnalysis>;
+    grossProfit: number;
+    marginPercentage: number;
+    discountAmount: number;
+    totalCost: number;
+    currency: string;
     items: Array<AnalysisItem>;
+    totalRevenue: number;
+}
+export interface RateCardVersionInfo {
+    note: string;
+    createdAt: bigint;
+    createdBy: Principal;
+    itemCount: bigint;
+    version: bigint;
+    effectiveFrom: bigint;
 }
 export interface AnalysisItem {
     id: string;
-    total: number;
     duration: bigint;
+    revenue: number;
     subcategory: string;
+    grossProfit: number;
     marginPercentage: number;
+    cost: number;
+    discountAmount: number;
     quantity: bigint;
     category: string;
-    margin: number;
     detailedDescription: string;
     standardCost: number;
     itemRefNo: string;
     opsBriskCost: number;
 }
-export interface AccountManager {
+export interface DashboardPeriod {
+    quoteCount: bigint;
+    marginPercentage: number;
+    quotedValue: number;
+    wonValue: number;
+    start: bigint;
+}
+export interface RateCardVersion {
+    note: string;
+    createdAt: bigint;
+    createdBy: Principal;
+    version: bigint;
+    items: Array<RateCardItem>;
+    effectiveFrom: bigint;
+}
+export interface QuoteVerification {
     id: string;
-    name: string;
-    email?: string;
+    status: QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    hash: string;
+    quoteNumber: string;
+    version: bigint;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    items: Array<QuoteVerificationItem>;
+    taxAmount: number;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: QuoteHeader;
 }
 export interface AccountManagerList {
     managers: Array<AccountManager>;
 }
-export interface Quote {
-    total: number;
-    items: Array<QuoteItem>;
-}
 export interface RateCardItem {
     id: string;
     subcategory: string;
@@ -87,6 +328,8 @@ export interface QuoteItem {
     total: number;
     duration: bigint;
     subcategory: string;
+    discountAmount: number;
+    discount?: Discount;
     quantity: bigint;
     category: string;
     detailedDescription: string;
@@ -94,6 +337,18 @@ export interface QuoteItem {
     itemRefNo: string;
     opsBriskCost: number;
 }
+export enum DiscountType {
+    fixed = "fixed",
+    percentage = "percentage"
+}
+export enum QuoteStatus {
+    expired = "expired",
+    sent = "sent",
+    pendingApproval = "pendingApproval",
+    rejected = "rejected",
+    accepted = "accepted",
+    draft = "draft"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -102,29 +357,69 @@ export enum UserRole {
 export interface backendInterface {
     addAccountManager(manager: AccountManager): Promise<void>;
     addRateCardItem(item: RateCardItem): Promise<void>;
+    analyzeQuote(id: string, standardCosts: Array<[string, number]>): Promise<AnalysisSummary>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    assignUserAccountManager(user: Principal, accountManagerId: string): Promise<void>;
+    decideQuoteApproval(id: string, approved: boolean, comment: string): Promise<QuoteHistoryItem>;
     deleteAccountManager(id: string): Promise<void>;
+    deleteExchangeRate(currency: string): Promise<void>;
+    deletePdfTemplate(id: string): Promise<void>;
+    deleteQuoteScenario(id: string): Promise<void>;
     deleteRateCardItem(id: string): Promise<void>;
-    generateAnalysis(selectedItems: Array<[string, bigint, bigint]>): Promise<AnalysisSummary>;
-    generateFullQuote(header: QuoteHeader, selectedItems: Array<[string, bigint, bigint]>): Promise<FullQuote>;
+    generateAnalysis(selectedItems: Array<[string, bigint, bigint, Discount | null]>, quoteDiscount: Discount | null, currency: string): Promise<AnalysisSummary>;
+    generateFullQuote(header: QuoteHeader, selectedItems: Array<[string, bigint, bigint, Discount | null]>, quoteDiscount: Discount | null, validityDays: bigint, revisionOf: string | null, currency: string): Promise<FullQuote>;
     generateQuote(selectedItems: Array<[string, bigint, bigint]>): Promise<Quote>;
+    getAccountManagerLeaderboard(filter: DashboardFilter): Promise<Array<AccountManagerPerformance>>;
     getAccountManagers(): Promise<AccountManagerList>;
     getAllRateCardItems(): Promise<Array<RateCardItem>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
-    getQuoteHistory(): Promise<Array<QuoteHistoryItem>>;
+    getDashboardFilterOptions(): Promise<DashboardFilterOptions>;
+    getDashboardSummary(filter: DashboardFilter): Promise<DashboardSummary>;
+    getDashboardTimeline(filter: DashboardFilter, periodStarts: Array<bigint>): Promise<Array<DashboardPeriod>>;
+    getDashboardTopCategories(filter: DashboardFilter, limit: bigint): Promise<Array<CategoryAnalysis>>;
+    getDashboardTopItems(filter: DashboardFilter, limit: bigint): Promise<Array<DashboardItem>>;
+    getExchangeRates(): Promise<Array<ExchangeRate>>;
+    getLocaleSettings(): Promise<LocaleSettings>;
+    getMarginThresholds(): Promise<MarginThresholds>;
+    getPdfTemplate(id: string): Promise<PdfTemplate | null>;
+    getPdfTemplates(): Promise<Array<PdfTemplate>>;
+    getPendingApprovals(): Promise<Array<QuoteHistoryItem>>;
+    getQuoteHash(id: string): Promise<string>;
+    getQuoteHistory(owner: Principal | null): Promise<Array<QuoteHistoryItem>>;
     getQuoteHistoryItem(id: string): Promise<QuoteHistoryItem | null>;
+    getQuoteNumberPrefix(): Promise<string>;
+    getQuoteScenarios(quoteId: string): Promise<Array<ScenarioAnalysis>>;
+    getQuoteVersions(quoteNumber: string): Promise<Array<QuoteHistoryItem>>;
     getRateCard(): Promise<RateCard>;
+    getRateCardAt(timestamp: bigint): Promise<RateCardVersion | null>;
     getRateCardItem(id: string): Promise<RateCardItem | null>;
+    getRateCardVersion(version: bigint): Promise<RateCardVersion | null>;
+    getRateCardVersions(): Promise<Array<RateCardVersionInfo>>;
+    getTaxSettings(): Promise<TaxSettings>;
     getUploadedFiles(): Promise<Array<UploadedFile>>;
     getUserProfile(id: string): Promise<UserProfile | null>;
     initializeAccessControl(): Promise<void>;
     isCallerAdmin(): Promise<boolean>;
+    listUsers(): Promise<Array<UserSummary>>;
+    promoteQuoteScenario(id: string, validityDays: bigint): Promise<FullQuote>;
+    revokeUserRole(user: Principal): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    savePdfTemplate(template: PdfTemplate): Promise<void>;
+    saveQuoteScenario(quoteId: string, name: string, standardCosts: Array<[string, number]>): Promise<PricingScenario>;
+    setExchangeRate(currency: string, rate: number): Promise<void>;
+    solveQuotePricing(id: string, standardCosts: Array<[string, number]>, request: PricingSolverRequest): Promise<PricingSolution>;
     trackUploadedFile(file: UploadedFile): Promise<void>;
     updateAccountManager(manager: AccountManager): Promise<void>;
     updateAccountManagers(newManagers: Array<AccountManager>): Promise<void>;
-    updateRateCard(newItems: Array<RateCardItem>): Promise<void>;
+    updateLocaleSettings(settings: LocaleSettings): Promise<void>;
+    updateMarginThresholds(thresholds: MarginThresholds): Promise<void>;
+    updateQuoteNumberPrefix(prefix: string): Promise<void>;
+    updateQuoteStatus(id: string, status: QuoteStatus): Promise<QuoteHistoryItem>;
+    updateRateCard(newItems: Array<RateCardItem>, effectiveFrom: bigint | null, note: string): Promise<void>;
     updateRateCardItem(item: RateCardItem): Promise<void>;
     updateStandardCost(itemId: string, newStandardCost: number): Promise<void>;
+    updateStandardCosts(updates: Array<[string, number]>): Promise<void>;
+    updateTaxSettings(settings: TaxSettings): Promise<void>;
+    verifyQuote(id: string, code: string): Promise<QuoteVerification | null>;
 }
@@ -89,11 +89,121 @@ export class ExternalBlob {
         return this;
     }
 }
+export interface _CaffeineStorageRefillResult {
+    success?: boolean;
+    topped_up_amount?: bigint;
+}
 export interface FullQuote {
+    status: QuoteStatus;
     total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    quoteDiscount?: Discount;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
     items: Array<QuoteItem>;
+    taxAmount: number;
+    taxRate: number;
+    subtotal: number;
     header: QuoteHeader;
 }
+export interface ExchangeRate {
+    rate: number;
+    updatedAt: bigint;
+    currency: string;
+}
+export interface _CaffeineStorageRefillInformation {
+    proposed_top_up_amount?: bigint;
+}
+export interface DashboardFilter {
+    to?: bigint;
+    clientName?: string;
+    from?: bigint;
+    accountManager?: string;
+}
+export interface _CaffeineStorageCreateCertificateResult {
+    method: string;
+    blob_hash: string;
+}
+export interface MarginThresholds {
+    categories: Array<[string, number]>;
+    overall: number;
+}
+export interface PricingScenario {
+    id: string;
+    standardCosts: Array<[string, number]>;
+    name: string;
+    createdBy: Principal;
+    quoteId: string;
+    updatedAt: bigint;
+}
+export interface QuoteStatusChange {
+    status: QuoteStatus;
+    changedBy?: Principal;
+    timestamp: bigint;
+}
+export interface MarginBreach {
+    threshold: number;
+    marginPercentage: number;
+    category?: string;
+}
+export type PricingTarget = {
+    __kind__: "marginPercentage";
+    marginPercentage: number;
+} | {
+    __kind__: "grandTotal";
+    grandTotal: number;
+};
+export interface ApprovalDecision {
+    comment: string;
+    approved: boolean;
+    timestamp: bigint;
+    decidedBy: Principal;
+}
+export interface TaxSettings {
+    name: string;
+    rate: number;
+}
+export interface UserSummary {
+    principal: Principal;
+    role: UserRole;
+    profile?: UserProfile;
+}
+export interface PricingSolution {
+    standardCosts: Array<[string, number]>;
+    grandTotal: number;
+    analysis: AnalysisSummary;
+    reachable: boolean;
+}
+export interface AccountManagerPerformance {
+    quoteCount: bigint;
+    marginPercentage: number;
+    quotedValue: number;
+    accountManager: string;
+    wonValue: number;
+    wonCount: bigint;
+    lostCount: bigint;
+    winRate: number;
+}
+export interface AccountManager {
+    id: string;
+    name: string;
+    email?: string;
+}
+export interface Quote {
+    total: number;
+    items: Array<QuoteItem>;
+}
+export interface PricingSolverRequest {
+    categories: Array<string>;
+    target: PricingTarget;
+    minimumMarginPercentage: number;
+}
 export interface UploadedFile {
     id: string;
     contentType: string;
@@ -101,58 +211,182 @@ export interface UploadedFile {
     size: bigint;
     blobId: string;
 }
-export interface _CaffeineStorageRefillResult {
-    success?: boolean;
-    topped_up_amount?: bigint;
+export interface DashboardFilterOptions {
+    accountManagers: Array<string>;
+    clientNames: Array<string>;
 }
 export interface QuoteHistoryItem {
     id: string;
+    status: QuoteStatus;
     total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    createdBy: Principal;
+    statusHistory: Array<QuoteStatusChange>;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    accountManagerId: string;
+    approval?: ApprovalDecision;
+    quoteDiscount?: Discount;
+    currency: string;
     timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
     items: Array<QuoteItem>;
+    taxAmount: number;
+    rateCardVersion: bigint;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
     header: QuoteHeader;
 }
-export interface _CaffeineStorageRefillInformation {
-    proposed_top_up_amount?: bigint;
+export interface Discount {
+    value: number;
+    discountType: DiscountType;
 }
-export interface _CaffeineStorageCreateCertificateResult {
-    method: string;
-    blob_hash: string;
+export interface ScenarioAnalysis {
+    scenario: PricingScenario;
+    analysis: AnalysisSummary;
+}
+export interface CategoryAnalysis {
+    revenue: number;
+    grossProfit: number;
+    marginPercentage: number;
+    cost: number;
+    itemCount: bigint;
+    category: string;
+}
+export interface PdfTemplate {
+    id: string;
+    primaryColor: string;
+    logo?: ExternalBlob;
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}
+export interface QuoteVerificationItem {
+    total: number;
+    duration: bigint;
+    subcategory: string;
+    discountAmount: number;
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    standardCost: number;
+    itemRefNo: string;
 }
 export interface RateCard {
+    version: bigint;
     items: Array<RateCardItem>;
+    effectiveFrom: bigint;
+}
+export interface DashboardSummary {
+    quoteCount: bigint;
+    grossProfit: number;
+    marginPercentage: number;
+    quotedValue: number;
+    wonValue: number;
+    totalCost: number;
+    wonCount: bigint;
+    currency: string;
+    lostCount: bigint;
+    totalRevenue: number;
+    winRate: number;
+}
+export interface LocaleSettings {
+    locale: string;
+    timeZone: string;
+}
+export interface DashboardItem {
+    revenue: number;
+    grossProfit: number;
+    marginPercentage: number;
+    cost: number;
+    lineCount: bigint;
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    itemRefNo: string;
 }
 export interface AnalysisSummary {
-    totalProfit: number;
-    totalMargin: number;
+    categories: Array<CategoryAnalysis>;
+    grossProfit: number;
+    marginPercentage: number;
+    discountAmount: number;
+    totalCost: number;
+    currency: string;
     items: Array<AnalysisItem>;
+    totalRevenue: number;
+}
+export interface RateCardVersionInfo {
+    note: string;
+    createdAt: bigint;
+    createdBy: Principal;
+    itemCount: bigint;
+    version: bigint;
+    effectiveFrom: bigint;
 }
 export interface AnalysisItem {
     id: string;
-    total: number;
     duration: bigint;
+    revenue: number;
     subcategory: string;
+    grossProfit: number;
     marginPercentage: number;
+    cost: number;
+    discountAmount: number;
     quantity: bigint;
     category: string;
-    margin: number;
     detailedDescription: string;
     standardCost: number;
     itemRefNo: string;
     opsBriskCost: number;
 }
-export interface AccountManager {
+export interface DashboardPeriod {
+    quoteCount: bigint;
+    marginPercentage: number;
+    quotedValue: number;
+    wonValue: number;
+    start: bigint;
+}
+export interface RateCardVersion {
+    note: string;
+    createdAt: bigint;
+    createdBy: Principal;
+    version: bigint;
+    items: Array<RateCardItem>;
+    effectiveFrom: bigint;
+}
+export interface QuoteVerification {
     id: string;
-    name: string;
-    email?: string;
+    status: QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    hash: string;
+    quoteNumber: string;
+    version: bigint;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    items: Array<QuoteVerificationItem>;
+    taxAmount: number;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: QuoteHeader;
 }
 export interface AccountManagerList {
     managers: Array<AccountManager>;
 }
-export interface Quote {
-    total: number;
-    items: Array<QuoteItem>;
-}
 export interface RateCardItem {
     id: string;
     subcategory: string;
@@ -180,6 +414,8 @@ export interface QuoteItem {
     total: number;
     duration: bigint;
     subcategory: string;
+    discountAmount: number;
+    discount?: Discount;
     quantity: bigint;
     category: string;
     detailedDescription: string;
@@ -187,6 +423,18 @@ export interface QuoteItem {
     itemRefNo: string;
     opsBriskCost: number;
 }
+export enum DiscountType {
+    fixed = "fixed",
+    percentage = "percentage"
+}
+export enum QuoteStatus {
+    expired = "expired",
+    sent = "sent",
+    pendingApproval = "pendingApproval",
+    rejected = "rejected",
+    accepted = "accepted",
+    draft = "draft"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -201,33 +449,73 @@ export interface backendInterface {
     _caffeineStorageUpdateGatewayPrincipals(): Promise<void>;
     addAccountManager(manager: AccountManager): Promise<void>;
     addRateCardItem(item: RateCardItem): Promise<void>;
+    analyzeQuote(id: string, standardCosts: Array<[string, number]>): Promise<AnalysisSummary>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    assignUserAccountManager(user: Principal, accountManagerId: string): Promise<void>;
+    decideQuoteApproval(id: string, approved: boolean, comment: string): Promise<QuoteHistoryItem>;
     deleteAccountManager(id: string): Promise<void>;
+    deleteExchangeRate(currency: string): Promise<void>;
+    deletePdfTemplate(id: string): Promise<void>;
+    deleteQuoteScenario(id: string): Promise<void>;
     deleteRateCardItem(id: string): Promise<void>;
-    generateAnalysis(selectedItems: Array<[string, bigint, bigint]>): Promise<AnalysisSummary>;
-    generateFullQuote(header: QuoteHeader, selectedItems: Array<[string, bigint, bigint]>): Promise<FullQuote>;
+    generateAnalysis(selectedItems: Array<[string, bigint, bigint, Discount | null]>, quoteDiscount: Discount | null, currency: string): Promise<AnalysisSummary>;
+    generateFullQuote(header: QuoteHeader, selectedItems: Array<[string, bigint, bigint, Discount | null]>, quoteDiscount: Discount | null, validityDays: bigint, revisionOf: string | null, currency: string): Promise<FullQuote>;
     generateQuote(selectedItems: Array<[string, bigint, bigint]>): Promise<Quote>;
+    getAccountManagerLeaderboard(filter: DashboardFilter): Promise<Array<AccountManagerPerformance>>;
     getAccountManagers(): Promise<AccountManagerList>;
     getAllRateCardItems(): Promise<Array<RateCardItem>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
-    getQuoteHistory(): Promise<Array<QuoteHistoryItem>>;
+    getDashboardFilterOptions(): Promise<DashboardFilterOptions>;
+    getDashboardSummary(filter: DashboardFilter): Promise<DashboardSummary>;
+    getDashboardTimeline(filter: DashboardFilter, periodStarts: Array<bigint>): Promise<Array<DashboardPeriod>>;
+    getDashboardTopCategories(filter: DashboardFilter, limit: bigint): Promise<Array<CategoryAnalysis>>;
+    getDashboardTopItems(filter: DashboardFilter, limit: bigint): Promise<Array<DashboardItem>>;
+    getExchangeRates(): Promise<Array<ExchangeRate>>;
+    getLocaleSettings(): Promise<LocaleSettings>;
+    getMarginThresholds(): Promise<MarginThresholds>;
+    getPdfTemplate(id: string): Promise<PdfTemplate | null>;
+    getPdfTemplates(): Promise<Array<PdfTemplate>>;
+    getPendingApprovals(): Promise<Array<QuoteHistoryItem>>;
+    getQuoteHash(id: string): Promise<string>;
+    getQuoteHistory(owner: Principal | null): Promise<Array<QuoteHistoryItem>>;
     getQuoteHistoryItem(id: string): Promise<QuoteHistoryItem | null>;
+    getQuoteNumberPrefix(): Promise<string>;
+    getQuoteScenarios(quoteId: string): Promise<Array<ScenarioAnalysis>>;
+    getQuoteVersions(quoteNumber: string): Promise<Array<QuoteHistoryItem>>;
     getRateCard(): Promise<RateCard>;
+    getRateCardAt(timestamp: bigint): Promise<RateCardVersion | null>;
     getRateCardItem(id: string): Promise<RateCardItem | null>;
+    getRateCardVersion(version: bigint): Promise<RateCardVersion | null>;
+    getRateCardVersions(): Promise<Array<RateCardVersionInfo>>;
+    getTaxSettings(): Promise<TaxSettings>;
     getUploadedFiles(): Promise<Array<UploadedFile>>;
     getUserProfile(id: string): Promise<UserProfile | null>;
     initializeAccessControl(): Promise<void>;
     isCallerAdmin(): Promise<boolean>;
+    listUsers(): Promise<Array<UserSummary>>;
+    promoteQuoteScenario(id: string, validityDays: bigint): Promise<FullQuote>;
+    revokeUserRole(user: Principal): Promise<void>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    savePdfTemplate(template: PdfTemplate): Promise<void>;
+    saveQuoteScenario(quoteId: string, name: string, standardCosts: Array<[string, number]>): Promise<PricingScenario>;
+    setExchangeRate(currency: string, rate: number): Promise<void>;
+    solveQuotePricing(id: string, standardCosts: Array<[string, number]>, request: PricingSolverRequest): Promise<PricingSolution>;
     trackUploadedFile(file: UploadedFile): Promise<void>;
     updateAccountManager(manager: AccountManager): Promise<void>;
     updateAccountManagers(newManagers: Array<AccountManager>): Promise<void>;
-    updateRateCard(newItems: Array<RateCardItem>): Promise<void>;
+    updateLocaleSettings(settings: LocaleSettings): Promise<void>;
+    updateMarginThresholds(thresholds: MarginThresholds): Promise<void>;
+    updateQuoteNumberPrefix(prefix: string): Promise<void>;
+    updateQuoteStatus(id: string, status: QuoteStatus): Promise<QuoteHistoryItem>;
+    updateRateCard(newItems: Array<RateCardItem>, effectiveFrom: bigint | null, note: string): Promise<void>;
     updateRateCardItem(item: RateCardItem): Promise<void>;
     updateStandardCost(itemId: string, newStandardCost: number): Promise<void>;
+    updateStandardCosts(updates: Array<[string, number]>): Promise<void>;
+    updateTaxSettings(settings: TaxSettings): Promise<void>;
+    verifyQuote(id: string, code: string): Promise<QuoteVerification | null>;
 }
-import type { AccountManager as _AccountManager, AccountManagerList as _AccountManagerList, QuoteHistoryItem as _QuoteHistoryItem, RateCardItem as _RateCardItem, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { AccountManager as _AccountManager, AccountManagerList as _AccountManagerList, ApprovalDecision as _ApprovalDecision, DashboardFilter as _DashboardFilter, Discount as _Discount, DiscountType as _DiscountType, ExternalBlob as _ExternalBlob, FullQuote as _FullQuote, MarginBreach as _MarginBreach, PdfTemplate as _PdfTemplate, PricingSolverRequest as _PricingSolverRequest, PricingTarget as _PricingTarget, Quote as _Quote, QuoteHeader as _QuoteHeader, QuoteHistoryItem as _QuoteHistoryItem, QuoteItem as _QuoteItem, QuoteStatus as _QuoteStatus, QuoteStatusChange as _QuoteStatusChange, QuoteVerification as _QuoteVerification, QuoteVerificationItem as _QuoteVerificationItem, RateCardItem as _RateCardItem, RateCardVersion as _RateCardVersion, UserProfile as _UserProfile, UserRole as _UserRole, UserSummary as _UserSummary, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -342,6 +630,20 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async analyzeQuote(arg0: string, arg1: Array<[string, number]>): Promise<AnalysisSummary> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.analyzeQuote(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.analyzeQuote(arg0, arg1);
+            return result;
+        }
+    }
     async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
@@ -356,6 +658,34 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async assignUserAccountManager(arg0: Principal, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.assignUserAccountManager(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.assignUserAccountManager(arg0, arg1);
+            return result;
+        }
+    }
+    async decideQuoteApproval(arg0: string, arg1: boolean, arg2: string): Promise<QuoteHistoryItem> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.decideQuoteApproval(arg0, arg1, arg2);
+                return from_candid_QuoteHistoryItem_n12(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.decideQuoteApproval(arg0, arg1, arg2);
+            return from_candid_QuoteHistoryItem_n12(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async deleteAccountManager(arg0: string): Promise<void> {
         if (this.processError) {
             try {
@@ -370,6 +700,48 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async deleteExchangeRate(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteExchangeRate(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteExchangeRate(arg0);
+            return result;
+        }
+    }
+    async deletePdfTemplate(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deletePdfTemplate(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deletePdfTemplate(arg0);
+            return result;
+        }
+    }
+    async deleteQuoteScenario(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteQuoteScenario(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteQuoteScenario(arg0);
+            return result;
+        }
+    }
     async deleteRateCardItem(arg0: string): Promise<void> {
         if (this.processError) {
             try {
@@ -384,45 +756,59 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async generateAnalysis(arg0: Array<[string, bigint, bigint]>): Promise<AnalysisSummary> {
+    async generateAnalysis(arg0: Array<[string, bigint, bigint, Discount | null]>, arg1: Discount | null, arg2: string): Promise<AnalysisSummary> {
         if (this.processError) {
             try {
-                const result = await this.actor.generateAnalysis(arg0);
+                const result = await this.actor.generateAnalysis(to_candid_vec_n33(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n35(this._uploadFile, this._downloadFile, arg1), arg2);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.generateAnalysis(arg0);
+            const result = await this.actor.generateAnalysis(to_candid_vec_n33(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n35(this._uploadFile, this._downloadFile, arg1), arg2);
             return result;
         }
     }
-    async generateFullQuote(arg0: QuoteHeader, arg1: Array<[string, bigint, bigint]>): Promise<FullQuote> {
+    async generateFullQuote(arg0: QuoteHeader, arg1: Array<[string, bigint, bigint, Discount | null]>, arg2: Discount | null, arg3: bigint, arg4: string | null, arg5: string): Promise<FullQuote> {
         if (this.processError) {
             try {
-                const result = await this.actor.generateFullQuote(arg0, arg1);
-                return result;
+                const result = await this.actor.generateFullQuote(arg0, to_candid_vec_n33(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n35(this._uploadFile, this._downloadFile, arg2), arg3, to_candid_opt_n40(this._uploadFile, this._downloadFile, arg4), arg5);
+                return from_candid_FullQuote_n41(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.generateFullQuote(arg0, arg1);
-            return result;
+            const result = await this.actor.generateFullQuote(arg0, to_candid_vec_n33(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n35(this._uploadFile, this._downloadFile, arg2), arg3, to_candid_opt_n40(this._uploadFile, this._downloadFile, arg4), arg5);
+            return from_candid_FullQuote_n41(this._uploadFile, this._downloadFile, result);
         }
     }
     async generateQuote(arg0: Array<[string, bigint, bigint]>): Promise<Quote> {
         if (this.processError) {
             try {
                 const result = await this.actor.generateQuote(arg0);
-                return result;
+                return from_candid_Quote_n43(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.generateQuote(arg0);
+            return from_candid_Quote_n43(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getAccountManagerLeaderboard(arg0: DashboardFilter): Promise<Array<AccountManagerPerformance>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAccountManagerLeaderboard(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAccountManagerLeaderboard(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
@@ -430,14 +816,14 @@ export class Backend implements backendInterface {
         if (this.processError) {
             try {
                 const result = await this.actor.getAccountManagers();
-                return from_candid_AccountManagerList_n12(this._uploadFile, this._downloadFile, result);
+                return from_candid_AccountManagerList_n47(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getAccountManagers();
-            return from_candid_AccountManagerList_n12(this._uploadFile, this._downloadFile, result);
+            return from_candid_AccountManagerList_n47(this._uploadFile, this._downloadFile, result);
         }
     }
     async getAllRateCardItems(): Promise<Array<RateCardItem>> {
@@ -458,293 +844,1028 @@ export class Backend implements backendInterface {
         if (this.processError) {
             try {
                 const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+                return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+            return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
         }
     }
     async getCallerUserRole(): Promise<UserRole> {
         if (this.processError) {
             try {
                 const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n19(this._uploadFile, this._downloadFile, result);
+                return from_candid_UserRole_n53(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n19(this._uploadFile, this._downloadFile, result);
+            return from_candid_UserRole_n53(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getQuoteHistory(): Promise<Array<QuoteHistoryItem>> {
+    async getDashboardFilterOptions(): Promise<DashboardFilterOptions> {
         if (this.processError) {
             try {
-                const result = await this.actor.getQuoteHistory();
+                const result = await this.actor.getDashboardFilterOptions();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getQuoteHistory();
+            const result = await this.actor.getDashboardFilterOptions();
             return result;
         }
     }
-    async getQuoteHistoryItem(arg0: string): Promise<QuoteHistoryItem | null> {
+    async getDashboardSummary(arg0: DashboardFilter): Promise<DashboardSummary> {
         if (this.processError) {
             try {
-                const result = await this.actor.getQuoteHistoryItem(arg0);
-                return from_candid_opt_n21(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getDashboardSummary(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0));
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getQuoteHistoryItem(arg0);
-            return from_candid_opt_n21(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getDashboardSummary(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0));
+            return result;
         }
     }
-    async getRateCard(): Promise<RateCard> {
+    async getDashboardTimeline(arg0: DashboardFilter, arg1: Array<bigint>): Promise<Array<DashboardPeriod>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getRateCard();
+                const result = await this.actor.getDashboardTimeline(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getRateCard();
+            const result = await this.actor.getDashboardTimeline(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
             return result;
         }
     }
-    async getRateCardItem(arg0: string): Promise<RateCardItem | null> {
+    async getDashboardTopCategories(arg0: DashboardFilter, arg1: bigint): Promise<Array<CategoryAnalysis>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getRateCardItem(arg0);
-                return from_candid_opt_n22(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getDashboardTopCategories(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getRateCardItem(arg0);
-            return from_candid_opt_n22(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getDashboardTopCategories(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
+            return result;
         }
     }
-    async getUploadedFiles(): Promise<Array<UploadedFile>> {
+    async getDashboardTopItems(arg0: DashboardFilter, arg1: bigint): Promise<Array<DashboardItem>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUploadedFiles();
+                const result = await this.actor.getDashboardTopItems(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUploadedFiles();
+            const result = await this.actor.getDashboardTopItems(to_candid_DashboardFilter_n45(this._uploadFile, this._downloadFile, arg0), arg1);
             return result;
         }
     }
-    async getUserProfile(arg0: string): Promise<UserProfile | null> {
+    async getExchangeRates(): Promise<Array<ExchangeRate>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getExchangeRates();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getExchangeRates();
+            return result;
         }
     }
-    async initializeAccessControl(): Promise<void> {
+    async getLocaleSettings(): Promise<LocaleSettings> {
         if (this.processError) {
             try {
-                const result = await this.actor.initializeAccessControl();
+                const result = await this.actor.getLocaleSettings();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.initializeAccessControl();
+            const result = await this.actor.getLocaleSettings();
             return result;
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async getMarginThresholds(): Promise<MarginThresholds> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
+                const result = await this.actor.getMarginThresholds();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
+            const result = await this.actor.getMarginThresholds();
             return result;
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async getPdfTemplate(arg0: string): Promise<PdfTemplate | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(arg0);
-                return result;
+                const result = await this.actor.getPdfTemplate(arg0);
+                return await from_candid_opt_n55(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(arg0);
-            return result;
+            const result = await this.actor.getPdfTemplate(arg0);
+            return await from_candid_opt_n55(this._uploadFile, this._downloadFile, result);
         }
     }
-    async trackUploadedFile(arg0: UploadedFile): Promise<void> {
+    async getPdfTemplates(): Promise<Array<PdfTemplate>> {
         if (this.processError) {
             try {
-                const result = await this.actor.trackUploadedFile(arg0);
-                return result;
+                const result = await this.actor.getPdfTemplates();
+                return await from_candid_vec_n59(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.trackUploadedFile(arg0);
-            return result;
+            const result = await this.actor.getPdfTemplates();
+            return await from_candid_vec_n59(this._uploadFile, this._downloadFile, result);
         }
     }
-    async updateAccountManager(arg0: AccountManager): Promise<void> {
+    async getPendingApprovals(): Promise<Array<QuoteHistoryItem>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateAccountManager(to_candid_AccountManager_n8(this._uploadFile, this._downloadFile, arg0));
-                return result;
+                const result = await this.actor.getPendingApprovals();
+                return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateAccountManager(to_candid_AccountManager_n8(this._uploadFile, this._downloadFile, arg0));
-            return result;
+            const result = await this.actor.getPendingApprovals();
+            return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
         }
     }
-    async updateAccountManagers(arg0: Array<AccountManager>): Promise<void> {
+    async getQuoteHash(arg0: string): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateAccountManagers(to_candid_vec_n23(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.getQuoteHash(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateAccountManagers(to_candid_vec_n23(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.getQuoteHash(arg0);
             return result;
         }
     }
-    async updateRateCard(arg0: Array<RateCardItem>): Promise<void> {
+    async getQuoteHistory(arg0: Principal | null): Promise<Array<QuoteHistoryItem>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getQuoteHistory(to_candid_opt_n61(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getQuoteHistory(to_candid_opt_n61(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getQuoteHistoryItem(arg0: string): Promise<QuoteHistoryItem | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getQuoteHistoryItem(arg0);
+                return from_candid_opt_n62(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getQuoteHistoryItem(arg0);
+            return from_candid_opt_n62(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getQuoteNumberPrefix(): Promise<string> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateRateCard(arg0);
+                const result = await this.actor.getQuoteNumberPrefix();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateRateCard(arg0);
+            const result = await this.actor.getQuoteNumberPrefix();
             return result;
         }
     }
-    async updateRateCardItem(arg0: RateCardItem): Promise<void> {
+    async getQuoteScenarios(arg0: string): Promise<Array<ScenarioAnalysis>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateRateCardItem(arg0);
+                const result = await this.actor.getQuoteScenarios(arg0);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateRateCardItem(arg0);
+            const result = await this.actor.getQuoteScenarios(arg0);
             return result;
         }
     }
-    async updateStandardCost(arg0: string, arg1: number): Promise<void> {
+    async getQuoteVersions(arg0: string): Promise<Array<QuoteHistoryItem>> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateStandardCost(arg0, arg1);
+                const result = await this.actor.getQuoteVersions(arg0);
+                return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getQuoteVersions(arg0);
+            return from_candid_vec_n60(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRateCard(): Promise<RateCard> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRateCard();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateStandardCost(arg0, arg1);
+            const result = await this.actor.getRateCard();
             return result;
         }
     }
+    async getRateCardAt(arg0: bigint): Promise<RateCardVersion | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRateCardAt(arg0);
+                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRateCardAt(arg0);
+            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRateCardItem(arg0: string): Promise<RateCardItem | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRateCardItem(arg0);
+                return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRateCardItem(arg0);
+            return from_candid_opt_n64(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRateCardVersion(arg0: bigint): Promise<RateCardVersion | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRateCardVersion(arg0);
+                return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRateCardVersion(arg0);
+            return from_candid_opt_n63(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRateCardVersions(): Promise<Array<RateCardVersionInfo>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRateCardVersions();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRateCardVersions();
+            return result;
+        }
+    }
+    async getTaxSettings(): Promise<TaxSettings> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getTaxSettings();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getTaxSettings();
+            return result;
+        }
+    }
+    async getUploadedFiles(): Promise<Array<UploadedFile>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUploadedFiles();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUploadedFiles();
+            return result;
+        }
+    }
+    async getUserProfile(arg0: string): Promise<UserProfile | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_opt_n52(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async initializeAccessControl(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.initializeAccessControl();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.initializeAccessControl();
+            return result;
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isCallerAdmin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isCallerAdmin();
+            return result;
+        }
+    }
+    async listUsers(): Promise<Array<UserSummary>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listUsers();
+                return from_candid_vec_n65(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listUsers();
+            return from_candid_vec_n65(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async promoteQuoteScenario(arg0: string, arg1: bigint): Promise<FullQuote> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.promoteQuoteScenario(arg0, arg1);
+                return from_candid_FullQuote_n41(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.promoteQuoteScenario(arg0, arg1);
+            return from_candid_FullQuote_n41(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async revokeUserRole(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.revokeUserRole(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.revokeUserRole(arg0);
+            return result;
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(arg0);
+            return result;
+        }
+    }
+    async savePdfTemplate(arg0: PdfTemplate): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.savePdfTemplate(await to_candid_PdfTemplate_n68(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.savePdfTemplate(await to_candid_PdfTemplate_n68(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async saveQuoteScenario(arg0: string, arg1: string, arg2: Array<[string, number]>): Promise<PricingScenario> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveQuoteScenario(arg0, arg1, arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveQuoteScenario(arg0, arg1, arg2);
+            return result;
+        }
+    }
+    async setExchangeRate(arg0: string, arg1: number): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setExchangeRate(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setExchangeRate(arg0, arg1);
+            return result;
+        }
+    }
+    async solveQuotePricing(arg0: string, arg1: Array<[string, number]>, arg2: PricingSolverRequest): Promise<PricingSolution> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.solveQuotePricing(arg0, arg1, to_candid_PricingSolverRequest_n70(this._uploadFile, this._downloadFile, arg2));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.solveQuotePricing(arg0, arg1, to_candid_PricingSolverRequest_n70(this._uploadFile, this._downloadFile, arg2));
+            return result;
+        }
+    }
+    async trackUploadedFile(arg0: UploadedFile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.trackUploadedFile(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.trackUploadedFile(arg0);
+            return result;
+        }
+    }
+    async updateAccountManager(arg0: AccountManager): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateAccountManager(to_candid_AccountManager_n8(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateAccountManager(to_candid_AccountManager_n8(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async updateAccountManagers(arg0: Array<AccountManager>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateAccountManagers(to_candid_vec_n74(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateAccountManagers(to_candid_vec_n74(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async updateLocaleSettings(arg0: LocaleSettings): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateLocaleSettings(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateLocaleSettings(arg0);
+            return result;
+        }
+    }
+    async updateMarginThresholds(arg0: MarginThresholds): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateMarginThresholds(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateMarginThresholds(arg0);
+            return result;
+        }
+    }
+    async updateQuoteNumberPrefix(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateQuoteNumberPrefix(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateQuoteNumberPrefix(arg0);
+            return result;
+        }
+    }
+    async updateQuoteStatus(arg0: string, arg1: QuoteStatus): Promise<QuoteHistoryItem> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateQuoteStatus(arg0, to_candid_QuoteStatus_n75(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_QuoteHistoryItem_n12(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateQuoteStatus(arg0, to_candid_QuoteStatus_n75(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_QuoteHistoryItem_n12(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateRateCard(arg0: Array<RateCardItem>, arg1: bigint | null, arg2: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateRateCard(arg0, to_candid_opt_n77(this._uploadFile, this._downloadFile, arg1), arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateRateCard(arg0, to_candid_opt_n77(this._uploadFile, this._downloadFile, arg1), arg2);
+            return result;
+        }
+    }
+    async updateRateCardItem(arg0: RateCardItem): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateRateCardItem(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateRateCardItem(arg0);
+            return result;
+        }
+    }
+    async updateStandardCost(arg0: string, arg1: number): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateStandardCost(arg0, arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateStandardCost(arg0, arg1);
+            return result;
+        }
+    }
+    async updateStandardCosts(arg0: Array<[string, number]>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateStandardCosts(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateStandardCosts(arg0);
+            return result;
+        }
+    }
+    async updateTaxSettings(arg0: TaxSettings): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateTaxSettings(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateTaxSettings(arg0);
+            return result;
+        }
+    }
+    async verifyQuote(arg0: string, arg1: string): Promise<QuoteVerification | null> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.verifyQuote(arg0, arg1);
+                return from_candid_opt_n78(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.verifyQuote(arg0, arg1);
+            return from_candid_opt_n78(this._uploadFile, this._downloadFile, result);
+        }
+    }
+}
+function from_candid_AccountManagerList_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AccountManagerList): AccountManagerList {
+    return from_candid_record_n48(_uploadFile, _downloadFile, value);
+}
+function from_candid_AccountManager_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AccountManager): AccountManager {
+    return from_candid_record_n51(_uploadFile, _downloadFile, value);
+}
+function from_candid_DiscountType_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DiscountType): DiscountType {
+    return from_candid_variant_n25(_uploadFile, _downloadFile, value);
+}
+function from_candid_Discount_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Discount): Discount {
+    return from_candid_record_n23(_uploadFile, _downloadFile, value);
+}
+function from_candid_FullQuote_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _FullQuote): FullQuote {
+    return from_candid_record_n42(_uploadFile, _downloadFile, value);
+}
+function from_candid_MarginBreach_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MarginBreach): MarginBreach {
+    return from_candid_record_n28(_uploadFile, _downloadFile, value);
+}
+async function from_candid_PdfTemplate_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PdfTemplate): Promise<PdfTemplate> {
+    return await from_candid_record_n57(_uploadFile, _downloadFile, value);
+}
+function from_candid_QuoteHistoryItem_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuoteHistoryItem): QuoteHistoryItem {
+    return from_candid_record_n13(_uploadFile, _downloadFile, value);
 }
-function from_candid_AccountManagerList_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AccountManagerList): AccountManagerList {
-    return from_candid_record_n13(_uploadFile, _downloadFile, value);
-}
-function from_candid_AccountManager_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AccountManager): AccountManager {
-    return from_candid_record_n16(_uploadFile, _downloadFile, value);
+function from_candid_QuoteItem_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuoteItem): QuoteItem {
+    return from_candid_record_n32(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserRole_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
-    return from_candid_variant_n20(_uploadFile, _downloadFile, value);
+function from_candid_QuoteStatusChange_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuoteStatusChange): QuoteStatusChange {
+    return from_candid_record_n18(_uploadFile, _downloadFile, value);
+}
+function from_candid_QuoteStatus_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuoteStatus): QuoteStatus {
+    return from_candid_variant_n15(_uploadFile, _downloadFile, value);
+}
+function from_candid_QuoteVerification_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _QuoteVerification): QuoteVerification {
+    return from_candid_record_n80(_uploadFile, _downloadFile, value);
+}
+function from_candid_Quote_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Quote): Quote {
+    return from_candid_record_n44(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n54(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserSummary_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserSummary): UserSummary {
+    return from_candid_record_n67(_uploadFile, _downloadFile, value);
 }
 function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
     return from_candid_record_n5(_uploadFile, _downloadFile, value);
 }
-function from_candid_opt_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+function from_candid_opt_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [Principal]): Principal | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
+function from_candid_opt_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ApprovalDecision]): ApprovalDecision | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_QuoteHistoryItem]): QuoteHistoryItem | null {
+function from_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Discount]): Discount | null {
+    return value.length === 0 ? null : from_candid_Discount_n22(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_RateCardItem]): RateCardItem | null {
+function from_candid_opt_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
     return value.length === 0 ? null : value[0];
 }
+async function from_candid_opt_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PdfTemplate]): Promise<PdfTemplate | null> {
+    return value.length === 0 ? null : await from_candid_PdfTemplate_n56(_uploadFile, _downloadFile, value[0]);
+}
+async function from_candid_opt_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ExternalBlob]): Promise<ExternalBlob | null> {
+    return value.length === 0 ? null : await _downloadFile(value[0]);
+}
 function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
     return value.length === 0 ? null : value[0];
 }
+function from_candid_opt_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_QuoteHistoryItem]): QuoteHistoryItem | null {
+    return value.length === 0 ? null : from_candid_QuoteHistoryItem_n12(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_RateCardVersion]): RateCardVersion | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_RateCardItem]): RateCardItem | null {
+    return value.length === 0 ? null : value[0];
+}
 function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
+function from_candid_opt_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_QuoteVerification]): QuoteVerification | null {
+    return value.length === 0 ? null : from_candid_QuoteVerification_n79(_uploadFile, _downloadFile, value[0]);
+}
 function from_candid_record_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    managers: Array<_AccountManager>;
+    id: string;
+    status: _QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    createdBy: Principal;
+    statusHistory: Array<_QuoteStatusChange>;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    accountManagerId: string;
+    approval: [] | [_ApprovalDecision];
+    quoteDiscount: [] | [_Discount];
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<_MarginBreach>;
+    items: Array<_QuoteItem>;
+    taxAmount: number;
+    rateCardVersion: bigint;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: _QuoteHeader;
 }): {
-    managers: Array<AccountManager>;
+    id: string;
+    status: QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    createdBy: Principal;
+    statusHistory: Array<QuoteStatusChange>;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    accountManagerId: string;
+    approval?: ApprovalDecision;
+    quoteDiscount?: Discount;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
+    items: Array<QuoteItem>;
+    taxAmount: number;
+    rateCardVersion: bigint;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: QuoteHeader;
+} {
+    return {
+        id: value.id,
+        status: from_candid_QuoteStatus_n14(_uploadFile, _downloadFile, value.status),
+        total: value.total,
+        taxableAmount: value.taxableAmount,
+        discountAmount: value.discountAmount,
+        createdBy: value.createdBy,
+        statusHistory: from_candid_vec_n16(_uploadFile, _downloadFile, value.statusHistory),
+        quoteNumber: value.quoteNumber,
+        version: value.version,
+        exchangeRate: value.exchangeRate,
+        accountManagerId: value.accountManagerId,
+        approval: record_opt_to_undefined(from_candid_opt_n20(_uploadFile, _downloadFile, value.approval)),
+        quoteDiscount: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.quoteDiscount)),
+        currency: value.currency,
+        timestamp: value.timestamp,
+        taxLabel: value.taxLabel,
+        marginBreaches: from_candid_vec_n26(_uploadFile, _downloadFile, value.marginBreaches),
+        items: from_candid_vec_n30(_uploadFile, _downloadFile, value.items),
+        taxAmount: value.taxAmount,
+        rateCardVersion: value.rateCardVersion,
+        taxRate: value.taxRate,
+        validUntil: value.validUntil,
+        subtotal: value.subtotal,
+        header: value.header
+    };
+}
+function from_candid_record_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _QuoteStatus;
+    changedBy: [] | [Principal];
+    timestamp: bigint;
+}): {
+    status: QuoteStatus;
+    changedBy?: Principal;
+    timestamp: bigint;
+} {
+    return {
+        status: from_candid_QuoteStatus_n14(_uploadFile, _downloadFile, value.status),
+        changedBy: record_opt_to_undefined(from_candid_opt_n19(_uploadFile, _downloadFile, value.changedBy)),
+        timestamp: value.timestamp
+    };
+}
+function from_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    value: number;
+    discountType: _DiscountType;
+}): {
+    value: number;
+    discountType: DiscountType;
+} {
+    return {
+        value: value.value,
+        discountType: from_candid_DiscountType_n24(_uploadFile, _downloadFile, value.discountType)
+    };
+}
+function from_candid_record_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    threshold: number;
+    marginPercentage: number;
+    category: [] | [string];
+}): {
+    threshold: number;
+    marginPercentage: number;
+    category?: string;
 } {
     return {
-        managers: from_candid_vec_n14(_uploadFile, _downloadFile, value.managers)
+        threshold: value.threshold,
+        marginPercentage: value.marginPercentage,
+        category: record_opt_to_undefined(from_candid_opt_n29(_uploadFile, _downloadFile, value.category))
     };
 }
-function from_candid_record_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: string;
-    name: string;
-    email: [] | [string];
+    total: number;
+    duration: bigint;
+    subcategory: string;
+    discountAmount: number;
+    discount: [] | [_Discount];
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    standardCost: number;
+    itemRefNo: string;
+    opsBriskCost: number;
 }): {
     id: string;
-    name: string;
-    email?: string;
+    total: number;
+    duration: bigint;
+    subcategory: string;
+    discountAmount: number;
+    discount?: Discount;
+    quantity: bigint;
+    category: string;
+    detailedDescription: string;
+    standardCost: number;
+    itemRefNo: string;
+    opsBriskCost: number;
 } {
     return {
         id: value.id,
-        name: value.name,
-        email: record_opt_to_undefined(from_candid_opt_n17(_uploadFile, _downloadFile, value.email))
+        total: value.total,
+        duration: value.duration,
+        subcategory: value.subcategory,
+        discountAmount: value.discountAmount,
+        discount: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.discount)),
+        quantity: value.quantity,
+        category: value.category,
+        detailedDescription: value.detailedDescription,
+        standardCost: value.standardCost,
+        itemRefNo: value.itemRefNo,
+        opsBriskCost: value.opsBriskCost
+    };
+}
+function from_candid_record_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    quoteDiscount: [] | [_Discount];
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<_MarginBreach>;
+    items: Array<_QuoteItem>;
+    taxAmount: number;
+    taxRate: number;
+    subtotal: number;
+    header: _QuoteHeader;
+}): {
+    status: QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    quoteNumber: string;
+    version: bigint;
+    exchangeRate: number;
+    quoteDiscount?: Discount;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    marginBreaches: Array<MarginBreach>;
+    items: Array<QuoteItem>;
+    taxAmount: number;
+    taxRate: number;
+    subtotal: number;
+    header: QuoteHeader;
+} {
+    return {
+        status: from_candid_QuoteStatus_n14(_uploadFile, _downloadFile, value.status),
+        total: value.total,
+        taxableAmount: value.taxableAmount,
+        discountAmount: value.discountAmount,
+        quoteNumber: value.quoteNumber,
+        version: value.version,
+        exchangeRate: value.exchangeRate,
+        quoteDiscount: record_opt_to_undefined(from_candid_opt_n21(_uploadFile, _downloadFile, value.quoteDiscount)),
+        currency: value.currency,
+        timestamp: value.timestamp,
+        taxLabel: value.taxLabel,
+        marginBreaches: from_candid_vec_n26(_uploadFile, _downloadFile, value.marginBreaches),
+        items: from_candid_vec_n30(_uploadFile, _downloadFile, value.items),
+        taxAmount: value.taxAmount,
+        taxRate: value.taxRate,
+        subtotal: value.subtotal,
+        header: value.header
+    };
+}
+function from_candid_record_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    total: number;
+    items: Array<_QuoteItem>;
+}): {
+    total: number;
+    items: Array<QuoteItem>;
+} {
+    return {
+        total: value.total,
+        items: from_candid_vec_n30(_uploadFile, _downloadFile, value.items)
+    };
+}
+function from_candid_record_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    managers: Array<_AccountManager>;
+}): {
+    managers: Array<AccountManager>;
+} {
+    return {
+        managers: from_candid_vec_n49(_uploadFile, _downloadFile, value.managers)
     };
 }
 function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
@@ -759,7 +1880,161 @@ function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint
         topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
     };
 }
-function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    name: string;
+    email: [] | [string];
+}): {
+    id: string;
+    name: string;
+    email?: string;
+} {
+    return {
+        id: value.id,
+        name: value.name,
+        email: record_opt_to_undefined(from_candid_opt_n29(_uploadFile, _downloadFile, value.email))
+    };
+}
+async function from_candid_record_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    primaryColor: string;
+    logo: [] | [_ExternalBlob];
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}): Promise<{
+    id: string;
+    primaryColor: string;
+    logo?: ExternalBlob;
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}> {
+    return {
+        id: value.id,
+        primaryColor: value.primaryColor,
+        logo: record_opt_to_undefined(await from_candid_opt_n58(_uploadFile, _downloadFile, value.logo)),
+        name: value.name,
+        accentColor: value.accentColor,
+        fontFamily: value.fontFamily,
+        isDefault: value.isDefault,
+        companyName: value.companyName,
+        analysisTitle: value.analysisTitle,
+        addressBlock: value.addressBlock,
+        textColor: value.textColor,
+        quoteTitle: value.quoteTitle,
+        footerText: value.footerText
+    };
+}
+function from_candid_record_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    principal: Principal;
+    role: _UserRole;
+    profile: [] | [_UserProfile];
+}): {
+    principal: Principal;
+    role: UserRole;
+    profile?: UserProfile;
+} {
+    return {
+        principal: value.principal,
+        role: from_candid_UserRole_n53(_uploadFile, _downloadFile, value.role),
+        profile: record_opt_to_undefined(from_candid_opt_n52(_uploadFile, _downloadFile, value.profile))
+    };
+}
+function from_candid_record_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    status: _QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    hash: string;
+    quoteNumber: string;
+    version: bigint;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    items: Array<_QuoteVerificationItem>;
+    taxAmount: number;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: _QuoteHeader;
+}): {
+    id: string;
+    status: QuoteStatus;
+    total: number;
+    taxableAmount: number;
+    discountAmount: number;
+    hash: string;
+    quoteNumber: string;
+    version: bigint;
+    currency: string;
+    timestamp: bigint;
+    taxLabel: string;
+    items: Array<QuoteVerificationItem>;
+    taxAmount: number;
+    taxRate: number;
+    validUntil: bigint;
+    subtotal: number;
+    header: QuoteHeader;
+} {
+    return {
+        id: value.id,
+        status: from_candid_QuoteStatus_n14(_uploadFile, _downloadFile, value.status),
+        total: value.total,
+        taxableAmount: value.taxableAmount,
+        discountAmount: value.discountAmount,
+        hash: value.hash,
+        quoteNumber: value.quoteNumber,
+        version: value.version,
+        currency: value.currency,
+        timestamp: value.timestamp,
+        taxLabel: value.taxLabel,
+        items: value.items,
+        taxAmount: value.taxAmount,
+        taxRate: value.taxRate,
+        validUntil: value.validUntil,
+        subtotal: value.subtotal,
+        header: value.header
+    };
+}
+function from_candid_variant_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expired: null;
+} | {
+    sent: null;
+} | {
+    pendingApproval: null;
+} | {
+    rejected: null;
+} | {
+    accepted: null;
+} | {
+    draft: null;
+}): QuoteStatus {
+    return "expired" in value ? QuoteStatus.expired : "sent" in value ? QuoteStatus.sent : "pendingApproval" in value ? QuoteStatus.pendingApproval : "rejected" in value ? QuoteStatus.rejected : "accepted" in value ? QuoteStatus.accepted : "draft" in value ? QuoteStatus.draft : value;
+}
+function from_candid_variant_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fixed: null;
+} | {
+    percentage: null;
+}): DiscountType {
+    return "fixed" in value ? DiscountType.fixed : "percentage" in value ? DiscountType.percentage : value;
+}
+function from_candid_variant_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
     user: null;
@@ -768,12 +2043,51 @@ function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
-function from_candid_vec_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AccountManager>): Array<AccountManager> {
-    return value.map((x)=>from_candid_AccountManager_n15(_uploadFile, _downloadFile, x));
+function from_candid_vec_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_QuoteStatusChange>): Array<QuoteStatusChange> {
+    return value.map((x)=>from_candid_QuoteStatusChange_n17(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_MarginBreach>): Array<MarginBreach> {
+    return value.map((x)=>from_candid_MarginBreach_n27(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_QuoteItem>): Array<QuoteItem> {
+    return value.map((x)=>from_candid_QuoteItem_n31(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AccountManager>): Array<AccountManager> {
+    return value.map((x)=>from_candid_AccountManager_n50(_uploadFile, _downloadFile, x));
+}
+async function from_candid_vec_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PdfTemplate>): Promise<Array<PdfTemplate>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_PdfTemplate_n56(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_QuoteHistoryItem>): Array<QuoteHistoryItem> {
+    return value.map((x)=>from_candid_QuoteHistoryItem_n12(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_UserSummary>): Array<UserSummary> {
+    return value.map((x)=>from_candid_UserSummary_n66(_uploadFile, _downloadFile, x));
 }
 function to_candid_AccountManager_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AccountManager): _AccountManager {
     return to_candid_record_n9(_uploadFile, _downloadFile, value);
 }
+function to_candid_DashboardFilter_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DashboardFilter): _DashboardFilter {
+    return to_candid_record_n46(_uploadFile, _downloadFile, value);
+}
+function to_candid_DiscountType_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DiscountType): _DiscountType {
+    return to_candid_variant_n39(_uploadFile, _downloadFile, value);
+}
+function to_candid_Discount_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Discount): _Discount {
+    return to_candid_record_n37(_uploadFile, _downloadFile, value);
+}
+async function to_candid_PdfTemplate_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PdfTemplate): Promise<_PdfTemplate> {
+    return await to_candid_record_n69(_uploadFile, _downloadFile, value);
+}
+function to_candid_PricingSolverRequest_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PricingSolverRequest): _PricingSolverRequest {
+    return to_candid_record_n71(_uploadFile, _downloadFile, value);
+}
+function to_candid_PricingTarget_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: PricingTarget): _PricingTarget {
+    return to_candid_variant_n73(_uploadFile, _downloadFile, value);
+}
+function to_candid_QuoteStatus_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: QuoteStatus): _QuoteStatus {
+    return to_candid_variant_n76(_uploadFile, _downloadFile, value);
+}
 function to_candid_UserRole_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
     return to_candid_variant_n11(_uploadFile, _downloadFile, value);
 }
@@ -783,6 +2097,18 @@ function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: Exte
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
+function to_candid_opt_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Discount | null): [] | [_Discount] {
+    return value === null ? candid_none() : candid_some(to_candid_Discount_n36(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Principal | null): [] | [Principal] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
+    return value === null ? candid_none() : candid_some(value);
+}
 function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     proposed_top_up_amount?: bigint;
 }): {
@@ -792,6 +2118,96 @@ function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
         proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
     };
 }
+function to_candid_record_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    value: number;
+    discountType: DiscountType;
+}): {
+    value: number;
+    discountType: _DiscountType;
+} {
+    return {
+        value: value.value,
+        discountType: to_candid_DiscountType_n38(_uploadFile, _downloadFile, value.discountType)
+    };
+}
+function to_candid_record_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    to?: bigint;
+    clientName?: string;
+    from?: bigint;
+    accountManager?: string;
+}): {
+    to: [] | [bigint];
+    clientName: [] | [string];
+    from: [] | [bigint];
+    accountManager: [] | [string];
+} {
+    return {
+        to: value.to ? candid_some(value.to) : candid_none(),
+        clientName: value.clientName ? candid_some(value.clientName) : candid_none(),
+        from: value.from ? candid_some(value.from) : candid_none(),
+        accountManager: value.accountManager ? candid_some(value.accountManager) : candid_none()
+    };
+}
+async function to_candid_record_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    primaryColor: string;
+    logo?: ExternalBlob;
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}): Promise<{
+    id: string;
+    primaryColor: string;
+    logo: [] | [_ExternalBlob];
+    name: string;
+    accentColor: string;
+    fontFamily: string;
+    isDefault: boolean;
+    companyName: string;
+    analysisTitle: string;
+    addressBlock: string;
+    textColor: string;
+    quoteTitle: string;
+    footerText: string;
+}> {
+    return {
+        id: value.id,
+        primaryColor: value.primaryColor,
+        logo: value.logo ? candid_some(await _uploadFile(value.logo)) : candid_none(),
+        name: value.name,
+        accentColor: value.accentColor,
+        fontFamily: value.fontFamily,
+        isDefault: value.isDefault,
+        companyName: value.companyName,
+        analysisTitle: value.analysisTitle,
+        addressBlock: value.addressBlock,
+        textColor: value.textColor,
+        quoteTitle: value.quoteTitle,
+        footerText: value.footerText
+    };
+}
+function to_candid_record_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categories: Array<string>;
+    target: PricingTarget;
+    minimumMarginPercentage: number;
+}): {
+    categories: Array<string>;
+    target: _PricingTarget;
+    minimumMarginPercentage: number;
+} {
+    return {
+        categories: value.categories,
+        target: to_candid_PricingTarget_n72(_uploadFile, _downloadFile, value.target),
+        minimumMarginPercentage: value.minimumMarginPercentage
+    };
+}
 function to_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: string;
     name: string;
@@ -807,6 +2223,14 @@ function to_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
         email: value.email ? candid_some(value.email) : candid_none()
     };
 }
+function to_candid_tuple_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [string, bigint, bigint, Discount | null]): [string, bigint, bigint, [] | [_Discount]] {
+    return [
+        value[0],
+        value[1],
+        value[2],
+        to_candid_opt_n35(_uploadFile, _downloadFile, value[3])
+    ];
+}
 function to_candid_variant_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
     admin: null;
 } | {
@@ -822,7 +2246,65 @@ function to_candid_variant_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint
         guest: null
     } : value;
 }
-function to_candid_vec_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<AccountManager>): Array<_AccountManager> {
+function to_candid_variant_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DiscountType): {
+    fixed: null;
+} | {
+    percentage: null;
+} {
+    return value == DiscountType.fixed ? {
+        fixed: null
+    } : value == DiscountType.percentage ? {
+        percentage: null
+    } : value;
+}
+function to_candid_variant_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    __kind__: "marginPercentage";
+    marginPercentage: number;
+} | {
+    __kind__: "grandTotal";
+    grandTotal: number;
+}): {
+    marginPercentage: number;
+} | {
+    grandTotal: number;
+} {
+    return value.__kind__ === "marginPercentage" ? {
+        marginPercentage: value.marginPercentage
+    } : value.__kind__ === "grandTotal" ? {
+        grandTotal: value.grandTotal
+    } : value;
+}
+function to_candid_variant_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: QuoteStatus): {
+    expired: null;
+} | {
+    sent: null;
+} | {
+    pendingApproval: null;
+} | {
+    rejected: null;
+} | {
+    accepted: null;
+} | {
+    draft: null;
+} {
+    return value == QuoteStatus.expired ? {
+        expired: null
+    } : value == QuoteStatus.sent ? {
+        sent: null
+    } : value == QuoteStatus.pendingApproval ? {
+        pendingApproval: null
+    } : value == QuoteStatus.rejected ? {
+        rejected: null
+    } : value == QuoteStatus.accepted ? {
+        accepted: null
+    } : value == QuoteStatus.draft ? {
+        draft: null
+    } : value;
+}
+function to_candid_vec_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<[string, bigint, bigint, Discount | null]>): Array<[string, bigint, bigint, [] | [_Discount]]> {
+    return value.map((x)=>to_candid_tuple_n34(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<AccountManager>): Array<_AccountManager> {
     return value.map((x)=>to_candid_AccountManager_n8(_uploadFile, _downloadFile, x));
 }
 export interface CreateActorOptions {
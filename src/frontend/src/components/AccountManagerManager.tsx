@@ -7,62 +7,60 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Upload, Download, Users, Trash2, Plus } from 'lucide-react';
 import { toast } from 'sonner';
 import { useGetAccountManagers, useUpdateAccountManagers, useAddAccountManager, useDeleteAccountManager } from '../hooks/useQueries';
-import { parseAccountManagerFile } from '../lib/accountManagerParser';
+import { ACCOUNT_MANAGER_IMPORT_FIELDS, toAccountManagers, type AccountManagerImportField } from '../lib/accountManagerParser';
+import type { ImportRecord } from '../lib/spreadsheetImport';
+import { downloadCsv } from '../lib/csv';
 import type { AccountManager } from '../backend';
+import { describeMutationError } from '../lib/authorization';
+import SpreadsheetImportDialog from './SpreadsheetImportDialog';
 
 export default function AccountManagerManager() {
-  const [isUploading, setIsUploading] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const [newManagerName, setNewManagerName] = useState('');
   const [newManagerEmail, setNewManagerEmail] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
 
   const { data: accountManagerList, isLoading } = useGetAccountManagers();
-  const { mutate: updateAccountManagers } = useUpdateAccountManagers();
+  const { mutate: updateAccountManagers, isPending: isUploading } = useUpdateAccountManagers();
   const { mutate: addAccountManager, isPending: isAdding } = useAddAccountManager();
   const { mutate: deleteAccountManager } = useDeleteAccountManager();
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
-
-    setIsUploading(true);
-    try {
-      const parsedManagers = await parseAccountManagerFile(file);
-      
-      // Generate IDs for new managers
-      const managersWithIds: AccountManager[] = parsedManagers.map((manager, index) => ({
-        id: `am_${Date.now()}_${index}`,
-        name: manager.name,
-        email: manager.email || undefined,
-      }));
-
-      updateAccountManagers(managersWithIds, {
-        onSuccess: () => {
-          toast.success(`Successfully uploaded ${managersWithIds.length} account manager(s)`);
-          event.target.value = '';
-        },
-        onError: (error) => {
-          toast.error('Failed to upload account managers: ' + error.message);
-        },
-      });
-    } catch (error) {
-      toast.error((error as Error).message);
-    } finally {
-      setIsUploading(false);
-    }
+    // Allow choosing the same file again after cancelling
+    event.target.value = '';
+    if (file) setImportFile(file);
+  };
+
+  const handleImport = (records: ImportRecord<AccountManagerImportField>[]) => {
+    setImportFile(null);
+
+    // Generate IDs for new managers
+    const managersWithIds: AccountManager[] = toAccountManagers(records).map((manager, index) => ({
+      id: `am_${Date.now()}_${index}`,
+      name: manager.name,
+      email: manager.email,
+    }));
+
+    updateAccountManagers(managersWithIds, {
+      onSuccess: () => {
+        toast.success(`Successfully uploaded ${managersWithIds.length} account manager(s)`);
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('upload account managers', error));
+      },
+    });
   };
 
   const handleDownloadTemplate = () => {
-    const csvContent = 'Name,Email\nJohn Doe,john.doe@example.com\nJane Smith,jane.smith@example.com';
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'account_managers_template.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(
+      [
+        ['Name', 'Email'],
+        ['John Doe', 'john.doe@example.com'],
+        ['Jane Smith', 'jane.smith@example.com'],
+      ],
+      'account_managers_template.csv'
+    );
     toast.success('Template downloaded successfully');
   };
 
@@ -86,7 +84,7 @@ export default function AccountManagerManager() {
         setShowAddForm(false);
       },
       onError: (error) => {
-        toast.error('Failed to add account manager: ' + error.message);
+        toast.error(describeMutationError('add account manager', error));
       },
     });
   };
@@ -99,7 +97,7 @@ export default function AccountManagerManager() {
         toast.success('Account manager deleted successfully');
       },
       onError: (error) => {
-        toast.error('Failed to delete account manager: ' + error.message);
+        toast.error(describeMutationError('delete account manager', error));
       },
     });
   };
@@ -233,6 +231,14 @@ export default function AccountManagerManager() {
           )}
         </div>
       </CardContent>
+
+      <SpreadsheetImportDialog
+        file={importFile}
+        title="Import Account Managers"
+        fields={ACCOUNT_MANAGER_IMPORT_FIELDS}
+        onImport={handleImport}
+        onCancel={() => setImportFile(null)}
+      />
     </Card>
   );
 }
@@ -0,0 +1,16 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ShieldAlert } from 'lucide-react';
+
+interface AdminOnlyNoticeProps {
+  message: string;
+}
+
+export default function AdminOnlyNotice({ message }: AdminOnlyNoticeProps) {
+  return (
+    <Alert>
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Admin access required</AlertTitle>
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  );
+}
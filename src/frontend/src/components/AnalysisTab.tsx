@@ -1,96 +1,70 @@
-import { useState, useMemo } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
-import { BarChart3, TrendingUp, DollarSign, FileSpreadsheet, FileDown, Printer, RefreshCw } from 'lucide-react';
+import {
+  AlertTriangle,
+  BarChart3,
+  TrendingUp,
+  DollarSign,
+  FileSpreadsheet,
+  FileDown,
+  Layers,
+  Printer,
+  RefreshCw,
+} from 'lucide-react';
 import { toast } from 'sonner';
 import type { FullQuote } from '../backend';
 import { exportToExcel } from '../lib/excelParser';
-import { exportToPDF } from '../lib/pdfExporter';
-import { formatCurrency, formatNumber, formatPercentage } from '../lib/formatters';
-import { useUpdateStandardCost } from '../hooks/useQueries';
+import { exportToPDF, resolvePdfBranding } from '../lib/pdfExporter';
+import { buildAnalysisDocument } from '../lib/documentModel';
+import { formatCurrency, formatDate, formatFileDate, formatNumber, formatPercentage } from '../lib/formatters';
+import { toBaseCurrency } from '../lib/currency';
+import { calculateDiscountAmount, calculateQuoteTotals } from '../lib/quoteTotals';
+import { quoteVersionId } from '../lib/quoteVersions';
+import { useAnalyzeQuote, useUpdateStandardCosts, useGetPdfTemplates, useIsCallerAdmin } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import PriceSolver from './PriceSolver';
+import QuoteScenarios from './QuoteScenarios';
 
 interface AnalysisTabProps {
   quote: FullQuote;
   onQuoteUpdated?: (updatedQuote: FullQuote) => void;
 }
 
-interface EditableItem {
-  id: string;
-  itemRefNo: string;
-  category: string;
-  subcategory: string;
-  detailedDescription: string;
-  opsBriskCost: number;
-  standardCost: number;
-  quantity: number;
-  duration: number;
-}
-
 export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps) {
-  const [editableItems, setEditableItems] = useState<EditableItem[]>(
-    quote.items.map((item) => ({
-      id: item.id,
-      itemRefNo: item.itemRefNo,
-      category: item.category,
-      subcategory: item.subcategory,
-      detailedDescription: item.detailedDescription,
-      opsBriskCost: item.opsBriskCost,
-      standardCost: item.standardCost,
-      quantity: Number(item.quantity),
-      duration: Number(item.duration),
-    }))
-  );
+  // Standard cost of each quote line as edited, in the quote currency
+  const [standardCosts, setStandardCosts] = useState<number[]>(quote.items.map((item) => item.standardCost));
 
-  const { mutate: updateStandardCost, isPending: isUpdating } = useUpdateStandardCost();
+  const { mutate: updateStandardCosts, isPending: isUpdating } = useUpdateStandardCosts();
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: templates } = useGetPdfTemplates();
+  // The stored quote supplies quantities, durations and discounts; the displayed costs are always sent so that
+  // edits, and costs already saved from this tab, are reflected in the figures
+  const {
+    data: analysis,
+    isLoading: isAnalyzing,
+    isError: isAnalysisError,
+    error: analysisError,
+    refetch: retryAnalysis,
+    isFetching: isRetrying,
+  } = useAnalyzeQuote(
+    quoteVersionId(quote),
+    quote.items.map((item, index) => [item.id, standardCosts[index]])
+  );
 
   const handleStandardCostChange = (index: number, newCost: number) => {
-    const newItems = [...editableItems];
-    newItems[index].standardCost = Math.max(0, newCost);
-    setEditableItems(newItems);
+    setStandardCosts(standardCosts.map((cost, i) => (i === index ? Math.max(0, newCost) : cost)));
   };
 
-  const analysisData = useMemo(() => {
-    const items = editableItems.map((item) => {
-      const total = item.standardCost * item.quantity * item.duration;
-      const margin = item.standardCost - item.opsBriskCost;
-      const marginPercentage = item.standardCost > 0 ? (margin / item.standardCost) * 100 : 0;
-      const totalMargin = margin * item.quantity * item.duration;
-      const totalCost = item.opsBriskCost * item.quantity * item.duration;
-
-      return {
-        ...item,
-        total,
-        margin,
-        marginPercentage,
-        totalMargin,
-        totalCost,
-      };
-    });
-
-    const totalRevenue = items.reduce((sum, item) => sum + item.total, 0);
-    const totalCost = items.reduce((sum, item) => sum + item.totalCost, 0);
-    const totalProfit = totalRevenue - totalCost;
-    const totalMargin = items.reduce((sum, item) => sum + item.totalMargin, 0);
-    const overallMarginPercentage = totalRevenue > 0 ? (totalProfit / totalRevenue) * 100 : 0;
-
-    return {
-      items,
-      totalRevenue,
-      totalCost,
-      totalProfit,
-      totalMargin,
-      overallMarginPercentage,
-    };
-  }, [editableItems]);
-
   const handleUpdateCosts = () => {
     // Update all changed costs in the backend
-    const updates = editableItems.map((item, index) => {
-      const originalItem = quote.items[index];
-      if (item.standardCost !== originalItem.standardCost) {
-        return { itemId: item.id, newStandardCost: item.standardCost };
+    const updates = quote.items.map((item, index) => {
+      if (standardCosts[index] !== item.standardCost) {
+        // Quote costs are in the quote currency; the rate card is kept in the base currency
+        return { itemId: item.id, newStandardCost: toBaseCurrency(standardCosts[index], quote.exchangeRate) };
       }
       return null;
     }).filter(Boolean) as { itemId: string; newStandardCost: number }[];
@@ -100,141 +74,46 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
       return;
     }
 
-    // Update each item
-    let completed = 0;
-    updates.forEach(({ itemId, newStandardCost }) => {
-      updateStandardCost(
-        { itemId, newStandardCost },
-        {
-          onSuccess: () => {
-            completed++;
-            if (completed === updates.length) {
-              // Update the quote with new values
-              const updatedQuote: FullQuote = {
-                ...quote,
-                items: editableItems.map((item) => ({
-                  ...quote.items.find((qi) => qi.id === item.id)!,
-                  standardCost: item.standardCost,
-                  total: item.standardCost * item.quantity * item.duration,
-                })),
-                total: analysisData.totalRevenue,
-              };
-              
-              if (onQuoteUpdated) {
-                onQuoteUpdated(updatedQuote);
-              }
-              
-              toast.success(`Updated ${updates.length} standard cost${updates.length > 1 ? 's' : ''} successfully!`);
-            }
-          },
-          onError: (error) => {
-            toast.error(`Failed to update cost: ${error.message}`);
-          },
+    // All changed costs are saved together as one new rate card version
+    updateStandardCosts(updates, {
+      onSuccess: () => {
+        // Reprice the lines with their discounts and recompute the totals, as the backend prices a quote
+        const items = quote.items.map((item, index) => {
+          const grossTotal = standardCosts[index] * Number(item.quantity) * Number(item.duration);
+          const discountAmount = calculateDiscountAmount(item.discount, grossTotal);
+          return { ...item, standardCost: standardCosts[index], discountAmount, total: grossTotal - discountAmount };
+        });
+        const updatedQuote: FullQuote = {
+          ...quote,
+          items,
+          ...calculateQuoteTotals(items.map((item) => item.total), quote.quoteDiscount, quote.taxRate),
+        };
+
+        if (onQuoteUpdated) {
+          onQuoteUpdated(updatedQuote);
         }
-      );
+
+        toast.success(`Updated ${updates.length} standard cost${updates.length > 1 ? 's' : ''} successfully!`);
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('update cost', error));
+      },
     });
   };
 
   const handleResetCosts = () => {
-    setEditableItems(
-      quote.items.map((item) => ({
-        id: item.id,
-        itemRefNo: item.itemRefNo,
-        category: item.category,
-        subcategory: item.subcategory,
-        detailedDescription: item.detailedDescription,
-        opsBriskCost: item.opsBriskCost,
-        standardCost: item.standardCost,
-        quantity: Number(item.quantity),
-        duration: Number(item.duration),
-      }))
-    );
+    setStandardCosts(quote.items.map((item) => item.standardCost));
     toast.success('Standard costs reset to original values');
   };
 
-  const handleExportExcel = () => {
-    try {
-      const excelData = analysisData.items.map((item, index) => ({
-        'S.No': index + 1,
-        'Item Ref No': item.itemRefNo,
-        'Category': item.category,
-        'Subcategory': item.subcategory,
-        'Description': item.detailedDescription || '—',
-        'Quantity': item.quantity,
-        'Duration': item.duration,
-        'Ops Brisk Cost': item.opsBriskCost,
-        'Standard Cost': item.standardCost,
-        'Margin': item.margin,
-        'Margin %': item.marginPercentage.toFixed(1) + '%',
-        'Total Revenue': item.total,
-        'Total Profit': item.totalMargin,
-      }));
-
-      // Add summary rows
-      excelData.push({} as any);
-      excelData.push({
-        'S.No': '',
-        'Item Ref No': '',
-        'Category': '',
-        'Subcategory': '',
-        'Description': '',
-        'Quantity': '',
-        'Duration': '',
-        'Ops Brisk Cost': '',
-        'Standard Cost': '',
-        'Margin': '',
-        'Margin %': 'Total Revenue:',
-        'Total Revenue': analysisData.totalRevenue,
-        'Total Profit': '',
-      } as any);
-      excelData.push({
-        'S.No': '',
-        'Item Ref No': '',
-        'Category': '',
-        'Subcategory': '',
-        'Description': '',
-        'Quantity': '',
-        'Duration': '',
-        'Ops Brisk Cost': '',
-        'Standard Cost': '',
-        'Margin': '',
-        'Margin %': 'Total Cost:',
-        'Total Revenue': analysisData.totalCost,
-        'Total Profit': '',
-      } as any);
-      excelData.push({
-        'S.No': '',
-        'Item Ref No': '',
-        'Category': '',
-        'Subcategory': '',
-        'Description': '',
-        'Quantity': '',
-        'Duration': '',
-        'Ops Brisk Cost': '',
-        'Standard Cost': '',
-        'Margin': '',
-        'Margin %': 'Total Profit:',
-        'Total Revenue': analysisData.totalProfit,
-        'Total Profit': '',
-      } as any);
-      excelData.push({
-        'S.No': '',
-        'Item Ref No': '',
-        'Category': '',
-        'Subcategory': '',
-        'Description': '',
-        'Quantity': '',
-        'Duration': '',
-        'Ops Brisk Cost': '',
-        'Standard Cost': '',
-        'Margin': '',
-        'Margin %': 'Overall Margin %:',
-        'Total Revenue': analysisData.overallMarginPercentage.toFixed(1) + '%',
-        'Total Profit': '',
-      } as any);
+  const buildDocument = () => {
+    if (!analysis) throw new Error('The analysis is still loading. Please try again.');
+    return buildAnalysisDocument({ header: quote.header, ...analysis }, formatDate(new Date()), formatFileDate(new Date()));
+  };
 
-      const filename = `analysis_${quote.header.projectName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
-      exportToExcel(excelData, filename);
+  const handleExportExcel = async () => {
+    try {
+      await exportToExcel(buildDocument());
       toast.success('Analysis exported to Excel successfully!');
     } catch (error) {
       console.error('Error exporting to Excel:', error);
@@ -242,33 +121,10 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
     }
   };
 
-  const handleExportPDF = () => {
+  const handleExportPDF = async () => {
     try {
-      const pdfData = {
-        header: quote.header,
-        items: analysisData.items.map((item) => ({
-          itemRefNo: item.itemRefNo,
-          category: item.category,
-          subcategory: item.subcategory,
-          detailedDescription: item.detailedDescription,
-          quantity: item.quantity,
-          duration: item.duration,
-          opsBriskCost: item.opsBriskCost,
-          standardCost: item.standardCost,
-          margin: item.margin,
-          marginPercentage: item.marginPercentage,
-          total: item.total,
-          totalMargin: item.totalMargin,
-        })),
-        totalRevenue: analysisData.totalRevenue,
-        totalCost: analysisData.totalCost,
-        totalProfit: analysisData.totalProfit,
-        overallMarginPercentage: analysisData.overallMarginPercentage,
-        date: new Date().toLocaleDateString(),
-      };
-
-      const filename = `analysis_${quote.header.projectName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
-      exportToPDF(pdfData, filename, true);
+      const branding = await resolvePdfBranding(templates?.find((template) => template.isDefault));
+      await exportToPDF(buildDocument(), branding);
       toast.success('Analysis exported to PDF successfully!');
     } catch (error) {
       console.error('Error exporting to PDF:', error);
@@ -280,6 +136,30 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
     window.print();
   };
 
+  if (isAnalysisError) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Analysis unavailable</AlertTitle>
+        <AlertDescription className="space-y-3">
+          <p>{describeMutationError('analyse this quote', analysisError)}</p>
+          <Button variant="outline" size="sm" onClick={() => retryAnalysis()} disabled={isRetrying}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {isRetrying ? 'Retrying...' : 'Retry'}
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (isAnalyzing || !analysis) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Summary Cards */}
@@ -292,8 +172,8 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-primary">{formatCurrency(analysisData.totalRevenue)}</p>
-            <p className="text-xs text-muted-foreground mt-1">Based on standard costs</p>
+            <p className="text-2xl font-bold text-primary">{formatCurrency(analysis.totalRevenue, quote.currency)}</p>
+            <p className="text-xs text-muted-foreground mt-1">After discounts, before tax</p>
           </CardContent>
         </Card>
 
@@ -301,13 +181,13 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
           <CardHeader className="pb-3">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <TrendingUp className="h-4 w-4 text-success" />
-              Total Profit
+              Gross Profit
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-success">{formatCurrency(analysisData.totalProfit)}</p>
+            <p className="text-2xl font-bold text-success">{formatCurrency(analysis.grossProfit, quote.currency)}</p>
             <p className="text-xs text-muted-foreground mt-1">
-              Margin: {formatPercentage(analysisData.overallMarginPercentage)}
+              Margin: {formatPercentage(analysis.marginPercentage)}
             </p>
           </CardContent>
         </Card>
@@ -320,12 +200,59 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold text-warning">{formatCurrency(analysisData.totalCost)}</p>
+            <p className="text-2xl font-bold text-warning">{formatCurrency(analysis.totalCost, quote.currency)}</p>
             <p className="text-xs text-muted-foreground mt-1">Ops brisk costs</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Category Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            By Category
+          </CardTitle>
+          <CardDescription>Revenue, cost and gross profit of each rate card category in the quote</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Gross Profit</TableHead>
+                  <TableHead className="text-right">Margin %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.categories.map((category) => (
+                  <TableRow key={category.category}>
+                    <TableCell className="font-medium">{category.category}</TableCell>
+                    <TableCell className="text-right">{formatNumber(Number(category.itemCount), 0)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(category.revenue, quote.currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(category.cost, quote.currency)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      <span className={category.grossProfit >= 0 ? 'text-success' : 'text-destructive'}>
+                        {formatCurrency(category.grossProfit, quote.currency)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      <span className={category.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}>
+                        {formatPercentage(category.marginPercentage)}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Analysis Table */}
       <Card>
         <CardHeader>
@@ -335,18 +262,23 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
                 <BarChart3 className="h-5 w-5" />
                 Cost Analysis
               </CardTitle>
-              <CardDescription>Review margins and adjust standard costs inline</CardDescription>
+              <CardDescription>
+                Review margins and adjust standard costs inline, then keep them as a pricing scenario
+                {isAdmin ? ' or save them to the rate card' : ' (only administrators can save cost changes to the rate card)'}
+              </CardDescription>
             </div>
             <div className="flex gap-2">
-              <Button 
-                variant="default" 
-                size="sm" 
-                onClick={handleUpdateCosts}
-                disabled={isUpdating}
-              >
-                <RefreshCw className={`mr-2 h-4 w-4 ${isUpdating ? 'animate-spin' : ''}`} />
-                {isUpdating ? 'Updating...' : 'Update Costs'}
-              </Button>
+              {isAdmin && (
+                <Button 
+                  variant="default" 
+                  size="sm" 
+                  onClick={handleUpdateCosts}
+                  disabled={isUpdating}
+                >
+                  <RefreshCw className={`mr-2 h-4 w-4 ${isUpdating ? 'animate-spin' : ''}`} />
+                  {isUpdating ? 'Updating...' : 'Update Rate Card'}
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={handleResetCosts}>
                 Reset
               </Button>
@@ -375,34 +307,36 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
                   <TableHead className="text-right">Qty</TableHead>
                   <TableHead className="text-right">Duration</TableHead>
                   <TableHead className="text-right">Ops Brisk Cost</TableHead>
-                  <TableHead className="text-right">Standard Cost</TableHead>
-                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Standard Cost ({quote.currency})</TableHead>
+                  <TableHead className="text-right">Revenue</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Gross Profit</TableHead>
                   <TableHead className="text-right">Margin %</TableHead>
-                  <TableHead className="text-right">Total Revenue</TableHead>
-                  <TableHead className="text-right">Total Profit</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {analysisData.items.map((item, index) => (
-                  <TableRow key={item.id}>
+                {analysis.items.map((item, index) => (
+                  <TableRow key={`${item.id}-${index}`}>
                     <TableCell className="font-medium">{item.itemRefNo}</TableCell>
                     <TableCell className="max-w-[200px] truncate">{item.detailedDescription}</TableCell>
-                    <TableCell className="text-right">{formatNumber(item.quantity)}</TableCell>
-                    <TableCell className="text-right">{formatNumber(item.duration)}</TableCell>
-                    <TableCell className="text-right font-mono">{formatCurrency(item.opsBriskCost)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(Number(item.quantity), 0)}</TableCell>
+                    <TableCell className="text-right">{formatNumber(Number(item.duration), 0)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(item.opsBriskCost, quote.currency)}</TableCell>
                     <TableCell className="text-right">
                       <Input
                         type="number"
                         step="0.01"
                         min="0"
-                        value={item.standardCost}
+                        value={standardCosts[index]}
                         onChange={(e) => handleStandardCostChange(index, parseFloat(e.target.value) || 0)}
                         className="w-32 text-right font-mono print:border-0 print:p-0"
                       />
                     </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(item.revenue, quote.currency)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(item.cost, quote.currency)}</TableCell>
                     <TableCell className="text-right font-mono">
-                      <span className={item.margin >= 0 ? 'text-success' : 'text-destructive'}>
-                        {formatCurrency(item.margin)}
+                      <span className={item.grossProfit >= 0 ? 'text-success' : 'text-destructive'}>
+                        {formatCurrency(item.grossProfit, quote.currency)}
                       </span>
                     </TableCell>
                     <TableCell className="text-right font-mono">
@@ -410,24 +344,24 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
                         {formatPercentage(item.marginPercentage)}
                       </span>
                     </TableCell>
-                    <TableCell className="text-right font-mono">{formatCurrency(item.total)}</TableCell>
-                    <TableCell className="text-right font-mono">
-                      <span className={item.totalMargin >= 0 ? 'text-success' : 'text-destructive'}>
-                        {formatCurrency(item.totalMargin)}
-                      </span>
-                    </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
               <TableFooter>
                 <TableRow>
-                  <TableCell colSpan={8} className="text-right font-semibold">
+                  <TableCell colSpan={6} className="text-right font-semibold">
                     Totals
                   </TableCell>
-                  <TableCell className="text-right font-bold">{formatCurrency(analysisData.totalRevenue)}</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(analysis.totalRevenue, quote.currency)}</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(analysis.totalCost, quote.currency)}</TableCell>
                   <TableCell className="text-right font-bold">
-                    <span className={analysisData.totalProfit >= 0 ? 'text-success' : 'text-destructive'}>
-                      {formatCurrency(analysisData.totalProfit)}
+                    <span className={analysis.grossProfit >= 0 ? 'text-success' : 'text-destructive'}>
+                      {formatCurrency(analysis.grossProfit, quote.currency)}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right font-bold">
+                    <span className={analysis.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}>
+                      {formatPercentage(analysis.marginPercentage)}
                     </span>
                   </TableCell>
                 </TableRow>
@@ -439,26 +373,30 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
             <h4 className="font-semibold mb-3">Summary</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
               <div className="space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discounts:</span>
+                  <span className="font-mono font-semibold">{formatCurrency(analysis.discountAmount, quote.currency)}</span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Total Revenue:</span>
-                  <span className="font-mono font-semibold">{formatCurrency(analysisData.totalRevenue)}</span>
+                  <span className="font-mono font-semibold">{formatCurrency(analysis.totalRevenue, quote.currency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Total Cost:</span>
-                  <span className="font-mono font-semibold">{formatCurrency(analysisData.totalCost)}</span>
+                  <span className="font-mono font-semibold">{formatCurrency(analysis.totalCost, quote.currency)}</span>
                 </div>
               </div>
               <div className="space-y-2">
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Total Profit:</span>
-                  <span className={`font-mono font-semibold ${analysisData.totalProfit >= 0 ? 'text-success' : 'text-destructive'}`}>
-                    {formatCurrency(analysisData.totalProfit)}
+                  <span className="text-muted-foreground">Gross Profit:</span>
+                  <span className={`font-mono font-semibold ${analysis.grossProfit >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {formatCurrency(analysis.grossProfit, quote.currency)}
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Overall Margin:</span>
-                  <span className={`font-mono font-semibold ${analysisData.overallMarginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
-                    {formatPercentage(analysisData.overallMarginPercentage)}
+                  <span className="text-muted-foreground">Margin:</span>
+                  <span className={`font-mono font-semibold ${analysis.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {formatPercentage(analysis.marginPercentage)}
                   </span>
                 </div>
               </div>
@@ -466,6 +404,16 @@ export default function AnalysisTab({ quote, onQuoteUpdated }: AnalysisTabProps)
           </div>
         </CardContent>
       </Card>
+
+      <PriceSolver quote={quote} standardCosts={standardCosts} analysis={analysis} onApply={setStandardCosts} />
+
+      <QuoteScenarios
+        quote={quote}
+        standardCosts={standardCosts}
+        analysis={analysis}
+        onLoadScenario={setStandardCosts}
+        onScenarioPromoted={(revision) => onQuoteUpdated?.(revision)}
+      />
     </div>
   );
 }
@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { ClipboardCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import type { QuoteHistoryItem } from '../backend';
+import { useDecideQuoteApproval, useGetPendingApprovals, useIsCallerAdmin } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import { formatCurrency, formatDateTime } from '../lib/formatters';
+import { describeMarginBreach } from '../lib/quoteStatus';
+import { formatQuoteReference } from '../lib/quoteVersions';
+
+// Quotes below a margin threshold, for administrators to approve or reject
+export default function ApprovalsQueue() {
+  const [reviewing, setReviewing] = useState<QuoteHistoryItem | null>(null);
+  const [comment, setComment] = useState('');
+
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: pending, isLoading } = useGetPendingApprovals(!!isAdmin);
+  const { mutate: decideApproval, isPending: isDeciding } = useDecideQuoteApproval();
+
+  if (!isAdmin) return null;
+
+  const openReview = (item: QuoteHistoryItem) => {
+    setReviewing(item);
+    setComment('');
+  };
+
+  const handleDecision = (approved: boolean) => {
+    if (!reviewing) return;
+
+    if (!approved && !comment.trim()) {
+      toast.error('Please add a comment explaining the rejection');
+      return;
+    }
+
+    const reference = formatQuoteReference(reviewing);
+    decideApproval(
+      { id: reviewing.id, approved, comment: comment.trim() },
+      {
+        onSuccess: () => {
+          toast.success(`${reference} ${approved ? 'approved' : 'rejected'}`);
+          setReviewing(null);
+        },
+        onError: (error) => {
+          toast.error(describeMutationError(approved ? 'approve quote' : 'reject quote', error));
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Approvals
+          {pending && pending.length > 0 && <Badge variant="secondary">{pending.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Quotes below a margin threshold. Approved quotes become drafts that can be sent; rejected quotes need a
+          revision.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !pending || pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No quotes are waiting for approval.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quote</TableHead>
+                  <TableHead>Generated</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Account Manager</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Below Threshold</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pending.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium font-mono whitespace-nowrap">{formatQuoteReference(item)}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(item.timestamp)}</TableCell>
+                    <TableCell>{item.header.clientName}</TableCell>
+                    <TableCell>{item.header.accountManager}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(item.total, item.currency)}</TableCell>
+                    <TableCell className="text-sm text-warning">
+                      {item.marginBreaches.map((breach, index) => (
+                        <div key={index}>{describeMarginBreach(breach)}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => openReview(item)}>
+                        Review
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review {reviewing && formatQuoteReference(reviewing)}</DialogTitle>
+            <DialogDescription>
+              {reviewing?.header.clientName} – {reviewing?.header.projectName}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="list-disc pl-5 text-sm text-warning">
+            {reviewing?.marginBreaches.map((breach, index) => (
+              <li key={index}>{describeMarginBreach(breach)}</li>
+            ))}
+          </ul>
+          <div>
+            <Label htmlFor="approval-comment">Comment</Label>
+            <Textarea
+              id="approval-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Required when rejecting"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="destructive" onClick={() => handleDecision(false)} disabled={isDeciding}>
+              Reject
+            </Button>
+            <Button onClick={() => handleDecision(true)} disabled={isDeciding}>
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
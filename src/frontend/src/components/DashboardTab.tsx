@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Award, LayoutDashboard, Percent, Target, TrendingUp, Wallet } from 'lucide-react';
+import {
+  useGetAccountManagerLeaderboard,
+  useGetDashboardFilterOptions,
+  useGetDashboardSummary,
+  useGetDashboardTimeline,
+  useGetDashboardTopCategories,
+  useGetDashboardTopItems,
+} from '../hooks/useQueries';
+import { ALL_NAMES, defaultDashboardFilters, type DashboardFilters } from '../lib/dashboard';
+import { BASE_CURRENCY } from '../lib/currency';
+import { formatCompactNumber, formatCurrency, formatMonth, formatNumber, formatPercentage } from '../lib/formatters';
+
+// Entries shown in the top categories and items
+const TOP_ENTRIES = 8;
+
+const timelineConfig = {
+  quotedValue: { label: 'Quoted', color: 'hsl(var(--primary))' },
+  wonValue: { label: 'Won', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const marginConfig = {
+  marginPercentage: { label: 'Margin', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const categoryConfig = {
+  revenue: { label: 'Revenue', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+// Tooltip row with the series label and its formatted value
+const tooltipRow = (config: ChartConfig, format: (value: number) => string) =>
+  function TooltipRow(value: unknown, name: unknown) {
+    return (
+      <div className="flex w-full justify-between gap-4">
+        <span className="text-muted-foreground">{config[String(name)]?.label ?? String(name)}</span>
+        <span className="font-mono font-medium tabular-nums">{format(Number(value))}</span>
+      </div>
+    );
+  };
+
+const formatBaseCurrency = (value: number) => formatCurrency(value, BASE_CURRENCY);
+
+export default function DashboardTab() {
+  const [filters, setFilters] = useState<DashboardFilters>(() => defaultDashboardFilters());
+
+  const { data: filterOptions } = useGetDashboardFilterOptions();
+  const { data: summary, isLoading } = useGetDashboardSummary(filters);
+  const { data: timeline } = useGetDashboardTimeline(filters);
+  const { data: topCategories } = useGetDashboardTopCategories(filters, TOP_ENTRIES);
+  const { data: topItems } = useGetDashboardTopItems(filters, TOP_ENTRIES);
+  const { data: leaderboard } = useGetAccountManagerLeaderboard(filters);
+
+  const updateFilters = (update: Partial<DashboardFilters>) => {
+    const next = { ...filters, ...update };
+    // A cleared or reversed range falls back to the default dates
+    if (!next.fromDate || !next.toDate || next.fromDate > next.toDate) {
+      const { fromDate, toDate } = defaultDashboardFilters();
+      setFilters({ ...next, fromDate, toDate });
+      return;
+    }
+    setFilters(next);
+  };
+
+  const timelineData = (timeline || []).map(({ start, quotedValue, wonValue, marginPercentage }) => ({
+    month: formatMonth(start),
+    quotedValue,
+    wonValue,
+    marginPercentage,
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LayoutDashboard className="h-5 w-5" />
+            Sales Dashboard
+          </CardTitle>
+          <CardDescription>
+            The latest version of each quote you can see, in {BASE_CURRENCY}. Quoted values include tax; revenue and
+            margins exclude it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor="dashboard-from">From</Label>
+              <Input
+                id="dashboard-from"
+                type="date"
+                value={filters.fromDate}
+                onChange={(e) => updateFilters({ fromDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="dashboard-to">To</Label>
+              <Input
+                id="dashboard-to"
+                type="date"
+                value={filters.toDate}
+                onChange={(e) => updateFilters({ toDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="dashboard-client">Client</Label>
+              <Select value={filters.clientName} onValueChange={(clientName) => updateFilters({ clientName })}>
+                <SelectTrigger id="dashboard-client">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_NAMES}>All clients</SelectItem>
+                  {filterOptions?.clientNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="dashboard-manager">Account Manager</Label>
+              <Select value={filters.accountManager} onValueChange={(accountManager) => updateFilters({ accountManager })}>
+                <SelectTrigger id="dashboard-manager">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_NAMES}>All account managers</SelectItem>
+                  {filterOptions?.accountManagers.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => setFilters(defaultDashboardFilters())}>
+              Reset Filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Quoted Value</p>
+                <Wallet className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <p className="text-2xl font-bold mt-2">{formatCurrency(summary.quotedValue, summary.currency)}</p>
+              <p className="text-xs text-muted-foreground mt-1">{formatNumber(Number(summary.quoteCount), 0)} quotes</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Won Value</p>
+                <TrendingUp className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <p className="text-2xl font-bold mt-2 text-success">{formatCurrency(summary.wonValue, summary.currency)}</p>
+              <p className="text-xs text-muted-foreground mt-1">{formatNumber(Number(summary.wonCount), 0)} accepted</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Win Rate</p>
+                <Target className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <p className="text-2xl font-bold mt-2">{formatPercentage(summary.winRate)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatNumber(Number(summary.wonCount), 0)} won, {formatNumber(Number(summary.lostCount), 0)} rejected or expired
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Average Margin</p>
+                <Percent className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <p className={`text-2xl font-bold mt-2 ${summary.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
+                {formatPercentage(summary.marginPercentage)}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatCurrency(summary.grossProfit, summary.currency)} gross profit, weighted by revenue
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Quoted Value by Month</CardTitle>
+            <CardDescription>Grand totals of the quotes generated each month, and of those accepted</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={timelineConfig} className="h-[280px] w-full aspect-auto">
+              <BarChart data={timelineData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={formatCompactNumber} />
+                <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(timelineConfig, formatBaseCurrency)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="quotedValue" fill="var(--color-quotedValue)" radius={4} />
+                <Bar dataKey="wonValue" fill="var(--color-wonValue)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Margin by Month</CardTitle>
+            <CardDescription>Gross margin of the quotes generated each month</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={marginConfig} className="h-[280px] w-full aspect-auto">
+              <LineChart data={timelineData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={50} tickFormatter={(value: number) => formatPercentage(value)} />
+                <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(marginConfig, formatPercentage)} />} />
+                <Line dataKey="marginPercentage" stroke="var(--color-marginPercentage)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Categories</CardTitle>
+            <CardDescription>Categories with the highest revenue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!topCategories || topCategories.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No quotes match the filters.</p>
+            ) : (
+              <ChartContainer config={categoryConfig} className="h-[280px] w-full aspect-auto">
+                <BarChart data={topCategories} layout="vertical" margin={{ left: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatCompactNumber} />
+                  <YAxis type="category" dataKey="category" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(categoryConfig, formatBaseCurrency)} />} />
+                  <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Items</CardTitle>
+            <CardDescription>Rate card items with the highest revenue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!topItems || topItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No quotes match the filters.</p>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Lines</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                      <TableHead className="text-right">Margin</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {topItems.map((item) => (
+                      <TableRow key={`${item.itemRefNo}-${item.detailedDescription}`}>
+                        <TableCell>
+                          <p className="font-medium">{item.itemRefNo || item.category}</p>
+                          <p className="text-xs text-muted-foreground max-w-[220px] truncate">{item.detailedDescription}</p>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatNumber(Number(item.lineCount), 0)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatBaseCurrency(item.revenue)}</TableCell>
+                        <TableCell className={`text-right font-mono ${item.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
+                          {formatPercentage(item.marginPercentage)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Account Manager Leaderboard
+          </CardTitle>
+          <CardDescription>Ranked by the value of accepted quotes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!leaderboard || leaderboard.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No quotes match the filters.</p>
+          ) : (
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[50px]">#</TableHead>
+                    <TableHead>Account Manager</TableHead>
+                    <TableHead className="text-right">Quotes</TableHead>
+                    <TableHead className="text-right">Quoted Value</TableHead>
+                    <TableHead className="text-right">Won Value</TableHead>
+                    <TableHead className="text-right">Win Rate</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.map((entry, index) => (
+                    <TableRow key={entry.accountManager}>
+                      <TableCell className="font-mono text-muted-foreground">{index + 1}</TableCell>
+                      <TableCell className="font-medium">{entry.accountManager}</TableCell>
+                      <TableCell className="text-right font-mono">{formatNumber(Number(entry.quoteCount), 0)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatBaseCurrency(entry.quotedValue)}</TableCell>
+                      <TableCell className="text-right font-mono text-success">{formatBaseCurrency(entry.wonValue)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {entry.wonCount + entry.lostCount > 0n ? formatPercentage(entry.winRate) : '—'}
+                      </TableCell>
+                      <TableCell className={`text-right font-mono ${entry.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatPercentage(entry.marginPercentage)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
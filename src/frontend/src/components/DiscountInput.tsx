@@ -0,0 +1,51 @@
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DiscountType, type Discount } from '../backend';
+import { BASE_CURRENCY, currencyLabel } from '../lib/currency';
+
+interface DiscountInputProps {
+  value: Discount | undefined;
+  onChange: (discount: Discount | undefined) => void;
+  // Fixed discounts are entered in the quote currency
+  currency?: string;
+  id?: string;
+}
+
+export default function DiscountInput({ value, onChange, currency = BASE_CURRENCY, id }: DiscountInputProps) {
+  const discountType = value?.discountType ?? DiscountType.percentage;
+
+  // A zero value keeps the chosen type but applies no discount
+  const handleValueChange = (raw: string) => {
+    const amount = Math.max(parseFloat(raw) || 0, 0);
+    const capped = discountType === DiscountType.percentage ? Math.min(amount, 100) : amount;
+    onChange(capped > 0 || value ? { discountType, value: capped } : undefined);
+  };
+
+  const handleTypeChange = (type: string) => {
+    onChange({ discountType: type as DiscountType, value: value?.value ?? 0 });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        step="any"
+        value={value && value.value > 0 ? value.value : ''}
+        onChange={(e) => handleValueChange(e.target.value)}
+        placeholder="0"
+        className="w-20 text-right"
+      />
+      <Select value={discountType} onValueChange={handleTypeChange}>
+        <SelectTrigger className="w-[76px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DiscountType.percentage}>%</SelectItem>
+          <SelectItem value={DiscountType.fixed}>{currencyLabel(currency)}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
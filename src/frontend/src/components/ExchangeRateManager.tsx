@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetExchangeRates, useSetExchangeRate, useDeleteExchangeRate } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import { BASE_CURRENCY, SUGGESTED_CURRENCIES } from '../lib/currency';
+import { formatDate, formatNumber } from '../lib/formatters';
+
+export default function ExchangeRateManager() {
+  const [currency, setCurrency] = useState('');
+  const [rate, setRate] = useState('');
+
+  const { data: exchangeRates, isLoading } = useGetExchangeRates();
+  const { mutate: setExchangeRate, isPending: isSaving } = useSetExchangeRate();
+  const { mutate: deleteExchangeRate } = useDeleteExchangeRate();
+
+  const handleSave = () => {
+    const code = currency.trim().toUpperCase();
+    const value = parseFloat(rate);
+
+    if (!/^[A-Z]{3}$/.test(code)) {
+      toast.error('Please enter a three-letter currency code, e.g. USD');
+      return;
+    }
+
+    if (code === BASE_CURRENCY) {
+      toast.error(`${BASE_CURRENCY} is the rate card currency and always has a rate of 1`);
+      return;
+    }
+
+    if (isNaN(value) || value <= 0) {
+      toast.error('Please enter an exchange rate greater than 0');
+      return;
+    }
+
+    setExchangeRate(
+      { currency: code, rate: value },
+      {
+        onSuccess: () => {
+          toast.success(`Exchange rate for ${code} saved successfully`);
+          setCurrency('');
+          setRate('');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save exchange rate', error));
+        },
+      }
+    );
+  };
+
+  const handleDelete = (code: string) => {
+    if (!confirm(`Are you sure you want to delete the ${code} exchange rate? New quotes can no longer use ${code}.`)) return;
+
+    deleteExchangeRate(code, {
+      onSuccess: () => {
+        toast.success('Exchange rate deleted successfully');
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('delete exchange rate', error));
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const rates = [...(exchangeRates || [])].sort((a, b) => a.currency.localeCompare(b.currency));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5" />
+          Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Rate card prices are in {BASE_CURRENCY}. Quotes in another currency are converted at these rates; existing quotes
+          keep the rate they were generated with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="exchange-currency">Currency</Label>
+            <Input
+              id="exchange-currency"
+              list="exchange-currency-suggestions"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              placeholder="e.g., USD"
+              maxLength={3}
+            />
+            <datalist id="exchange-currency-suggestions">
+              {SUGGESTED_CURRENCIES.map((code) => (
+                <option key={code} value={code} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <Label htmlFor="exchange-rate">{BASE_CURRENCY} per 1 unit</Label>
+            <Input
+              id="exchange-rate"
+              type="number"
+              min="0"
+              step="any"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="e.g., 129.5"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Exchange Rate'}
+          </Button>
+        </div>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No exchange rates set. Quotes can only be issued in {BASE_CURRENCY}.
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">{BASE_CURRENCY} per 1 unit</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((exchangeRate) => (
+                  <TableRow key={exchangeRate.currency}>
+                    <TableCell className="font-medium">{exchangeRate.currency}</TableCell>
+                    <TableCell className="text-right font-mono">{formatNumber(exchangeRate.rate, 4)}</TableCell>
+                    <TableCell>{formatDate(exchangeRate.updatedAt)}</TableCell>
+                    <TableCell>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Edit rate"
+                          onClick={() => {
+                            setCurrency(exchangeRate.currency);
+                            setRate(exchangeRate.rate.toString());
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title="Delete rate" onClick={() => handleDelete(exchangeRate.currency)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
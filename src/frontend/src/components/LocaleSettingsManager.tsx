@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Globe } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetLocaleSettings, useUpdateLocaleSettings } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import { isValidLocale, isValidTimeZone, SUGGESTED_LOCALES, SUGGESTED_TIME_ZONES } from '../lib/locale';
+
+// Sample shown with the entered settings before they are saved
+function formatExample(locale: string, timeZone: string): string | null {
+  if (!isValidLocale(locale) || !isValidTimeZone(timeZone)) return null;
+  const number = (1234567.891).toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const date = new Date().toLocaleString(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+  return `${number} · ${date}`;
+}
+
+export default function LocaleSettingsManager() {
+  const [locale, setLocale] = useState('');
+  const [timeZone, setTimeZone] = useState('');
+
+  const { data: localeSettings, isLoading } = useGetLocaleSettings();
+  const { mutate: updateLocaleSettings, isPending: isSaving } = useUpdateLocaleSettings();
+
+  useEffect(() => {
+    if (localeSettings) {
+      setLocale(localeSettings.locale);
+      setTimeZone(localeSettings.timeZone);
+    }
+  }, [localeSettings]);
+
+  const handleSave = () => {
+    if (!isValidLocale(locale.trim())) {
+      toast.error('Please enter a supported locale, e.g. en-KE');
+      return;
+    }
+
+    if (!isValidTimeZone(timeZone.trim())) {
+      toast.error('Please enter a valid time zone, e.g. Africa/Nairobi');
+      return;
+    }
+
+    updateLocaleSettings(
+      { locale: locale.trim(), timeZone: timeZone.trim() },
+      {
+        onSuccess: () => {
+          toast.success('Locale settings saved successfully');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save locale settings', error));
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const example = formatExample(locale.trim(), timeZone.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Locale
+        </CardTitle>
+        <CardDescription>
+          Number grouping, decimal separators, date formats and time zone used in the app and in exported quotes for
+          everyone in the organisation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="locale">Locale</Label>
+            <Input
+              id="locale"
+              list="locale-suggestions"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              placeholder="e.g., en-KE"
+            />
+            <datalist id="locale-suggestions">
+              {SUGGESTED_LOCALES.map((code) => (
+                <option key={code} value={code} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <Label htmlFor="time-zone">Time Zone</Label>
+            <Input
+              id="time-zone"
+              list="time-zone-suggestions"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              placeholder="e.g., Africa/Nairobi"
+            />
+            <datalist id="time-zone-suggestions">
+              {SUGGESTED_TIME_ZONES.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Locale'}
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {example ? `Example: ${example}` : 'Enter a supported locale and time zone to see an example.'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
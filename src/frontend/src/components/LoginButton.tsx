@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { LogIn, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useLogout } from '../hooks/useSession';
+
+export default function LoginButton() {
+  const { identity, login, isLoggingIn, isInitializing, isLoginError, loginError } = useInternetIdentity();
+  const logout = useLogout();
+
+  useEffect(() => {
+    if (isLoginError && loginError) {
+      toast.error('Login failed: ' + loginError.message);
+    }
+  }, [isLoginError, loginError]);
+
+  if (identity) {
+    return (
+      <Button variant="outline" size="sm" onClick={logout}>
+        <LogOut className="mr-2 h-4 w-4" />
+        Logout
+      </Button>
+    );
+  }
+
+  return (
+    <Button size="sm" onClick={login} disabled={isLoggingIn || isInitializing}>
+      <LogIn className="mr-2 h-4 w-4" />
+      {isLoggingIn ? 'Logging in...' : 'Login'}
+    </Button>
+  );
+}
@@ -1,17 +1,22 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileSpreadsheet, Calculator, BarChart3, History, FileText, Settings } from 'lucide-react';
+import { FileSpreadsheet, Calculator, BarChart3, History, FileText, LayoutDashboard, Settings } from 'lucide-react';
 import RateCardManager from './RateCardManager';
 import QuoteGenerator from './QuoteGenerator';
 import AnalysisTab from './AnalysisTab';
 import QuoteHistoryTab from './QuoteHistoryTab';
+import ApprovalsQueue from './ApprovalsQueue';
 import ReportsTab from './ReportsTab';
+import DashboardTab from './DashboardTab';
 import SettingsTab from './SettingsTab';
+import type { QuoteDraft } from '../lib/quoteReconciliation';
+import { quoteVersionId } from '../lib/quoteVersions';
 import type { FullQuote } from '../backend';
 
 export default function MainApp() {
   const [activeTab, setActiveTab] = useState('quote');
   const [currentQuote, setCurrentQuote] = useState<FullQuote | null>(null);
+  const [quoteDraft, setQuoteDraft] = useState<QuoteDraft | null>(null);
 
   const handleQuoteGenerated = (quote: FullQuote | null) => {
     setCurrentQuote(quote);
@@ -25,10 +30,15 @@ export default function MainApp() {
     setActiveTab('analysis');
   };
 
+  const handleEditQuote = (draft: QuoteDraft) => {
+    setQuoteDraft(draft);
+    setActiveTab('quote');
+  };
+
   return (
     <div className="max-w-7xl mx-auto">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full max-w-5xl mx-auto grid-cols-6 mb-8">
+        <TabsList className="grid w-full max-w-6xl mx-auto grid-cols-7 mb-8">
           <TabsTrigger value="quote" className="flex items-center gap-2">
             <Calculator className="h-4 w-4" />
             Quote Generator
@@ -45,6 +55,10 @@ export default function MainApp() {
             <FileText className="h-4 w-4" />
             Reports
           </TabsTrigger>
+          <TabsTrigger value="dashboard" className="flex items-center gap-2">
+            <LayoutDashboard className="h-4 w-4" />
+            Dashboard
+          </TabsTrigger>
           <TabsTrigger value="ratecard" className="flex items-center gap-2">
             <FileSpreadsheet className="h-4 w-4" />
             Rate Card
@@ -56,12 +70,16 @@ export default function MainApp() {
         </TabsList>
 
         <TabsContent value="quote" className="mt-0">
-          <QuoteGenerator onQuoteGenerated={handleQuoteGenerated} />
+          <QuoteGenerator
+            onQuoteGenerated={handleQuoteGenerated}
+            draft={quoteDraft}
+            onDraftLoaded={() => setQuoteDraft(null)}
+          />
         </TabsContent>
 
         <TabsContent value="analysis" className="mt-0">
           {currentQuote ? (
-            <AnalysisTab quote={currentQuote} onQuoteUpdated={setCurrentQuote} />
+            <AnalysisTab key={quoteVersionId(currentQuote)} quote={currentQuote} onQuoteUpdated={setCurrentQuote} />
           ) : (
             <div className="text-center py-16 text-muted-foreground">
               Generate a quote first to view analysis
@@ -70,13 +88,20 @@ export default function MainApp() {
         </TabsContent>
 
         <TabsContent value="history" className="mt-0">
-          <QuoteHistoryTab onLoadQuote={handleLoadQuote} />
+          <div className="space-y-6">
+            <ApprovalsQueue />
+            <QuoteHistoryTab onLoadQuote={handleLoadQuote} onEditQuote={handleEditQuote} />
+          </div>
         </TabsContent>
 
         <TabsContent value="reports" className="mt-0">
           <ReportsTab />
         </TabsContent>
 
+        <TabsContent value="dashboard" className="mt-0">
+          <DashboardTab />
+        </TabsContent>
+
         <TabsContent value="ratecard" className="mt-0">
           <RateCardManager />
         </TabsContent>
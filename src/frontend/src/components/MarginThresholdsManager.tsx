@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetMarginThresholds, useGetRateCard, useUpdateMarginThresholds } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+
+interface CategoryThreshold {
+  category: string;
+  threshold: string;
+}
+
+export default function MarginThresholdsManager() {
+  const [overall, setOverall] = useState('');
+  const [categoryThresholds, setCategoryThresholds] = useState<CategoryThreshold[]>([]);
+
+  const { data: marginThresholds, isLoading } = useGetMarginThresholds();
+  const { data: rateCard } = useGetRateCard();
+  const { mutate: updateMarginThresholds, isPending: isSaving } = useUpdateMarginThresholds();
+
+  useEffect(() => {
+    if (marginThresholds) {
+      setOverall(marginThresholds.overall.toString());
+      setCategoryThresholds(
+        marginThresholds.categories.map(([category, threshold]) => ({ category, threshold: threshold.toString() }))
+      );
+    }
+  }, [marginThresholds]);
+
+  const rateCardCategories = useMemo(
+    () => [...new Set((rateCard?.items || []).map((item) => item.category.trim()).filter(Boolean))].sort(),
+    [rateCard]
+  );
+
+  const updateRow = (index: number, update: Partial<CategoryThreshold>) => {
+    setCategoryThresholds(categoryThresholds.map((row, i) => (i === index ? { ...row, ...update } : row)));
+  };
+
+  const handleSave = () => {
+    const overallThreshold = parseFloat(overall);
+    if (isNaN(overallThreshold) || overallThreshold >= 100) {
+      toast.error('Please enter an overall minimum margin below 100%');
+      return;
+    }
+
+    const categories: [string, number][] = [];
+    for (const row of categoryThresholds) {
+      const category = row.category.trim();
+      const threshold = parseFloat(row.threshold);
+
+      if (!category) {
+        toast.error('Please enter a category for every category threshold');
+        return;
+      }
+
+      if (isNaN(threshold) || threshold >= 100) {
+        toast.error(`Please enter a minimum margin below 100% for ${category}`);
+        return;
+      }
+
+      if (categories.some(([existing]) => existing === category)) {
+        toast.error(`${category} has more than one threshold`);
+        return;
+      }
+
+      categories.push([category, threshold]);
+    }
+
+    updateMarginThresholds(
+      { overall: overallThreshold, categories },
+      {
+        onSuccess: () => {
+          toast.success('Margin thresholds saved successfully');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save margin thresholds', error));
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Margin Thresholds
+        </CardTitle>
+        <CardDescription>
+          Minimum gross margin for new quotes, overall and per category. Quotes below a threshold wait for an
+          administrator's approval and export as drafts until approved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="overall-margin-threshold">Overall Minimum Margin (%)</Label>
+            <Input
+              id="overall-margin-threshold"
+              type="number"
+              max="99"
+              step="0.1"
+              value={overall}
+              onChange={(e) => setOverall(e.target.value)}
+              placeholder="e.g., 20"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Category Minimum Margins (%)</Label>
+          {categoryThresholds.map((row, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+              <Input
+                list="margin-threshold-categories"
+                value={row.category}
+                onChange={(e) => updateRow(index, { category: e.target.value })}
+                placeholder="Category"
+              />
+              <Input
+                type="number"
+                max="99"
+                step="0.1"
+                value={row.threshold}
+                onChange={(e) => updateRow(index, { threshold: e.target.value })}
+                placeholder="e.g., 25"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove threshold"
+                onClick={() => setCategoryThresholds(categoryThresholds.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <datalist id="margin-threshold-categories">
+            {rateCardCategories.map((category) => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCategoryThresholds([...categoryThresholds, { category: '', threshold: '' }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Category Threshold
+          </Button>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Margin Thresholds'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Palette, Plus, Pencil, Trash2, ImageIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetPdfTemplates, useSavePdfTemplate, useDeletePdfTemplate } from '../hooks/useQueries';
+import { DEFAULT_PDF_BRANDING, PDF_FONT_FAMILIES } from '../lib/pdfExporter';
+import { ExternalBlob, type PdfTemplate } from '../backend';
+import { describeMutationError } from '../lib/authorization';
+
+const toHex = ([r, g, b]: number[]) => `#${[r, g, b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+
+const emptyTemplate = (): PdfTemplate => ({
+  id: '',
+  name: '',
+  logo: undefined,
+  primaryColor: toHex(DEFAULT_PDF_BRANDING.primaryColor),
+  accentColor: toHex(DEFAULT_PDF_BRANDING.accentColor),
+  textColor: toHex(DEFAULT_PDF_BRANDING.textColor),
+  fontFamily: DEFAULT_PDF_BRANDING.fontFamily,
+  quoteTitle: DEFAULT_PDF_BRANDING.quoteTitle,
+  analysisTitle: DEFAULT_PDF_BRANDING.analysisTitle,
+  footerText: DEFAULT_PDF_BRANDING.footerText,
+  companyName: '',
+  addressBlock: '',
+  isDefault: false,
+});
+
+export default function PdfTemplateManager() {
+  const [editing, setEditing] = useState<PdfTemplate | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
+
+  const { data: templates, isLoading } = useGetPdfTemplates();
+  const { mutate: savePdfTemplate, isPending: isSaving } = useSavePdfTemplate();
+  const { mutate: deletePdfTemplate } = useDeletePdfTemplate();
+
+  const updateField = <K extends keyof PdfTemplate>(field: K, value: PdfTemplate[K]) => {
+    setEditing((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleStartEdit = (template: PdfTemplate | null) => {
+    setEditing(template ? { ...template } : emptyTemplate());
+    setLogoPreview(template?.logo ? template.logo.getDirectURL() : null);
+  };
+
+  const handleLogoChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Please upload a PNG or JPEG logo');
+      return;
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const logo = ExternalBlob.fromBytes(bytes);
+    updateField('logo', logo);
+    setLogoPreview(logo.getDirectURL());
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+
+    if (!editing.name.trim()) {
+      toast.error('Please enter a template name');
+      return;
+    }
+
+    const template: PdfTemplate = {
+      ...editing,
+      id: editing.id || `tpl_${Date.now()}`,
+      name: editing.name.trim(),
+    };
+
+    savePdfTemplate(template, {
+      onSuccess: () => {
+        toast.success('PDF template saved successfully');
+        setEditing(null);
+        setLogoPreview(null);
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('save PDF template', error));
+      },
+    });
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (!confirm(`Are you sure you want to delete the "${name}" template?`)) return;
+
+    deletePdfTemplate(id, {
+      onSuccess: () => {
+        toast.success('PDF template deleted successfully');
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('delete PDF template', error));
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const templateList = templates || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          PDF Templates
+        </CardTitle>
+        <CardDescription>
+          Brand exported quotes and analysis reports with your logo, colours, fonts and company details
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!editing && (
+          <Button variant="outline" onClick={() => handleStartEdit(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Template
+          </Button>
+        )}
+
+        {/* Template Form */}
+        {editing && (
+          <div className="rounded-lg border bg-muted/30 p-4 space-y-4">
+            <h3 className="font-semibold text-sm">{editing.id ? 'Edit Template' : 'New Template'}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template-name">Template Name *</Label>
+                <Input
+                  id="template-name"
+                  value={editing.name}
+                  onChange={(e) => updateField('name', e.target.value)}
+                  placeholder="e.g., Corporate Blue"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-company">Company Name</Label>
+                <Input
+                  id="template-company"
+                  value={editing.companyName}
+                  onChange={(e) => updateField('companyName', e.target.value)}
+                  placeholder="Enter company name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-quote-title">Quote Title</Label>
+                <Input
+                  id="template-quote-title"
+                  value={editing.quoteTitle}
+                  onChange={(e) => updateField('quoteTitle', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-analysis-title">Analysis Report Title</Label>
+                <Input
+                  id="template-analysis-title"
+                  value={editing.analysisTitle}
+                  onChange={(e) => updateField('analysisTitle', e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-address">Address Block</Label>
+                <Textarea
+                  id="template-address"
+                  rows={3}
+                  value={editing.addressBlock}
+                  onChange={(e) => updateField('addressBlock', e.target.value)}
+                  placeholder={'P.O. Box 12345\nNairobi, Kenya'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-footer">Footer Text</Label>
+                <Textarea
+                  id="template-footer"
+                  rows={3}
+                  value={editing.footerText}
+                  onChange={(e) => updateField('footerText', e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="template-primary">Primary</Label>
+                  <Input
+                    id="template-primary"
+                    type="color"
+                    value={editing.primaryColor}
+                    onChange={(e) => updateField('primaryColor', e.target.value)}
+                    className="h-10 p-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-accent">Accent</Label>
+                  <Input
+                    id="template-accent"
+                    type="color"
+                    value={editing.accentColor}
+                    onChange={(e) => updateField('accentColor', e.target.value)}
+                    className="h-10 p-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="template-text">Text</Label>
+                  <Input
+                    id="template-text"
+                    type="color"
+                    value={editing.textColor}
+                    onChange={(e) => updateField('textColor', e.target.value)}
+                    className="h-10 p-1"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Font</Label>
+                <Select value={editing.fontFamily} onValueChange={(value) => updateField('fontFamily', value)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PDF_FONT_FAMILIES.map((font) => (
+                      <SelectItem key={font} value={font} className="capitalize">
+                        {font}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="template-logo">Logo (PNG or JPEG)</Label>
+                <div className="flex items-center gap-3">
+                  <Input id="template-logo" type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} />
+                  {logoPreview ? (
+                    <img src={logoPreview} alt="Logo preview" className="h-10 max-w-[120px] object-contain" />
+                  ) : (
+                    <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 pt-6">
+                <Switch
+                  id="template-default"
+                  checked={editing.isDefault}
+                  onCheckedChange={(checked) => updateField('isDefault', checked)}
+                />
+                <Label htmlFor="template-default">Use as default template</Label>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Template List */}
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">Templates ({templateList.length})</h3>
+          {templateList.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No templates yet. Exports use the built-in QuoteGen layout until a template is added.
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Company</TableHead>
+                    <TableHead>Colours</TableHead>
+                    <TableHead>Font</TableHead>
+                    <TableHead className="w-[120px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templateList.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {template.name}
+                          {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{template.companyName || '—'}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {[template.primaryColor, template.accentColor, template.textColor].map((color, index) => (
+                            <span
+                              key={index}
+                              className="h-4 w-4 rounded border"
+                              style={{ backgroundColor: color }}
+                            />
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="capitalize">{template.fontFamily}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => handleStartEdit(template)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(template.id, template.name)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
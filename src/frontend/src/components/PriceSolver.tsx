@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, Target } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AnalysisSummary, FullQuote, PricingSolution, PricingTarget } from '../backend';
+import { useSolveQuotePricing } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import { formatCurrency, formatPercentage } from '../lib/formatters';
+import { quoteVersionId } from '../lib/quoteVersions';
+
+type TargetKind = PricingTarget['__kind__'];
+
+interface PriceSolverProps {
+  quote: FullQuote;
+  // Standard cost of each quote line as currently edited, and their analysis
+  standardCosts: number[];
+  analysis: AnalysisSummary;
+  onApply: (standardCosts: number[]) => void;
+}
+
+export default function PriceSolver({ quote, standardCosts, analysis, onApply }: PriceSolverProps) {
+  const [targetKind, setTargetKind] = useState<TargetKind>('marginPercentage');
+  const [targetValue, setTargetValue] = useState('');
+  const [minimumMargin, setMinimumMargin] = useState('0');
+  const [categories, setCategories] = useState<string[]>(analysis.categories.map((category) => category.category));
+  const [solution, setSolution] = useState<PricingSolution | null>(null);
+
+  const { mutate: solvePricing, isPending: isSolving } = useSolveQuotePricing();
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setCategories(checked ? [...categories, category] : categories.filter((c) => c !== category));
+  };
+
+  const handleSolve = () => {
+    const value = parseFloat(targetValue);
+    const minimumMarginPercentage = parseFloat(minimumMargin) || 0;
+
+    if (isNaN(value) || (targetKind === 'grandTotal' ? value <= 0 : value >= 100)) {
+      toast.error(targetKind === 'grandTotal' ? 'Please enter a target total greater than 0' : 'Please enter a target margin below 100%');
+      return;
+    }
+
+    if (minimumMarginPercentage < 0 || minimumMarginPercentage >= 100) {
+      toast.error('Please enter a minimum margin of at least 0% and below 100%');
+      return;
+    }
+
+    if (categories.length === 0) {
+      toast.error('Please select at least one category to adjust');
+      return;
+    }
+
+    const target: PricingTarget =
+      targetKind === 'grandTotal' ? { __kind__: 'grandTotal', grandTotal: value } : { __kind__: 'marginPercentage', marginPercentage: value };
+
+    solvePricing(
+      {
+        quoteId: quoteVersionId(quote),
+        standardCosts: quote.items.map((item, index) => [item.id, standardCosts[index]]),
+        // Every category selected adjusts every line, including lines added to categories not listed here
+        request: {
+          target,
+          categories: categories.length === analysis.categories.length ? [] : categories,
+          minimumMarginPercentage,
+        },
+      },
+      {
+        onSuccess: setSolution,
+        onError: (error) => {
+          toast.error(describeMutationError('propose prices', error));
+        },
+      }
+    );
+  };
+
+  const handleApply = () => {
+    if (!solution) return;
+    onApply(solution.standardCosts.map(([, standardCost]) => standardCost));
+    setSolution(null);
+    toast.success('Proposed standard costs applied; save them as a scenario to keep them');
+  };
+
+  const changedLines = solution
+    ? quote.items
+        .map((item, index) => ({ item, current: standardCosts[index], proposed: solution.standardCosts[index][1] }))
+        .filter(({ current, proposed }) => Math.abs(proposed - current) >= 0.005)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Price Solver
+        </CardTitle>
+        <CardDescription>
+          Propose standard costs that reach a target margin or grand total. The selected categories are adjusted
+          proportionally and no line's revenue after discounts goes below its ops brisk cost at the minimum margin.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label htmlFor="solver-target-kind">Target</Label>
+            <Select value={targetKind} onValueChange={(value) => setTargetKind(value as TargetKind)}>
+              <SelectTrigger id="solver-target-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="marginPercentage">Overall margin %</SelectItem>
+                <SelectItem value="grandTotal">Grand total ({quote.currency})</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="solver-target-value">{targetKind === 'grandTotal' ? `Grand Total (${quote.currency})` : 'Margin %'}</Label>
+            <Input
+              id="solver-target-value"
+              type="number"
+              step="any"
+              value={targetValue}
+              onChange={(e) => setTargetValue(e.target.value)}
+              placeholder={targetKind === 'grandTotal' ? 'e.g., 1500000' : 'e.g., 35'}
+            />
+          </div>
+          <div>
+            <Label htmlFor="solver-minimum-margin">Minimum Line Margin %</Label>
+            <Input
+              id="solver-minimum-margin"
+              type="number"
+              min="0"
+              max="99"
+              step="any"
+              value={minimumMargin}
+              onChange={(e) => setMinimumMargin(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleSolve} disabled={isSolving}>
+            {isSolving ? 'Solving...' : 'Propose Prices'}
+          </Button>
+        </div>
+
+        <div>
+          <Label>Categories to Adjust</Label>
+          <div className="flex flex-wrap gap-4 mt-2">
+            {analysis.categories.map(({ category }) => (
+              <label key={category} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={categories.includes(category)} onCheckedChange={(checked) => toggleCategory(category, checked === true)} />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {solution && (
+          <div className="space-y-4 rounded-lg border bg-muted/50 p-4">
+            {!solution.reachable && (
+              <div className="flex items-center gap-2 text-sm text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                The selected lines exceed the target even at their floors, so they are proposed at their floors.
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Total Revenue</p>
+                <p className="font-mono font-semibold">{formatCurrency(solution.analysis.totalRevenue, quote.currency)}</p>
+                <p className="text-xs text-muted-foreground">Now {formatCurrency(analysis.totalRevenue, quote.currency)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Gross Profit</p>
+                <p className="font-mono font-semibold">{formatCurrency(solution.analysis.grossProfit, quote.currency)}</p>
+                <p className="text-xs text-muted-foreground">Now {formatCurrency(analysis.grossProfit, quote.currency)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Margin</p>
+                <p className="font-mono font-semibold">{formatPercentage(solution.analysis.marginPercentage)}</p>
+                <p className="text-xs text-muted-foreground">Now {formatPercentage(analysis.marginPercentage)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Grand Total</p>
+                <p className="font-mono font-semibold">{formatCurrency(solution.grandTotal, quote.currency)}</p>
+                <p className="text-xs text-muted-foreground">Including {quote.taxLabel}</p>
+              </div>
+            </div>
+
+            {changedLines.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">The current standard costs already meet the target.</p>
+            ) : (
+              <div className="rounded-md border bg-background overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item Ref No</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Current Standard Cost</TableHead>
+                      <TableHead className="text-right">Proposed</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changedLines.map(({ item, current, proposed }, index) => (
+                      <TableRow key={`${item.id}-${index}`}>
+                        <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+                        <TableCell className="max-w-[200px] truncate">{item.detailedDescription}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(current, quote.currency)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(proposed, quote.currency)}</TableCell>
+                        <TableCell className={`text-right font-mono ${proposed >= current ? 'text-success' : 'text-destructive'}`}>
+                          {current > 0 ? formatPercentage(((proposed - current) / current) * 100) : '—'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleApply} disabled={changedLines.length === 0}>
+                Apply to Standard Costs
+              </Button>
+              <Button variant="outline" onClick={() => setSolution(null)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
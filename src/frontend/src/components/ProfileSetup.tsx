@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { useSaveCallerUserProfile } from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { describeMutationError } from '../lib/authorization';
+
+interface ProfileSetupProps {
+  open: boolean;
+}
+
+export default function ProfileSetup({ open }: ProfileSetupProps) {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+
+  const { identity } = useInternetIdentity();
+  const { mutate: saveProfile, isPending: isSaving } = useSaveCallerUserProfile();
+
+  const handleSave = () => {
+    if (!identity) return;
+    if (!name.trim()) {
+      toast.error('Please enter your name');
+      return;
+    }
+
+    saveProfile(
+      {
+        id: identity.getPrincipal().toString(),
+        name: name.trim(),
+        email: email.trim(),
+        phone: phone.trim(),
+        // Assigned by an admin; the backend keeps the stored link
+        accountManagerId: '',
+      },
+      {
+        onSuccess: () => {
+          toast.success('Profile saved successfully');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save profile', error));
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open}>
+      <DialogContent
+        className="sm:max-w-md"
+        showCloseButton={false}
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>Welcome to QuoteGen</DialogTitle>
+          <DialogDescription>
+            Set up your profile before creating quotes. An admin links you to your account manager.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="profile-name">Name</Label>
+            <Input id="profile-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Your full name" />
+          </div>
+          <div>
+            <Label htmlFor="profile-email">Email</Label>
+            <Input
+              id="profile-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+            />
+          </div>
+          <div>
+            <Label htmlFor="profile-phone">Phone</Label>
+            <Input id="profile-phone" value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+254 700 000 000" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Profile'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
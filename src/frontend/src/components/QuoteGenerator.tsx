@@ -1,49 +1,135 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Calculator, Plus, Trash2, FileText, Search, RotateCcw, BarChart3, TrendingUp, DollarSign } from 'lucide-react';
+import { Calculator, Plus, Trash2, FileText, Search, RotateCcw, BarChart3, TrendingUp, DollarSign, AlertTriangle, FilePen, Lock } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { useGetRateCard, useGenerateFullQuote, useGetAccountManagers, useGenerateAnalysis } from '../hooks/useQueries';
+import {
+  useGetRateCard,
+  useGenerateFullQuote,
+  useGetAccountManagers,
+  useGenerateAnalysis,
+  useGetTaxSettings,
+  useGetCallerUserRole,
+  useGetExchangeRates,
+} from '../hooks/useQueries';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
 import QuoteSummary from './QuoteSummary';
+import DiscountInput from './DiscountInput';
 import { formatCurrency, formatNumber, formatPercentage } from '../lib/formatters';
-import type { FullQuote, QuoteHeader, RateCardItem, AnalysisSummary } from '../backend';
+import { BASE_CURRENCY, findExchangeRate, fromBaseCurrency } from '../lib/currency';
+import { calculateDiscountAmount, calculateQuoteTotals, normalizeDiscount } from '../lib/quoteTotals';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, isAwaitingApproval } from '../lib/quoteStatus';
+import { reconcileQuoteItems, type QuoteDraft, type ReconciliationIssue } from '../lib/quoteReconciliation';
+import { UserRole, type FullQuote, type QuoteHeader, type RateCardItem, type AnalysisSummary, type Discount } from '../backend';
+import { describeMutationError } from '../lib/authorization';
 
 interface SelectedItem {
   id: string;
   quantity: number;
   duration: number;
+  discount?: Discount;
 }
 
 interface QuoteGeneratorProps {
   onQuoteGenerated?: (quote: FullQuote | null) => void;
+  draft?: QuoteDraft | null;
+  onDraftLoaded?: () => void;
 }
 
-export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps) {
+interface RevisionTarget {
+  quoteNumber: string;
+  nextVersion: bigint;
+}
+
+const NANOSECONDS_PER_DAY = 86_400_000_000_000n;
+
+export default function QuoteGenerator({ onQuoteGenerated, draft, onDraftLoaded }: QuoteGeneratorProps) {
   const [selectedItems, setSelectedItems] = useState<SelectedItem[]>([]);
   const [generatedQuote, setGeneratedQuote] = useState<FullQuote | null>(null);
   const [filterCategory, setFilterCategory] = useState<string>('all');
   const [filterSubcategory, setFilterSubcategory] = useState<string>('all');
   const [filterDescription, setFilterDescription] = useState<string>('');
   const [analysisData, setAnalysisData] = useState<AnalysisSummary | null>(null);
+  const [quoteDiscount, setQuoteDiscount] = useState<Discount | undefined>(undefined);
+  const [revisionTarget, setRevisionTarget] = useState<RevisionTarget | null>(null);
+  const [reconciliationIssues, setReconciliationIssues] = useState<ReconciliationIssue[]>([]);
 
   // Header fields
   const [clientName, setClientName] = useState('');
   const [projectDuration, setProjectDuration] = useState('');
   const [accountManager, setAccountManager] = useState('');
   const [projectName, setProjectName] = useState('');
+  const [validityDays, setValidityDays] = useState(DEFAULT_QUOTE_VALIDITY_DAYS);
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
 
   const { data: rateCard, isLoading: isLoadingRateCard } = useGetRateCard();
   const { data: accountManagerList } = useGetAccountManagers();
+  const { data: taxSettings } = useGetTaxSettings();
+  const { data: exchangeRates } = useGetExchangeRates();
   const { mutate: generateFullQuote, isPending: isGenerating } = useGenerateFullQuote();
   const { mutate: generateAnalysis, isPending: isAnalyzing } = useGenerateAnalysis();
+  const { data: userRole } = useGetCallerUserRole();
+  const isGuest = userRole === UserRole.guest;
 
   const accountManagers = accountManagerList?.managers || [];
 
+  // Rate card prices are converted for the preview the same way the canister converts them
+  const exchangeRate = findExchangeRate(exchangeRates, currency);
+  const currencies = [BASE_CURRENCY, ...(exchangeRates ?? []).map((rate) => rate.currency).sort()];
+
+  // Load a saved quote for duplication or revision once the rate card is available
+  useEffect(() => {
+    if (!draft || !rateCard || !exchangeRates) return;
+
+    const { source, mode } = draft;
+    const issues = reconcileQuoteItems(source.items, rateCard.items, source.exchangeRate);
+    const missingIds = new Set(issues.filter((issue) => issue.kind === 'missing').map((issue) => issue.itemId));
+
+    setGeneratedQuote(null);
+    setClientName(source.header.clientName);
+    setProjectName(source.header.projectName);
+    setAccountManager(source.header.accountManager);
+    setProjectDuration(source.header.projectDuration);
+    setValidityDays(
+      Math.max(1, Number((source.validUntil - source.timestamp) / NANOSECONDS_PER_DAY)) || DEFAULT_QUOTE_VALIDITY_DAYS
+    );
+    setSelectedItems(
+      source.items
+        .filter((item) => !missingIds.has(item.id))
+        .map((item) => ({
+          id: item.id,
+          quantity: Number(item.quantity),
+          duration: Number(item.duration),
+          discount: item.discount,
+        }))
+    );
+    setQuoteDiscount(source.quoteDiscount);
+    // Fixed discounts are in the quote currency, so keep it unless it can no longer be quoted in
+    if (findExchangeRate(exchangeRates, source.currency) === undefined) {
+      setCurrency(BASE_CURRENCY);
+      toast.warning(`No exchange rate is set for ${source.currency}; the quote was switched to ${BASE_CURRENCY}. Check any fixed discounts.`);
+    } else {
+      setCurrency(source.currency);
+    }
+    setAnalysisData(null);
+    setReconciliationIssues(issues);
+    setRevisionTarget(mode === 'revision' ? { quoteNumber: source.quoteNumber, nextVersion: source.version + 1n } : null);
+
+    toast.success(
+      mode === 'revision'
+        ? `Editing ${source.quoteNumber} as a new revision`
+        : `Duplicated ${source.quoteNumber} into a new quote`
+    );
+    onDraftLoaded?.();
+  }, [draft, rateCard, exchangeRates, onDraftLoaded]);
+
   // Get unique categories
   const categories = useMemo(() => {
     if (!rateCard) return [];
@@ -80,7 +166,8 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
 
   // Calculate live totals for preview table
   const liveQuoteData = useMemo(() => {
-    if (!rateCard) return { items: [], total: 0 };
+    const taxRate = taxSettings?.rate ?? 0;
+    if (!rateCard) return { items: [], totals: calculateQuoteTotals([], null, taxRate) };
 
     const items = selectedItems
       .filter((item) => item.id)
@@ -88,20 +175,35 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
         const rateItem = rateCard.items.find((r) => r.id === item.id);
         if (!rateItem) return null;
 
-        const total = rateItem.standardCost * item.quantity * item.duration;
+        const standardCost = fromBaseCurrency(rateItem.standardCost, exchangeRate ?? 1);
+        const grossTotal = standardCost * item.quantity * item.duration;
+        const discountAmount = calculateDiscountAmount(item.discount, grossTotal);
         return {
           ...rateItem,
+          standardCost,
           quantity: item.quantity,
           duration: item.duration,
-          total,
+          discount: item.discount,
+          discountAmount,
+          total: grossTotal - discountAmount,
         };
       })
-      .filter(Boolean) as (RateCardItem & { quantity: number; duration: number; total: number })[];
-
-    const total = items.reduce((sum, item) => sum + item.total, 0);
+      .filter(Boolean) as (RateCardItem & {
+      quantity: number;
+      duration: number;
+      discount?: Discount;
+      discountAmount: number;
+      total: number;
+    })[];
+
+    const totals = calculateQuoteTotals(
+      items.map((item) => item.total),
+      quoteDiscount,
+      taxRate
+    );
 
-    return { items, total };
-  }, [selectedItems, rateCard]);
+    return { items, totals };
+  }, [selectedItems, rateCard, quoteDiscount, taxSettings, exchangeRate]);
 
   const handleAddItem = () => {
     if (filterCategory === 'all') {
@@ -149,12 +251,29 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
     setAnalysisData(null); // Clear analysis when items change
   };
 
+  const handleDiscountChange = (index: number, discount: Discount | undefined) => {
+    const newItems = [...selectedItems];
+    newItems[index].discount = discount;
+    setSelectedItems(newItems);
+    setAnalysisData(null); // Clear analysis when items change
+  };
+
+  const handleQuoteDiscountChange = (discount: Discount | undefined) => {
+    setQuoteDiscount(discount);
+    setAnalysisData(null); // The analysis includes the quote discount
+  };
+
   const handleReset = () => {
     setSelectedItems([]);
+    setQuoteDiscount(undefined);
+    setRevisionTarget(null);
+    setReconciliationIssues([]);
     setClientName('');
     setProjectDuration('');
     setAccountManager('');
     setProjectName('');
+    setValidityDays(DEFAULT_QUOTE_VALIDITY_DAYS);
+    setCurrency(BASE_CURRENCY);
     setFilterCategory('all');
     setFilterSubcategory('all');
     setFilterDescription('');
@@ -170,19 +289,25 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
       return;
     }
 
-    const quoteItems: [string, bigint, bigint][] = validItems.map((item) => [
+    if (exchangeRate === undefined) {
+      toast.error(`No exchange rate is set for ${currency}; please choose another currency`);
+      return;
+    }
+
+    const quoteItems: [string, bigint, bigint, Discount | null][] = validItems.map((item) => [
       item.id,
       BigInt(item.quantity),
       BigInt(item.duration),
+      normalizeDiscount(item.discount),
     ]);
 
-    generateAnalysis(quoteItems, {
+    generateAnalysis({ selectedItems: quoteItems, quoteDiscount: normalizeDiscount(quoteDiscount), currency }, {
       onSuccess: (analysis) => {
         setAnalysisData(analysis);
         toast.success('Analysis generated successfully!');
       },
       onError: (error) => {
-        toast.error('Failed to generate analysis: ' + error.message);
+        toast.error(describeMutationError('generate analysis', error));
       },
     });
   };
@@ -200,6 +325,11 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
       return;
     }
 
+    if (exchangeRate === undefined) {
+      toast.error(`No exchange rate is set for ${currency}; please choose another currency`);
+      return;
+    }
+
     const header: QuoteHeader = {
       clientName: clientName.trim(),
       projectDuration: projectDuration.trim(),
@@ -207,24 +337,36 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
       projectName: projectName.trim(),
     };
 
-    const quoteItems: [string, bigint, bigint][] = validItems.map((item) => [
+    const quoteItems: [string, bigint, bigint, Discount | null][] = validItems.map((item) => [
       item.id,
       BigInt(item.quantity),
       BigInt(item.duration),
+      normalizeDiscount(item.discount),
     ]);
 
     generateFullQuote(
-      { header, selectedItems: quoteItems },
+      {
+        header,
+        selectedItems: quoteItems,
+        quoteDiscount: normalizeDiscount(quoteDiscount),
+        validityDays: BigInt(validityDays),
+        revisionOf: revisionTarget?.quoteNumber,
+        currency,
+      },
       {
         onSuccess: (quote) => {
           setGeneratedQuote(quote);
           if (onQuoteGenerated) {
             onQuoteGenerated(quote);
           }
-          toast.success('Quote generated successfully!');
+          if (isAwaitingApproval(quote)) {
+            toast.warning('Quote generated below the margin thresholds; it needs an administrator\'s approval before it can be sent');
+          } else {
+            toast.success('Quote generated successfully!');
+          }
         },
         onError: (error) => {
-          toast.error('Failed to generate quote: ' + error.message);
+          toast.error(describeMutationError('generate quote', error));
         },
       }
     );
@@ -233,10 +375,15 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
   const handleNewQuote = () => {
     setGeneratedQuote(null);
     setSelectedItems([]);
+    setQuoteDiscount(undefined);
+    setRevisionTarget(null);
+    setReconciliationIssues([]);
     setClientName('');
     setProjectDuration('');
     setAccountManager('');
     setProjectName('');
+    setValidityDays(DEFAULT_QUOTE_VALIDITY_DAYS);
+    setCurrency(BASE_CURRENCY);
     setFilterCategory('all');
     setFilterSubcategory('all');
     setFilterDescription('');
@@ -292,6 +439,55 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {isGuest && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertTitle>Sign in to generate quotes</AlertTitle>
+              <AlertDescription>
+                Guests can browse the rate card and saved quotes, but analysing and generating quotes requires a signed-in user.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Revision Banner */}
+          {revisionTarget && (
+            <Alert>
+              <FilePen className="h-4 w-4" />
+              <AlertTitle>
+                Revising {revisionTarget.quoteNumber} – will be saved as v{revisionTarget.nextVersion.toString()}
+              </AlertTitle>
+              <AlertDescription className="flex items-center justify-between gap-4">
+                <span>Earlier versions stay unchanged and remain available in Quotes History.</span>
+                <Button variant="outline" size="sm" onClick={() => setRevisionTarget(null)}>
+                  Save as new quote instead
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Reconciliation Warnings */}
+          {reconciliationIssues.length > 0 && (
+            <Alert className="border-warning/50">
+              <AlertTriangle className="h-4 w-4 text-warning" />
+              <AlertTitle>Some items need reconciliation with the current rate card</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 space-y-1">
+                  {reconciliationIssues.map((issue) => (
+                    <li key={issue.itemId}>
+                      <span className="font-medium">{issue.itemRefNo}</span>{' '}
+                      {issue.kind === 'missing'
+                        ? `is no longer in the rate card and was left out (quoted at ${formatCurrency(issue.quotedCost)})`
+                        : `changed price from ${formatCurrency(issue.quotedCost)} to ${formatCurrency(issue.currentCost ?? 0)}; the current price will be used`}
+                    </li>
+                  ))}
+                </ul>
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => setReconciliationIssues([])}>
+                  Dismiss
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Header Section */}
           <div className="rounded-lg border bg-muted/30 p-4 space-y-4">
             <h3 className="font-semibold text-sm">Project Information</h3>
@@ -353,6 +549,36 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                   placeholder="e.g., 6 months, Q1 2025"
                 />
               </div>
+              <div>
+                <Label htmlFor="validityDays">Quote Valid For (days)</Label>
+                <Input
+                  id="validityDays"
+                  type="number"
+                  min="1"
+                  value={validityDays}
+                  onChange={(e) => setValidityDays(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="currency">Currency</Label>
+                <Select value={currency} onValueChange={setCurrency}>
+                  <SelectTrigger id="currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencies.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {currency !== BASE_CURRENCY && exchangeRate !== undefined && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    1 {currency} = {formatCurrency(exchangeRate)}; rate card prices are converted at this rate
+                  </p>
+                )}
+              </div>
             </div>
           </div>
 
@@ -486,6 +712,7 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                       <TableHead className="text-right">Qty</TableHead>
                       <TableHead className="text-right">Duration</TableHead>
                       <TableHead className="text-right">Cost</TableHead>
+                      <TableHead>Discount</TableHead>
                       <TableHead className="text-right">Total</TableHead>
                       <TableHead className="w-[80px]">Actions</TableHead>
                     </TableRow>
@@ -493,7 +720,16 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                   <TableBody>
                     {liveQuoteData.items.map((item, index) => (
                       <TableRow key={index}>
-                        <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+                        <TableCell className="font-medium">
+                          {item.itemRefNo}
+                          {reconciliationIssues.some(
+                            (issue) => issue.itemId === item.id && issue.kind === 'priceChanged'
+                          ) && (
+                            <Badge variant="outline" className="ml-2 border-warning/50 text-warning">
+                              Price changed
+                            </Badge>
+                          )}
+                        </TableCell>
                         <TableCell>{item.category}</TableCell>
                         <TableCell>{item.subcategory}</TableCell>
                         <TableCell className="max-w-[200px] truncate">{item.detailedDescription}</TableCell>
@@ -515,8 +751,20 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                             className="w-20 text-right"
                           />
                         </TableCell>
-                        <TableCell className="text-right font-mono">{formatCurrency(item.standardCost)}</TableCell>
-                        <TableCell className="text-right font-mono">{formatCurrency(item.total)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.standardCost, currency)}</TableCell>
+                        <TableCell>
+                          <DiscountInput
+                            currency={currency}
+                            value={item.discount}
+                            onChange={(discount) => handleDiscountChange(index, discount)}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatCurrency(item.total, currency)}
+                          {item.discountAmount > 0 && (
+                            <p className="text-xs text-muted-foreground">-{formatCurrency(item.discountAmount, currency)}</p>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Button variant="ghost" size="icon" onClick={() => handleRemoveItem(index)}>
                             <Trash2 className="h-4 w-4 text-destructive" />
@@ -526,11 +774,46 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                     ))}
                   </TableBody>
                   <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-right font-semibold">
+                        Subtotal
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(liveQuoteData.totals.subtotal, currency)}</TableCell>
+                      <TableCell />
+                    </TableRow>
                     <TableRow>
                       <TableCell colSpan={7} className="text-right font-semibold">
-                        Total
+                        Quote Discount
+                      </TableCell>
+                      <TableCell>
+                        <DiscountInput currency={currency} value={quoteDiscount} onChange={handleQuoteDiscountChange} />
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        -{formatCurrency(liveQuoteData.totals.discountAmount, currency)}
+                      </TableCell>
+                      <TableCell />
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-right font-semibold">
+                        Taxable Amount
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatCurrency(liveQuoteData.totals.taxableAmount, currency)}
                       </TableCell>
-                      <TableCell className="text-right font-bold">{formatCurrency(liveQuoteData.total)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-right font-semibold">
+                        {taxSettings?.name ?? 'Tax'} ({formatNumber(taxSettings?.rate ?? 0)}%)
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(liveQuoteData.totals.taxAmount, currency)}</TableCell>
+                      <TableCell />
+                    </TableRow>
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-right font-semibold">
+                        Grand Total
+                      </TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(liveQuoteData.totals.total, currency)}</TableCell>
                       <TableCell />
                     </TableRow>
                   </TableFooter>
@@ -553,15 +836,15 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                     <DollarSign className="h-4 w-4 text-primary" />
                     <span className="text-sm font-medium text-muted-foreground">Total Revenue</span>
                   </div>
-                  <p className="text-2xl font-bold text-primary">{formatCurrency(analysisData.totalProfit)}</p>
+                  <p className="text-2xl font-bold text-primary">{formatCurrency(analysisData.totalRevenue, analysisData.currency)}</p>
                 </div>
 
                 <div className="rounded-lg border bg-white p-4">
                   <div className="flex items-center gap-2 mb-2">
                     <TrendingUp className="h-4 w-4 text-success" />
-                    <span className="text-sm font-medium text-muted-foreground">Total Margin</span>
+                    <span className="text-sm font-medium text-muted-foreground">Gross Profit</span>
                   </div>
-                  <p className="text-2xl font-bold text-success">{formatCurrency(analysisData.totalMargin)}</p>
+                  <p className="text-2xl font-bold text-success">{formatCurrency(analysisData.grossProfit, analysisData.currency)}</p>
                 </div>
 
                 <div className="rounded-lg border bg-white p-4">
@@ -569,11 +852,7 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                     <BarChart3 className="h-4 w-4 text-warning" />
                     <span className="text-sm font-medium text-muted-foreground">Margin %</span>
                   </div>
-                  <p className="text-2xl font-bold text-warning">
-                    {analysisData.totalProfit > 0 
-                      ? formatPercentage((analysisData.totalMargin / analysisData.totalProfit) * 100)
-                      : '0.0%'}
-                  </p>
+                  <p className="text-2xl font-bold text-warning">{formatPercentage(analysisData.marginPercentage)}</p>
                 </div>
               </div>
 
@@ -589,7 +868,7 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-mono text-sm">{formatCurrency(item.total)}</p>
+                        <p className="font-mono text-sm">{formatCurrency(item.revenue, analysisData.currency)}</p>
                         <p className={`text-xs font-mono ${item.marginPercentage >= 0 ? 'text-success' : 'text-destructive'}`}>
                           {formatPercentage(item.marginPercentage)} margin
                         </p>
@@ -615,13 +894,13 @@ export default function QuoteGenerator({ onQuoteGenerated }: QuoteGeneratorProps
           <div className="flex gap-3">
             <Button 
               onClick={handleAnalyzeQuote} 
-              disabled={isAnalyzing || selectedItems.length === 0}
+              disabled={isGuest || isAnalyzing || selectedItems.length === 0}
               variant="outline"
             >
               <BarChart3 className="mr-2 h-4 w-4" />
               {isAnalyzing ? 'Analyzing...' : 'Analyze Quote'}
             </Button>
-            <Button onClick={handleGenerateQuote} disabled={isGenerating || selectedItems.length === 0}>
+            <Button onClick={handleGenerateQuote} disabled={isGuest || isGenerating || selectedItems.length === 0}>
               <Calculator className="mr-2 h-4 w-4" />
               {isGenerating ? 'Generating...' : 'Generate Quote'}
             </Button>
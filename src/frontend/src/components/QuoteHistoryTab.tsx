@@ -1,36 +1,89 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { History, Eye, FileText, Loader2 } from 'lucide-react';
-import { useGetQuoteHistory } from '../hooks/useQueries';
-import { formatCurrency, formatNumber } from '../lib/formatters';
-import type { FullQuote, QuoteHistoryItem } from '../backend';
+import { History, Eye, FileText, Loader2, ChevronDown, ChevronRight, GitCompare, Copy, FilePen, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetQuoteHistory, useUpdateQuoteStatus, useIsCallerAdmin } from '../hooks/useQueries';
+import { formatCurrency, formatDateTime, formatFileDate, formatNumber } from '../lib/formatters';
+import {
+  QUOTE_STATUS_BADGE_CLASSES,
+  QUOTE_STATUS_LABELS,
+  QUOTE_STATUS_TRANSITIONS,
+  describeApproval,
+  describeMarginBreach,
+  describeStatusChange,
+} from '../lib/quoteStatus';
+import { groupQuoteVersions, type QuoteVersionGroup } from '../lib/quoteVersions';
+import type { QuoteDraft } from '../lib/quoteReconciliation';
+import QuoteVersionDiff from './QuoteVersionDiff';
+import QuoteOwnerFilter, { ALL_OWNERS } from './QuoteOwnerFilter';
+import { QuoteStatus, type FullQuote, type QuoteHistoryItem } from '../backend';
+import { describeMutationError } from '../lib/authorization';
+import { downloadCsv } from '../lib/csv';
+import { quoteHistoryToCsvRows } from '../lib/csvExport';
 
 interface QuoteHistoryTabProps {
   onLoadQuote: (quote: FullQuote) => void;
+  onEditQuote: (draft: QuoteDraft) => void;
 }
 
-export default function QuoteHistoryTab({ onLoadQuote }: QuoteHistoryTabProps) {
-  const { data: history, isLoading } = useGetQuoteHistory();
+export default function QuoteHistoryTab({ onLoadQuote, onEditQuote }: QuoteHistoryTabProps) {
+  const [ownerFilter, setOwnerFilter] = useState(ALL_OWNERS);
+  const { data: isAdmin } = useIsCallerAdmin();
+  const { data: history, isLoading } = useGetQuoteHistory(ownerFilter === ALL_OWNERS ? null : ownerFilter);
+  const { mutate: updateQuoteStatus, isPending: isUpdatingStatus } = useUpdateQuoteStatus();
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | 'all'>('all');
+  const [expandedQuotes, setExpandedQuotes] = useState<Set<string>>(new Set());
+  const [compareGroup, setCompareGroup] = useState<QuoteVersionGroup | null>(null);
 
   const handleViewQuote = (historyItem: QuoteHistoryItem) => {
     const fullQuote: FullQuote = {
+      quoteNumber: historyItem.quoteNumber,
+      version: historyItem.version,
+      timestamp: historyItem.timestamp,
+      status: historyItem.status,
+      marginBreaches: historyItem.marginBreaches,
       header: historyItem.header,
       items: historyItem.items,
+      subtotal: historyItem.subtotal,
+      quoteDiscount: historyItem.quoteDiscount,
+      discountAmount: historyItem.discountAmount,
+      taxableAmount: historyItem.taxableAmount,
+      taxLabel: historyItem.taxLabel,
+      taxRate: historyItem.taxRate,
+      taxAmount: historyItem.taxAmount,
       total: historyItem.total,
+      currency: historyItem.currency,
+      exchangeRate: historyItem.exchangeRate,
     };
     onLoadQuote(fullQuote);
   };
 
-  const formatTimestamp = (timestamp: bigint) => {
-    const date = new Date(Number(timestamp) / 1000000); // Convert nanoseconds to milliseconds
-    return date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
+  const handleStatusChange = (item: QuoteHistoryItem, status: QuoteStatus) => {
+    updateQuoteStatus(
+      { id: item.id, status },
+      {
+        onSuccess: () => {
+          toast.success(`Quote ${item.quoteNumber} marked as ${QUOTE_STATUS_LABELS[status].toLowerCase()}`);
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('update quote status', error));
+        },
+      }
+    );
+  };
+
+  const toggleExpanded = (quoteNumber: string) => {
+    setExpandedQuotes((current) => {
+      const next = new Set(current);
+      if (next.has(quoteNumber)) {
+        next.delete(quoteNumber);
+      } else {
+        next.add(quoteNumber);
+      }
+      return next;
     });
   };
 
@@ -44,7 +97,7 @@ export default function QuoteHistoryTab({ onLoadQuote }: QuoteHistoryTabProps) {
     );
   }
 
-  if (!history || history.length === 0) {
+  if (!history || (history.length === 0 && ownerFilter === ALL_OWNERS)) {
     return (
       <Card>
         <CardContent className="py-16 text-center">
@@ -58,26 +111,174 @@ export default function QuoteHistoryTab({ onLoadQuote }: QuoteHistoryTabProps) {
     );
   }
 
-  // Sort by timestamp descending (newest first)
-  const sortedHistory = [...history].sort((a, b) => Number(b.timestamp - a.timestamp));
+  // Group versions by quote number, newest quote first; filters apply to the latest version
+  const groups = groupQuoteVersions(history);
+  const filteredGroups =
+    statusFilter === 'all' ? groups : groups.filter((group) => group.latest.status === statusFilter);
+
+  // Exports every version of the quotes currently shown
+  const handleExportCsv = () => {
+    const versions = filteredGroups.flatMap((group) => group.versions);
+    downloadCsv(quoteHistoryToCsvRows(versions), `quote_history_${formatFileDate(new Date())}.csv`);
+    toast.success(`Exported ${versions.length} quote versions to CSV`);
+  };
+
+  // Earlier versions are read-only, so only the latest version gets status actions
+  const renderRow = (item: QuoteHistoryItem, group: QuoteVersionGroup, isLatest: boolean) => (
+    <TableRow key={item.id} className={isLatest ? '' : 'bg-muted/30 text-muted-foreground'}>
+      <TableCell className="font-medium font-mono whitespace-nowrap">
+        <div className="flex items-center gap-1">
+          {isLatest && group.versions.length > 1 ? (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => toggleExpanded(group.quoteNumber)}>
+              {expandedQuotes.has(group.quoteNumber) ? (
+                <ChevronDown className="h-4 w-4" />
+              ) : (
+                <ChevronRight className="h-4 w-4" />
+              )}
+            </Button>
+          ) : (
+            <span className="w-6" />
+          )}
+          {item.quoteNumber}
+          <Badge variant="secondary" className="ml-1" title={`Priced against rate card v${item.rateCardVersion.toString()}`}>
+            v{item.version.toString()}
+          </Badge>
+        </div>
+      </TableCell>
+      <TableCell>
+        <Badge
+          variant="outline"
+          className={QUOTE_STATUS_BADGE_CLASSES[item.status]}
+          title={[
+            ...item.statusHistory.map(describeStatusChange),
+            ...item.marginBreaches.map(describeMarginBreach),
+            ...(item.approval ? [describeApproval(item.approval)] : []),
+          ].join('\n')}
+        >
+          {QUOTE_STATUS_LABELS[item.status]}
+        </Badge>
+      </TableCell>
+      <TableCell className="whitespace-nowrap">
+        {formatDateTime(item.timestamp)}
+      </TableCell>
+      <TableCell className="whitespace-nowrap">
+        {formatDateTime(item.validUntil)}
+      </TableCell>
+      <TableCell>{item.header.clientName}</TableCell>
+      <TableCell>{item.header.projectName}</TableCell>
+      <TableCell>{item.header.accountManager}</TableCell>
+      <TableCell className="text-right">{item.items.length}</TableCell>
+      <TableCell className="text-right font-mono">
+        {formatCurrency(item.total, item.currency)}
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex justify-end gap-2">
+          {isLatest &&
+            QUOTE_STATUS_TRANSITIONS[item.status].map((status) => (
+              <Button
+                key={status}
+                variant={status === QuoteStatus.rejected ? 'ghost' : 'secondary'}
+                size="sm"
+                disabled={isUpdatingStatus}
+                onClick={() => handleStatusChange(item, status)}
+              >
+                {status === QuoteStatus.sent ? 'Mark Sent' : QUOTE_STATUS_LABELS[status]}
+              </Button>
+            ))}
+          {isLatest && group.versions.length > 1 && (
+            <Button variant="outline" size="sm" onClick={() => setCompareGroup(group)}>
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare
+            </Button>
+          )}
+          {isLatest && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Edit as new revision"
+              onClick={() => onEditQuote({ source: item, mode: 'revision' })}
+            >
+              <FilePen className="mr-2 h-4 w-4" />
+              Revise
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            title="Duplicate as a new quote"
+            onClick={() => onEditQuote({ source: item, mode: 'duplicate' })}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleViewQuote(item)}
+          >
+            <Eye className="mr-2 h-4 w-4" />
+            View
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <History className="h-5 w-5" />
-          Quotes History
-        </CardTitle>
-        <CardDescription>
-          View and reload previously generated quotes ({history.length} total)
-        </CardDescription>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Quotes History
+            </CardTitle>
+            <CardDescription>
+              View and reload {isAdmin ? 'quotes from all users' : "your and your team's quotes"} ({groups.length} quotes,{' '}
+              {history.length} versions)
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={filteredGroups.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {/* Status and Owner Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant={statusFilter === 'all' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatusFilter('all')}
+          >
+            All ({groups.length})
+          </Button>
+          {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map((status) => (
+            <Button
+              key={status}
+              variant={statusFilter === status ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(status)}
+            >
+              {QUOTE_STATUS_LABELS[status]} ({groups.filter((group) => group.latest.status === status).length})
+            </Button>
+          ))}
+          {isAdmin && (
+            <div className="ml-auto">
+              <QuoteOwnerFilter value={ownerFilter} onChange={setOwnerFilter} />
+            </div>
+          )}
+        </div>
+
         <div className="rounded-md border overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead>Quote No.</TableHead>
+                <TableHead>Status</TableHead>
                 <TableHead>Date & Time</TableHead>
+                <TableHead>Valid Until</TableHead>
                 <TableHead>Client Name</TableHead>
                 <TableHead>Project Name</TableHead>
                 <TableHead>Account Manager</TableHead>
@@ -87,34 +288,33 @@ export default function QuoteHistoryTab({ onLoadQuote }: QuoteHistoryTabProps) {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {sortedHistory.map((item) => (
-                <TableRow key={item.id}>
-                  <TableCell className="font-medium whitespace-nowrap">
-                    {formatTimestamp(item.timestamp)}
-                  </TableCell>
-                  <TableCell>{item.header.clientName}</TableCell>
-                  <TableCell>{item.header.projectName}</TableCell>
-                  <TableCell>{item.header.accountManager}</TableCell>
-                  <TableCell className="text-right">{item.items.length}</TableCell>
-                  <TableCell className="text-right font-mono">
-                    {formatCurrency(item.total)}
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleViewQuote(item)}
-                    >
-                      <Eye className="mr-2 h-4 w-4" />
-                      View
-                    </Button>
+              {filteredGroups.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                    No {statusFilter !== 'all' && QUOTE_STATUS_LABELS[statusFilter].toLowerCase()} quotes
                   </TableCell>
                 </TableRow>
+              )}
+              {filteredGroups.map((group) => (
+                <Fragment key={group.quoteNumber}>
+                  {renderRow(group.latest, group, true)}
+                  {expandedQuotes.has(group.quoteNumber) &&
+                    group.versions.slice(1).map((version) => renderRow(version, group, false))}
+                </Fragment>
               ))}
             </TableBody>
           </Table>
         </div>
       </CardContent>
+
+      {compareGroup && (
+        <QuoteVersionDiff
+          key={compareGroup.quoteNumber}
+          versions={compareGroup.versions}
+          open={!!compareGroup}
+          onOpenChange={(open) => !open && setCompareGroup(null)}
+        />
+      )}
     </Card>
   );
 }
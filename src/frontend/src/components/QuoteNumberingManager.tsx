@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Hash } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetQuoteNumberPrefix, useUpdateQuoteNumberPrefix } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+
+export default function QuoteNumberingManager() {
+  const [prefix, setPrefix] = useState('');
+
+  const { data: currentPrefix, isLoading } = useGetQuoteNumberPrefix();
+  const { mutate: updateQuoteNumberPrefix, isPending: isSaving } = useUpdateQuoteNumberPrefix();
+
+  useEffect(() => {
+    if (currentPrefix !== undefined) {
+      setPrefix(currentPrefix);
+    }
+  }, [currentPrefix]);
+
+  const handleSave = () => {
+    if (!prefix.trim()) {
+      toast.error('Please enter a quote number prefix');
+      return;
+    }
+
+    updateQuoteNumberPrefix(prefix.trim(), {
+      onSuccess: () => {
+        toast.success('Quote numbering saved successfully');
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('save quote numbering', error));
+      },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          Quote Numbering
+        </CardTitle>
+        <CardDescription>
+          Quotes are numbered sequentially per year, e.g. {prefix.trim() || 'Q'}-{new Date().getFullYear()}-00042
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="quote-number-prefix">Prefix</Label>
+            <Input
+              id="quote-number-prefix"
+              value={prefix}
+              onChange={(e) => setPrefix(e.target.value)}
+              placeholder="e.g., Q"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Prefix'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useListUsers } from '../hooks/useQueries';
+import { shortenPrincipal } from '../lib/authorization';
+
+export const ALL_OWNERS = 'all';
+
+interface QuoteOwnerFilterProps {
+  value: string;
+  onChange: (owner: string) => void;
+}
+
+// Admin-only: listing users requires the admin role
+export default function QuoteOwnerFilter({ value, onChange }: QuoteOwnerFilterProps) {
+  const { data: users } = useListUsers();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue placeholder="All owners" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_OWNERS}>All owners</SelectItem>
+        {(users ?? []).map((user) => {
+          const principal = user.principal.toString();
+          return (
+            <SelectItem key={principal} value={principal}>
+              {user.profile?.name || shortenPrincipal(principal)}
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowUpCircle, GitCompare, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import type { AnalysisSummary, FullQuote, PricingScenario } from '../backend';
+import { useGetQuoteScenarios, useSaveQuoteScenario, useDeleteQuoteScenario, usePromoteQuoteScenario } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+import { formatCurrency, formatPercentage } from '../lib/formatters';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, isAwaitingApproval } from '../lib/quoteStatus';
+import { formatQuoteReference, quoteVersionId } from '../lib/quoteVersions';
+
+interface QuoteScenariosProps {
+  quote: FullQuote;
+  // Standard cost of each quote line as currently edited, and their analysis
+  standardCosts: number[];
+  analysis: AnalysisSummary;
+  onLoadScenario: (standardCosts: number[]) => void;
+  onScenarioPromoted: (quote: FullQuote) => void;
+}
+
+const COMPARED_METRICS: { label: string; value: (analysis: AnalysisSummary) => number; percent?: boolean; signed?: boolean }[] = [
+  { label: 'Total Revenue', value: (analysis) => analysis.totalRevenue },
+  { label: 'Total Cost', value: (analysis) => analysis.totalCost },
+  { label: 'Gross Profit', value: (analysis) => analysis.grossProfit, signed: true },
+  { label: 'Margin %', value: (analysis) => analysis.marginPercentage, percent: true, signed: true },
+];
+
+export default function QuoteScenarios({ quote, standardCosts, analysis, onLoadScenario, onScenarioPromoted }: QuoteScenariosProps) {
+  const [name, setName] = useState('');
+
+  const quoteId = quoteVersionId(quote);
+  const { data: scenarios, isLoading } = useGetQuoteScenarios(quoteId);
+  const { mutate: saveScenario, isPending: isSaving } = useSaveQuoteScenario();
+  const { mutate: deleteScenario } = useDeleteQuoteScenario();
+  const { mutate: promoteScenario, isPending: isPromoting } = usePromoteQuoteScenario();
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      toast.error('Please enter a scenario name');
+      return;
+    }
+
+    const existing = scenarios?.some(({ scenario }) => scenario.name === trimmedName);
+    if (existing && !confirm(`Replace the costs saved in the "${trimmedName}" scenario?`)) return;
+
+    saveScenario(
+      {
+        quoteId,
+        name: trimmedName,
+        standardCosts: quote.items.map((item, index) => [item.id, standardCosts[index]]),
+      },
+      {
+        onSuccess: () => {
+          toast.success(`Scenario "${trimmedName}" saved successfully`);
+          setName('');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save scenario', error));
+        },
+      }
+    );
+  };
+
+  const handleLoad = (scenario: PricingScenario) => {
+    const costs = new Map(scenario.standardCosts);
+    onLoadScenario(quote.items.map((item, index) => costs.get(item.id) ?? standardCosts[index]));
+    toast.success(`Loaded the "${scenario.name}" costs`);
+  };
+
+  const handleDelete = (scenario: PricingScenario) => {
+    if (!confirm(`Are you sure you want to delete the "${scenario.name}" scenario?`)) return;
+
+    deleteScenario(scenario.id, {
+      onSuccess: () => {
+        toast.success('Scenario deleted successfully');
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('delete scenario', error));
+      },
+    });
+  };
+
+  const handlePromote = (scenario: PricingScenario) => {
+    if (!confirm(`Save the "${scenario.name}" pricing as a new revision of ${quote.quoteNumber}? The rate card is not changed.`)) {
+      return;
+    }
+
+    promoteScenario(
+      { id: scenario.id, validityDays: BigInt(DEFAULT_QUOTE_VALIDITY_DAYS) },
+      {
+        onSuccess: (revision) => {
+          toast.success(`Saved ${formatQuoteReference(revision)} with the "${scenario.name}" pricing`);
+          if (isAwaitingApproval(revision)) {
+            toast.warning(`${formatQuoteReference(revision)} is below the margin thresholds and needs an administrator's approval`);
+          }
+          onScenarioPromoted(revision);
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('promote scenario', error));
+        },
+      }
+    );
+  };
+
+  const columns = [{ key: 'current', label: 'Current Costs', analysis, scenario: null as PricingScenario | null }].concat(
+    (scenarios || []).map(({ scenario, analysis: scenarioAnalysis }) => ({
+      key: scenario.id,
+      label: scenario.name,
+      analysis: scenarioAnalysis,
+      scenario,
+    }))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Pricing Scenarios
+        </CardTitle>
+        <CardDescription>
+          Save the edited standard costs as a named scenario for this quote version and compare scenarios side by side.
+          Scenarios never change the rate card; promote one to save it as a new quote revision.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="scenario-name">Scenario Name</Label>
+            <Input
+              id="scenario-name"
+              list="scenario-names"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., aggressive"
+            />
+            <datalist id="scenario-names">
+              {scenarios?.map(({ scenario }) => (
+                <option key={scenario.id} value={scenario.name} />
+              ))}
+            </datalist>
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Current Costs'}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : columns.length === 1 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No scenarios saved for this quote version yet.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {columns.map((column) => (
+                    <TableHead key={column.key} className="text-right">
+                      {column.label}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {COMPARED_METRICS.map((metric) => (
+                  <TableRow key={metric.label}>
+                    <TableCell className="font-medium">{metric.label}</TableCell>
+                    {columns.map((column) => {
+                      const value = metric.value(column.analysis);
+                      const tone = metric.signed ? (value >= 0 ? 'text-success' : 'text-destructive') : '';
+                      return (
+                        <TableCell key={column.key} className={`text-right font-mono ${tone}`}>
+                          {metric.percent ? formatPercentage(value) : formatCurrency(value, quote.currency)}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell />
+                  {columns.map(({ key, scenario }) => (
+                    <TableCell key={key} className="text-right">
+                      {scenario && (
+                        <div className="flex justify-end">
+                          <Button variant="ghost" size="icon" title="Load costs" onClick={() => handleLoad(scenario)}>
+                            <Upload className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Promote to revision"
+                            disabled={isPromoting}
+                            onClick={() => handlePromote(scenario)}
+                          >
+                            <ArrowUpCircle className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Delete scenario" onClick={() => handleDelete(scenario)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
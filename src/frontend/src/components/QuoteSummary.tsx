@@ -1,53 +1,105 @@
+import { Fragment, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
-import { FileText, Plus, Printer, FileSpreadsheet, FileDown } from 'lucide-react';
+import { FileText, Plus, Printer, FileSpreadsheet, FileDown, FileCode, ShieldAlert } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import type { FullQuote } from '../backend';
+import type { FullQuote, QuoteItem } from '../backend';
 import { exportToExcel } from '../lib/excelParser';
-import { exportToPDF } from '../lib/pdfExporter';
-import { formatCurrency, formatNumber } from '../lib/formatters';
+import { downloadCsv } from '../lib/csv';
+import { documentToCsvRows } from '../lib/csvExport';
+import { buildQuoteDocument } from '../lib/documentModel';
+import { exportToHtml } from '../lib/documentHtml';
+import { exportToPDF, resolvePdfBranding } from '../lib/pdfExporter';
+import { useGetPdfTemplates, useGetQuoteHash, useGetQuoteVersions } from '../hooks/useQueries';
+import { formatCurrency, formatDate, formatDateTime, formatNumber, formatPercentage } from '../lib/formatters';
+import { BASE_CURRENCY } from '../lib/currency';
+import { groupQuoteItems, QUOTE_LAYOUT_LABELS, type QuoteLayout } from '../lib/quoteGrouping';
+import { getTotalsBreakdown } from '../lib/quoteTotals';
+import { formatQuoteReference, quoteVersionId } from '../lib/quoteVersions';
+import { formatVerificationCode, quoteVerificationUrl } from '../lib/quoteVerification';
+import { describeMarginBreach, isAwaitingApproval, NOT_APPROVED_WATERMARK } from '../lib/quoteStatus';
 
 interface QuoteSummaryProps {
   quote: FullQuote;
   onNewQuote: () => void;
 }
 
+const BUILT_IN_TEMPLATE = 'built-in';
+
 export default function QuoteSummary({ quote, onNewQuote }: QuoteSummaryProps) {
+  const { data: templates } = useGetPdfTemplates();
+  const { mutateAsync: getQuoteHash } = useGetQuoteHash();
+  const { data: versions } = useGetQuoteVersions(quote.quoteNumber);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [isExportingPDF, setIsExportingPDF] = useState(false);
+  const [layout, setLayout] = useState<QuoteLayout>('flat');
+
+  const groups = groupQuoteItems(quote.items);
+  const hasLineDiscounts = quote.items.some((item) => item.discountAmount > 0);
+  const breakdown = getTotalsBreakdown(quote);
+
+  // The stored version has the latest approval decision; the generated quote is used until it has loaded
+  const storedVersion = versions?.find((version) => version.version === quote.version);
+  const awaitingApproval = isAwaitingApproval(storedVersion ?? quote);
+  const watermark = awaitingApproval ? NOT_APPROVED_WATERMARK : undefined;
+
+  // Fall back to the default template until the user picks one
+  const selectedTemplateId =
+    templateId ?? templates?.find((template) => template.isDefault)?.id ?? BUILT_IN_TEMPLATE;
+
+  const renderItemRow = (item: QuoteItem) => (
+    <TableRow key={item.id}>
+      <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+      <TableCell>{item.category || '—'}</TableCell>
+      <TableCell>{item.subcategory || '—'}</TableCell>
+      <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
+      <TableCell className="text-right font-mono">{formatCurrency(item.standardCost, quote.currency)}</TableCell>
+      <TableCell className="text-right">{formatNumber(Number(item.quantity))}</TableCell>
+      <TableCell className="text-right">{formatNumber(Number(item.duration))}</TableCell>
+      <TableCell className="text-right font-mono">
+        {item.discountAmount > 0 ? `-${formatCurrency(item.discountAmount, quote.currency)}` : '—'}
+      </TableCell>
+      <TableCell className="text-right font-mono">{formatCurrency(item.total, quote.currency)}</TableCell>
+    </TableRow>
+  );
+
+  const renderSubtotalRow = (label: string, subtotal: number) => (
+    <TableRow className="hover:bg-transparent">
+      <TableCell colSpan={8} className="text-right font-medium">
+        {label}
+      </TableCell>
+      <TableCell className="text-right font-mono font-semibold">{formatCurrency(subtotal, quote.currency)}</TableCell>
+    </TableRow>
+  );
+
   const handlePrint = () => {
     window.print();
   };
 
-  const handleExportExcel = () => {
+  // Every export renders the same document, in the layout currently shown, dated when the version was generated
+  const buildDocument = () => buildQuoteDocument(quote, { date: formatDate(quote.timestamp), layout, watermark });
+
+  // PDF and HTML copies carry the verification code of the stored version
+  const buildVerifiedDocument = async () => {
+    const id = quoteVersionId(quote);
+    const code = formatVerificationCode(await getQuoteHash(id));
+    return buildQuoteDocument(quote, {
+      date: formatDate(quote.timestamp),
+      layout,
+      verification: { code, url: quoteVerificationUrl(id, code) },
+      watermark,
+    });
+  };
+
+  const resolveBranding = () => resolvePdfBranding(templates?.find((t) => t.id === selectedTemplateId));
+
+  const handleExportExcel = async () => {
     try {
-      const excelData = quote.items.map((item, index) => ({
-        'S.No': index + 1,
-        'Item Ref No': item.itemRefNo,
-        'Category': item.category,
-        'Subcategory': item.subcategory,
-        'Description': item.detailedDescription || '—',
-        'Quantity': Number(item.quantity),
-        'Duration': Number(item.duration),
-        'Standard Cost': item.standardCost,
-        'Total': item.total,
-      }));
-
-      // Add grand total row
-      excelData.push({
-        'S.No': '',
-        'Item Ref No': '',
-        'Category': '',
-        'Subcategory': '',
-        'Description': '',
-        'Quantity': '',
-        'Duration': '',
-        'Standard Cost': 'Grand Total:',
-        'Total': quote.total,
-      } as any);
-
-      const filename = `quote_${quote.header.projectName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
-      exportToExcel(excelData, filename);
+      await exportToExcel(buildDocument());
       toast.success('Quote exported to Excel successfully!');
     } catch (error) {
       console.error('Error exporting to Excel:', error);
@@ -55,46 +107,66 @@ export default function QuoteSummary({ quote, onNewQuote }: QuoteSummaryProps) {
     }
   };
 
-  const handleExportPDF = () => {
+  const handleExportCsv = () => {
+    const document = buildDocument();
+    downloadCsv(documentToCsvRows(document), `${document.filename}.csv`);
+    toast.success('Quote exported to CSV successfully!');
+  };
+
+  const handleExportHtml = async () => {
     try {
-      const pdfData = {
-        header: quote.header,
-        items: quote.items.map((item) => ({
-          itemRefNo: item.itemRefNo,
-          category: item.category,
-          subcategory: item.subcategory,
-          detailedDescription: item.detailedDescription,
-          quantity: Number(item.quantity),
-          duration: Number(item.duration),
-          standardCost: item.standardCost,
-          total: item.total,
-        })),
-        total: quote.total,
-        date: new Date().toLocaleDateString(),
-      };
-
-      const filename = `quote_${quote.header.projectName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.pdf`;
-      exportToPDF(pdfData, filename, false);
+      exportToHtml(await buildVerifiedDocument(), await resolveBranding());
+      toast.success('Quote exported to HTML successfully!');
+    } catch (error) {
+      console.error('Error exporting to HTML:', error);
+      toast.error((error as Error).message || 'Failed to export to HTML. Please try again.');
+    }
+  };
+
+  const handleExportPDF = async () => {
+    setIsExportingPDF(true);
+    try {
+      await exportToPDF(await buildVerifiedDocument(), await resolveBranding());
       toast.success('Quote exported to PDF successfully!');
     } catch (error) {
       console.error('Error exporting to PDF:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to export to PDF. Please try again.';
       toast.error(errorMessage);
+    } finally {
+      setIsExportingPDF(false);
     }
   };
 
   return (
     <div className="space-y-6">
+      {/* Printouts carry the same watermark as the exports; fixed elements repeat on every printed page */}
+      {watermark && (
+        <div className="hidden print:flex fixed inset-0 z-50 items-center justify-center pointer-events-none" aria-hidden>
+          <span className="-rotate-45 text-7xl font-bold tracking-widest text-destructive/20">{watermark}</span>
+        </div>
+      )}
       <Card className="print:shadow-none">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <FileText className="h-5 w-5" />
             Quote Summary
+            <span className="ml-auto font-mono text-base text-muted-foreground">{formatQuoteReference(quote)}</span>
           </CardTitle>
           <CardDescription>Review your generated quote below</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
+            {awaitingApproval && (
+              <Alert className="print:hidden">
+                <ShieldAlert className="h-4 w-4" />
+                <AlertTitle>Waiting for approval</AlertTitle>
+                <AlertDescription>
+                  {quote.marginBreaches.map(describeMarginBreach).join('; ')}. Exports and printouts are marked
+                  "{NOT_APPROVED_WATERMARK}" until an administrator approves the quote.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Project Header Information */}
             <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
               <h3 className="font-semibold mb-2">Project Information</h3>
@@ -115,15 +187,36 @@ export default function QuoteSummary({ quote, onNewQuote }: QuoteSummaryProps) {
                   <span className="text-muted-foreground">Project Duration:</span>
                   <p className="font-medium">{quote.header.projectDuration}</p>
                 </div>
+                <div>
+                  <span className="text-muted-foreground">Currency:</span>
+                  <p className="font-medium">
+                    {quote.currency}
+                    {quote.currency !== BASE_CURRENCY && ` (1 ${quote.currency} = ${formatCurrency(quote.exchangeRate)})`}
+                  </p>
+                </div>
               </div>
               <Separator className="my-2" />
               <p className="text-sm text-muted-foreground">
-                Generated on {new Date().toLocaleDateString()} at {new Date().toLocaleTimeString()}
+                Generated {formatDateTime(quote.timestamp)}
               </p>
             </div>
 
             <div>
-              <h3 className="font-semibold mb-4">Items</h3>
+              <div className="flex items-center justify-between mb-4 print:mb-2">
+                <h3 className="font-semibold">Items</h3>
+                <Select value={layout} onValueChange={(value) => setLayout(value as QuoteLayout)}>
+                  <SelectTrigger className="w-[260px] print:hidden">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(QUOTE_LAYOUT_LABELS) as QuoteLayout[]).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {QUOTE_LAYOUT_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <Table>
                 <TableHeader>
                   <TableRow>
@@ -134,41 +227,102 @@ export default function QuoteSummary({ quote, onNewQuote }: QuoteSummaryProps) {
                     <TableHead className="text-right">Standard Cost</TableHead>
                     <TableHead className="text-right">Quantity</TableHead>
                     <TableHead className="text-right">Duration</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
                     <TableHead className="text-right">Total</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {quote.items.map((item) => (
-                    <TableRow key={item.id}>
-                      <TableCell className="font-medium">{item.itemRefNo}</TableCell>
-                      <TableCell>{item.category || '—'}</TableCell>
-                      <TableCell>{item.subcategory || '—'}</TableCell>
-                      <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
-                      <TableCell className="text-right font-mono">{formatCurrency(item.standardCost)}</TableCell>
-                      <TableCell className="text-right">{formatNumber(Number(item.quantity))}</TableCell>
-                      <TableCell className="text-right">{formatNumber(Number(item.duration))}</TableCell>
-                      <TableCell className="text-right font-mono">{formatCurrency(item.total)}</TableCell>
-                    </TableRow>
-                  ))}
+                  {layout === 'flat'
+                    ? quote.items.map(renderItemRow)
+                    : groups.map((group) => (
+                        <Fragment key={group.category}>
+                          <TableRow className="bg-primary/10 hover:bg-primary/10">
+                            <TableCell colSpan={9} className="font-semibold">
+                              {group.category}
+                            </TableCell>
+                          </TableRow>
+                          {layout === 'subcategory'
+                            ? group.subgroups.map((subgroup) => (
+                                <Fragment key={subgroup.subcategory}>
+                                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                                    <TableCell colSpan={9} className="font-medium pl-6">
+                                      {subgroup.subcategory}
+                                    </TableCell>
+                                  </TableRow>
+                                  {subgroup.items.map(renderItemRow)}
+                                  {renderSubtotalRow(`Subtotal – ${subgroup.subcategory}`, subgroup.subtotal)}
+                                </Fragment>
+                              ))
+                            : group.items.map(renderItemRow)}
+                          {renderSubtotalRow(`Subtotal – ${group.category}`, group.subtotal)}
+                        </Fragment>
+                      ))}
                 </TableBody>
                 <TableFooter>
+                  {breakdown.map(([label, value]) => (
+                    <TableRow key={label}>
+                      <TableCell colSpan={8} className="text-right font-medium">
+                        {label}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {value < 0 ? `-${formatCurrency(-value, quote.currency)}` : formatCurrency(value, quote.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
                   <TableRow>
-                    <TableCell colSpan={7} className="text-right font-semibold">
+                    <TableCell colSpan={8} className="text-right font-semibold">
                       Grand Total
                     </TableCell>
-                    <TableCell className="text-right font-bold text-lg">{formatCurrency(quote.total)}</TableCell>
+                    <TableCell className="text-right font-bold text-lg">{formatCurrency(quote.total, quote.currency)}</TableCell>
                   </TableRow>
                 </TableFooter>
               </Table>
             </div>
 
+            {layout !== 'flat' && (
+              <div>
+                <h3 className="font-semibold mb-4">Summary by Category</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Items</TableHead>
+                      <TableHead className="text-right">Subtotal</TableHead>
+                      <TableHead className="text-right">% of Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {groups.map((group) => (
+                      <TableRow key={group.category}>
+                        <TableCell className="font-medium">{group.category}</TableCell>
+                        <TableCell className="text-right">{group.items.length}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(group.subtotal, quote.currency)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatPercentage(quote.total > 0 ? (group.subtotal / quote.total) * 100 : 0)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             <Separator />
 
             <div className="rounded-lg bg-primary/5 border border-primary/20 p-6">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">Grand Total</p>
-                  <p className="text-3xl font-bold text-primary">{formatCurrency(quote.total)}</p>
+                  <p className="text-3xl font-bold text-primary">{formatCurrency(quote.total, quote.currency)}</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Includes {formatCurrency(quote.taxAmount, quote.currency)} {quote.taxLabel}
+                    {quote.discountAmount > 0 || hasLineDiscounts
+                      ? ` · Discounts ${formatCurrency(
+                          quote.discountAmount + quote.items.reduce((sum, item) => sum + item.discountAmount, 0),
+                          quote.currency
+                        )}`
+                      : ''}
+                  </p>
                 </div>
                 <div className="text-right">
                   <p className="text-sm text-muted-foreground">{quote.items.length} items</p>
@@ -186,13 +340,34 @@ export default function QuoteSummary({ quote, onNewQuote }: QuoteSummaryProps) {
             New Quote
           </Button>
           <div className="flex gap-2">
+            <Select value={selectedTemplateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="PDF template" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BUILT_IN_TEMPLATE}>Standard (built-in)</SelectItem>
+                {templates?.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button variant="outline" onClick={handleExportExcel}>
               <FileSpreadsheet className="mr-2 h-4 w-4" />
               Export Excel
             </Button>
-            <Button variant="outline" onClick={handleExportPDF}>
+            <Button variant="outline" onClick={handleExportCsv}>
+              <FileText className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={handleExportHtml}>
+              <FileCode className="mr-2 h-4 w-4" />
+              Export HTML
+            </Button>
+            <Button variant="outline" onClick={handleExportPDF} disabled={isExportingPDF}>
               <FileDown className="mr-2 h-4 w-4" />
-              Export PDF
+              {isExportingPDF ? 'Exporting...' : 'Export PDF'}
             </Button>
             <Button onClick={handlePrint}>
               <Printer className="mr-2 h-4 w-4" />
@@ -0,0 +1,173 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck, ShieldX, ShieldQuestion, ArrowLeft } from 'lucide-react';
+import { useVerifyQuote } from '../hooks/useQueries';
+import { formatCurrency, formatDate, formatNumber } from '../lib/formatters';
+import { QUOTE_STATUS_BADGE_CLASSES, QUOTE_STATUS_LABELS } from '../lib/quoteStatus';
+import { getTotalsBreakdown } from '../lib/quoteTotals';
+import { formatQuoteReference } from '../lib/quoteVersions';
+import { formatVerificationCode, normalizeVerificationCode, type VerificationLink } from '../lib/quoteVerification';
+
+interface QuoteVerificationViewProps {
+  link: VerificationLink;
+  onClose: () => void;
+}
+
+const OUTCOME_MESSAGES = {
+  verified: {
+    icon: ShieldCheck,
+    title: 'Document verified',
+    description: 'The verification code matches the quote on record. Compare the details below with your copy.',
+  },
+  mismatch: {
+    icon: ShieldX,
+    title: 'Document does not match',
+    description: 'The stored quote no longer produces this verification code. Contact the issuer before relying on it.',
+  },
+  'not-found': {
+    icon: ShieldQuestion,
+    title: 'No matching quote',
+    description: 'No quote on record matches this link and verification code. The document may have been altered.',
+  },
+};
+
+export default function QuoteVerificationView({ link, onClose }: QuoteVerificationViewProps) {
+  const { data, isLoading, error } = useVerifyQuote(link);
+
+  const code = formatVerificationCode(normalizeVerificationCode(link.code));
+  const outcome = error ? null : data?.outcome;
+  const message = outcome ? OUTCOME_MESSAGES[outcome] : null;
+  const quote = data?.verification;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <Button variant="ghost" size="sm" onClick={onClose}>
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to QuoteGen
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quote Verification</CardTitle>
+          <CardDescription>
+            Verification code <span className="font-mono">{code}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <Alert variant="destructive">
+              <ShieldQuestion className="h-4 w-4" />
+              <AlertTitle>Verification unavailable</AlertTitle>
+              <AlertDescription>The quote could not be checked right now. Please try again later.</AlertDescription>
+            </Alert>
+          ) : (
+            message && (
+              <Alert variant={outcome === 'verified' ? 'default' : 'destructive'}>
+                <message.icon className="h-4 w-4" />
+                <AlertTitle>{message.title}</AlertTitle>
+                <AlertDescription>{message.description}</AlertDescription>
+              </Alert>
+            )
+          )}
+
+          {quote && (
+            <>
+              <div className="rounded-lg border bg-muted/50 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="font-semibold font-mono">{formatQuoteReference(quote)}</h3>
+                  <Badge variant="outline" className={QUOTE_STATUS_BADGE_CLASSES[quote.status]}>
+                    {QUOTE_STATUS_LABELS[quote.status]}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Client Name:</span>
+                    <p className="font-medium">{quote.header.clientName}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Project Name:</span>
+                    <p className="font-medium">{quote.header.projectName}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Account Manager:</span>
+                    <p className="font-medium">{quote.header.accountManager}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Project Duration:</span>
+                    <p className="font-medium">{quote.header.projectDuration}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Issued:</span>
+                    <p className="font-medium">{formatDate(quote.timestamp)}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Valid Until:</span>
+                    <p className="font-medium">{formatDate(quote.validUntil)}</p>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Currency:</span>
+                    <p className="font-medium">{quote.currency}</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item Ref No</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Standard Cost</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Duration</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quote.items.map((item, index) => (
+                      <TableRow key={`${item.itemRefNo}-${index}`}>
+                        <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+                        <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.standardCost, quote.currency)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(Number(item.quantity))}</TableCell>
+                        <TableCell className="text-right">{formatNumber(Number(item.duration))}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.total, quote.currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    {getTotalsBreakdown(quote).map(([label, value]) => (
+                      <TableRow key={label}>
+                        <TableCell colSpan={5} className="text-right font-medium">
+                          {label}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {value < 0 ? `-${formatCurrency(-value, quote.currency)}` : formatCurrency(value, quote.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-right font-semibold">
+                        Grand Total
+                      </TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(quote.total, quote.currency)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+
+              <p className="text-xs text-muted-foreground font-mono break-all">SHA-256 {quote.hash}</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
+import { formatCurrency, formatNumber } from '../lib/formatters';
+import { diffQuoteVersions, FIELD_CHANGE_LABELS, type FieldChange, type LineChangeType } from '../lib/quoteVersions';
+import type { QuoteHistoryItem } from '../backend';
+
+interface QuoteVersionDiffProps {
+  versions: QuoteHistoryItem[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CHANGE_BADGE_CLASSES: Record<LineChangeType, string> = {
+  added: 'bg-success/10 text-success border-success/20',
+  removed: 'bg-destructive/10 text-destructive border-destructive/20',
+  changed: 'bg-warning/10 text-warning border-warning/20',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+const formatDelta = (value: number, currency: string) =>
+  (value > 0 ? '+' : value < 0 ? '-' : '') + formatCurrency(Math.abs(value), currency);
+
+const formatFieldValue = (change: FieldChange, value: number, currency: string) =>
+  change.field === 'standardCost' || change.field === 'discountAmount' ? formatCurrency(value, currency) : formatNumber(value);
+
+export default function QuoteVersionDiff({ versions, open, onOpenChange }: QuoteVersionDiffProps) {
+  // versions arrive newest first; compare the previous version with the latest by default
+  const [fromVersion, setFromVersion] = useState<string>(versions[1]?.version.toString() ?? '');
+  const [toVersion, setToVersion] = useState<string>(versions[0]?.version.toString() ?? '');
+
+  const from = versions.find((v) => v.version.toString() === fromVersion);
+  const to = versions.find((v) => v.version.toString() === toVersion);
+  const diff = from && to ? diffQuoteVersions(from, to) : null;
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.version.toString()}>
+            v{v.version.toString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Versions – {versions[0]?.quoteNumber}</DialogTitle>
+          <DialogDescription>Line-level changes between two versions of this quote</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label>From</Label>
+            {versionSelect(fromVersion, setFromVersion)}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label>To</Label>
+            {versionSelect(toVersion, setToVersion)}
+          </div>
+          {from && to && from.rateCardVersion !== to.rateCardVersion && (
+            <span className="text-sm text-muted-foreground">
+              Rate card v{from.rateCardVersion.toString()} → v{to.rateCardVersion.toString()}
+            </span>
+          )}
+          {from && to && from.currency !== to.currency && (
+            <span className="text-sm text-muted-foreground">
+              {from.currency} → {to.currency}; v{from.version.toString()} amounts converted at the quoted rates
+            </span>
+          )}
+        </div>
+
+        {diff && to && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item Ref No</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Total Delta</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.lines.map((line) => (
+                <TableRow key={line.itemRefNo} className={line.change === 'unchanged' ? 'text-muted-foreground' : ''}>
+                  <TableCell className="font-medium">{line.itemRefNo}</TableCell>
+                  <TableCell className="max-w-[220px] truncate">{line.detailedDescription || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={CHANGE_BADGE_CLASSES[line.change]}>
+                      {line.change}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {line.fieldChanges.map((change) => (
+                      <div key={change.field}>
+                        {FIELD_CHANGE_LABELS[change.field]}: {formatFieldValue(change, change.before, to.currency)} →{' '}
+                        {formatFieldValue(change, change.after, to.currency)}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{formatDelta(line.totalDelta, to.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="text-right font-semibold">
+                  Subtotal Delta
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatDelta(diff.subtotalDelta, to.currency)}</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell colSpan={4} className="text-right font-semibold">
+                  Grand Total Delta
+                </TableCell>
+                <TableCell className="text-right font-bold">{formatDelta(diff.totalDelta, to.currency)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '../lib/formatters';
+import { RATE_CARD_FIELD_LABELS, type RateCardDiff, type RateCardFieldChange } from '../lib/rateCardVersions';
+
+interface RateCardDiffTableProps {
+  diff: RateCardDiff;
+}
+
+const formatFieldValue = (value: RateCardFieldChange['before']) =>
+  typeof value === 'number' ? formatCurrency(value) : value || '—';
+
+export default function RateCardDiffTable({ diff }: RateCardDiffTableProps) {
+  const hasChanges = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+          {diff.added.length} added
+        </Badge>
+        <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+          {diff.removed.length} removed
+        </Badge>
+        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+          {diff.changed.length} changed
+        </Badge>
+        <Badge variant="outline" className="bg-muted text-muted-foreground">
+          {diff.unchangedCount} unchanged
+        </Badge>
+      </div>
+
+      {hasChanges ? (
+        <ScrollArea className="h-[400px] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[15%]">Item Ref No</TableHead>
+                <TableHead className="w-[35%]">Description</TableHead>
+                <TableHead className="w-[12%]">Change</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {diff.added.map((item) => (
+                <TableRow key={`added-${item.itemRefNo}`}>
+                  <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                      added
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm font-mono">{formatCurrency(item.standardCost)}</TableCell>
+                </TableRow>
+              ))}
+              {diff.removed.map((item) => (
+                <TableRow key={`removed-${item.itemRefNo}`}>
+                  <TableCell className="font-medium">{item.itemRefNo}</TableCell>
+                  <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                      removed
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm font-mono line-through">{formatCurrency(item.standardCost)}</TableCell>
+                </TableRow>
+              ))}
+              {diff.changed.map((change) => (
+                <TableRow key={`changed-${change.itemRefNo}`}>
+                  <TableCell className="font-medium">{change.itemRefNo}</TableCell>
+                  <TableCell className="text-muted-foreground">{change.after.detailedDescription || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20">
+                      changed
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {change.fieldChanges.map((fieldChange) => (
+                      <div key={fieldChange.field}>
+                        {RATE_CARD_FIELD_LABELS[fieldChange.field]}: {formatFieldValue(fieldChange.before)} →{' '}
+                        {formatFieldValue(fieldChange.after)}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">The rate cards are identical.</div>
+      )}
+    </div>
+  );
+}
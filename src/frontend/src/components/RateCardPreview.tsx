@@ -1,18 +1,54 @@
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Check, X, AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import type { RateCardItem } from '../backend';
-import RateCardTable from './RateCardTable';
+import { applyRateCardImport, RATE_CARD_IMPORT_MODE_LABELS, type RateCardImportMode } from '../lib/rateCardImport';
+import { diffRateCards } from '../lib/rateCardVersions';
+import RateCardDiffTable from './RateCardDiffTable';
 
-interface RateCardPreviewProps {
+export interface RateCardVersionOptions {
   items: RateCardItem[];
-  onConfirm: () => void;
+  effectiveFrom: Date | null;
+  note: string;
+}
+
+interface RateCardPreviewProps {
+  currentItems: RateCardItem[];
+  importedItems: RateCardItem[];
+  onConfirm: (options: RateCardVersionOptions) => void;
   onCancel: () => void;
   isUpdating: boolean;
 }
 
-export default function RateCardPreview({ items, onConfirm, onCancel, isUpdating }: RateCardPreviewProps) {
+export default function RateCardPreview({
+  currentItems,
+  importedItems,
+  onConfirm,
+  onCancel,
+  isUpdating,
+}: RateCardPreviewProps) {
+  const [mode, setMode] = useState<RateCardImportMode>('merge');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [note, setNote] = useState('');
+
+  const result = useMemo(() => applyRateCardImport(currentItems, importedItems, mode), [currentItems, importedItems, mode]);
+  const diff = useMemo(() => diffRateCards(currentItems, result.items), [currentItems, result.items]);
+  const hasChanges = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+  const handleConfirm = () => {
+    onConfirm({
+      items: result.items,
+      // Dates are taken as local midnight; leaving the date empty makes the version effective immediately
+      effectiveFrom: effectiveFrom ? new Date(`${effectiveFrom}T00:00:00`) : null,
+      note: note.trim(),
+    });
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -21,26 +57,73 @@ export default function RateCardPreview({ items, onConfirm, onCancel, isUpdating
           Preview Rate Card Update
         </CardTitle>
         <CardDescription>
-          Review the parsed data before updating the rate card. This will replace all existing items.
+          Review how the {importedItems.length} imported rows change the current rate card before saving them as a new
+          version. Rows are matched to existing items by Item Ref No.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <Alert>
-          <AlertTriangle className="h-4 w-4" />
-          <AlertDescription>
-            <strong>Warning:</strong> Confirming this update will permanently replace all existing rate card items
-            with the {items.length} items shown below.
-          </AlertDescription>
-        </Alert>
-
-        <RateCardTable items={items} />
+        <div className="space-y-2">
+          <Label>Import Mode</Label>
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RateCardImportMode)}>
+            {(Object.keys(RATE_CARD_IMPORT_MODE_LABELS) as RateCardImportMode[]).map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`import-mode-${value}`} />
+                <Label htmlFor={`import-mode-${value}`} className="font-normal">
+                  {RATE_CARD_IMPORT_MODE_LABELS[value]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {mode === 'replace' && diff.removed.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <strong>Warning:</strong> {diff.removed.length} item{diff.removed.length > 1 ? 's' : ''} not in the file
+              will be removed from the rate card. Earlier versions stay available in the version history.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result.duplicateRefNos.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The file repeats these Item Ref Nos; the last row of each is used: {result.duplicateRefNos.join(', ')}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <RateCardDiffTable diff={diff} />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="rate-card-effective-from">Effective From</Label>
+            <Input
+              id="rate-card-effective-from"
+              type="date"
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="rate-card-note">Version Note</Label>
+            <Input
+              id="rate-card-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., 2027 price list"
+            />
+          </div>
+        </div>
       </CardContent>
       <CardFooter className="flex justify-end gap-3">
         <Button variant="outline" onClick={onCancel} disabled={isUpdating}>
           <X className="mr-2 h-4 w-4" />
           Cancel
         </Button>
-        <Button onClick={onConfirm} disabled={isUpdating}>
+        <Button onClick={handleConfirm} disabled={isUpdating || !hasChanges}>
           <Check className="mr-2 h-4 w-4" />
           {isUpdating ? 'Updating...' : 'Confirm Update'}
         </Button>
@@ -1,6 +1,7 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import type { RateCardItem } from '../backend';
+import { formatCurrency } from '../lib/formatters';
 
 interface RateCardTableProps {
   items: RateCardItem[];
@@ -27,8 +28,8 @@ export default function RateCardTable({ items }: RateCardTableProps) {
               <TableCell>{item.category || '—'}</TableCell>
               <TableCell>{item.subcategory || '—'}</TableCell>
               <TableCell className="text-muted-foreground">{item.detailedDescription || '—'}</TableCell>
-              <TableCell className="text-right font-mono">Kshs {item.opsBriskCost.toFixed(2)}</TableCell>
-              <TableCell className="text-right font-mono">Kshs {item.standardCost.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(item.opsBriskCost)}</TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(item.standardCost)}</TableCell>
             </TableRow>
           ))}
         </TableBody>
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGetRateCardVersion } from '../hooks/useQueries';
+import { diffRateCards } from '../lib/rateCardVersions';
+import type { RateCardVersionInfo } from '../backend';
+import RateCardDiffTable from './RateCardDiffTable';
+
+interface RateCardVersionDiffProps {
+  versions: RateCardVersionInfo[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function RateCardVersionDiff({ versions, open, onOpenChange }: RateCardVersionDiffProps) {
+  // versions arrive newest first; compare the previous version with the latest by default
+  const [fromVersion, setFromVersion] = useState<string>(versions[1]?.version.toString() ?? '');
+  const [toVersion, setToVersion] = useState<string>(versions[0]?.version.toString() ?? '');
+
+  const { data: from, isLoading: isLoadingFrom } = useGetRateCardVersion(fromVersion ? BigInt(fromVersion) : null);
+  const { data: to, isLoading: isLoadingTo } = useGetRateCardVersion(toVersion ? BigInt(toVersion) : null);
+  const diff = from && to ? diffRateCards(from.items, to.items) : null;
+
+  const versionSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.version.toString()} value={v.version.toString()}>
+            v{v.version.toString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Rate Card Versions</DialogTitle>
+          <DialogDescription>Items are matched by Item Ref No</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Label>From</Label>
+            {versionSelect(fromVersion, setFromVersion)}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label>To</Label>
+            {versionSelect(toVersion, setToVersion)}
+          </div>
+        </div>
+
+        {isLoadingFrom || isLoadingTo ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          diff && <RateCardDiffTable diff={diff} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
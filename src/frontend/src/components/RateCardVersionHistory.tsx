@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Eye, GitCompare, History } from 'lucide-react';
+import { useGetRateCardVersion, useGetRateCardVersions } from '../hooks/useQueries';
+import { formatDate } from '../lib/formatters';
+import {
+  getRateCardVersionStatus,
+  RATE_CARD_VERSION_STATUS_LABELS,
+  type RateCardVersionStatus,
+} from '../lib/rateCardVersions';
+import RateCardTable from './RateCardTable';
+import RateCardVersionDiff from './RateCardVersionDiff';
+
+interface RateCardVersionHistoryProps {
+  currentVersion: bigint;
+}
+
+const STATUS_BADGE_CLASSES: Record<RateCardVersionStatus, string> = {
+  current: 'bg-success/10 text-success border-success/20',
+  scheduled: 'bg-primary/10 text-primary border-primary/20',
+  superseded: 'bg-muted text-muted-foreground',
+};
+
+export default function RateCardVersionHistory({ currentVersion }: RateCardVersionHistoryProps) {
+  const [viewVersion, setViewVersion] = useState<bigint | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  const { data: versions, isLoading } = useGetRateCardVersions();
+  const { data: viewedVersion, isLoading: isLoadingVersion } = useGetRateCardVersion(viewVersion);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </CardTitle>
+            <CardDescription>Every upload or edit creates a new version; quotes remember the version they were priced against</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setCompareOpen(true)} disabled={!versions || versions.length < 2}>
+            <GitCompare className="mr-2 h-4 w-4" />
+            Compare Versions
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !versions || versions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No rate card versions yet.</div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => {
+                  const status = getRateCardVersionStatus(version, currentVersion);
+                  return (
+                    <TableRow key={version.version.toString()}>
+                      <TableCell className="font-medium font-mono">v{version.version.toString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+                          {RATE_CARD_VERSION_STATUS_LABELS[status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(version.effectiveFrom)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(version.createdAt)}</TableCell>
+                      <TableCell className="text-muted-foreground">{version.note || '—'}</TableCell>
+                      <TableCell className="text-right">{version.itemCount.toString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setViewVersion(version.version)}>
+                          <Eye className="mr-2 h-4 w-4" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={viewVersion !== null} onOpenChange={(open) => !open && setViewVersion(null)}>
+        <DialogContent className="sm:max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Rate Card v{viewVersion?.toString()}</DialogTitle>
+            <DialogDescription>
+              {viewedVersion ? `Effective from ${formatDate(viewedVersion.effectiveFrom)}` : 'Loading version...'}
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingVersion || !viewedVersion ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <RateCardTable items={viewedVersion.items} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {compareOpen && versions && (
+        <RateCardVersionDiff versions={versions} open={compareOpen} onOpenChange={setCompareOpen} />
+      )}
+    </Card>
+  );
+}
@@ -4,8 +4,14 @@ import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow, TableFooter } from '@/components/ui/table';
 import { FileSpreadsheet, Loader2, FileText, Download } from 'lucide-react';
 import { useGetQuoteHistory } from '../hooks/useQueries';
-import { formatCurrency, formatNumber } from '../lib/formatters';
+import { formatCurrency, formatDateTime, formatNumber } from '../lib/formatters';
+import { getTotalsBreakdown } from '../lib/quoteTotals';
+import { formatQuoteReference } from '../lib/quoteVersions';
+import { isAwaitingApproval, NOT_APPROVED_WATERMARK } from '../lib/quoteStatus';
 import { exportToExcel } from '../lib/excelParser';
+import { downloadCsv } from '../lib/csv';
+import { documentToCsvRows } from '../lib/csvExport';
+import { buildQuoteDocument } from '../lib/documentModel';
 import { toast } from 'sonner';
 import type { QuoteHistoryItem } from '../backend';
 
@@ -13,63 +19,22 @@ export default function ReportsTab() {
   const { data: history, isLoading } = useGetQuoteHistory();
   const [selectedQuote, setSelectedQuote] = useState<QuoteHistoryItem | null>(null);
 
-  const formatTimestamp = (timestamp: bigint) => {
-    const date = new Date(Number(timestamp) / 1000000);
-    return date.toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
   const handleSelectQuote = (quote: QuoteHistoryItem) => {
     setSelectedQuote(quote);
   };
 
-  const handleExportToExcel = () => {
+  // Reports carry the date the quote was generated rather than the export date
+  const buildDocument = (quote: QuoteHistoryItem) =>
+    buildQuoteDocument(quote, {
+      date: formatDateTime(quote.timestamp),
+      watermark: isAwaitingApproval(quote) ? NOT_APPROVED_WATERMARK : undefined,
+    });
+
+  const handleExportToExcel = async () => {
     if (!selectedQuote) return;
 
     try {
-      const excelData = [
-        // Header information
-        { 'Field': 'Client Name', 'Value': selectedQuote.header.clientName },
-        { 'Field': 'Project Name', 'Value': selectedQuote.header.projectName },
-        { 'Field': 'Account Manager', 'Value': selectedQuote.header.accountManager },
-        { 'Field': 'Project Duration', 'Value': selectedQuote.header.projectDuration },
-        { 'Field': 'Generated Date', 'Value': formatTimestamp(selectedQuote.timestamp) },
-        {},
-        // Line items
-        { 'S.No': 'S.No', 'Item Ref No': 'Item Ref No', 'Category': 'Category', 'Subcategory': 'Subcategory', 'Description': 'Description', 'Quantity': 'Quantity', 'Duration': 'Duration', 'Unit Cost': 'Unit Cost', 'Total': 'Total' },
-        ...selectedQuote.items.map((item, index) => ({
-          'S.No': index + 1,
-          'Item Ref No': item.itemRefNo,
-          'Category': item.category,
-          'Subcategory': item.subcategory,
-          'Description': item.detailedDescription || '—',
-          'Quantity': Number(item.quantity),
-          'Duration': Number(item.duration),
-          'Unit Cost': item.standardCost,
-          'Total': item.total,
-        })),
-        {},
-        // Grand total
-        {
-          'S.No': '',
-          'Item Ref No': '',
-          'Category': '',
-          'Subcategory': '',
-          'Description': '',
-          'Quantity': '',
-          'Duration': '',
-          'Unit Cost': 'Grand Total:',
-          'Total': selectedQuote.total,
-        },
-      ];
-
-      const filename = `report_${selectedQuote.header.projectName.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
-      exportToExcel(excelData, filename);
+      await exportToExcel(buildDocument(selectedQuote));
       toast.success('Report exported to Excel successfully!');
     } catch (error) {
       console.error('Error exporting to Excel:', error);
@@ -77,6 +42,13 @@ export default function ReportsTab() {
     }
   };
 
+  const handleExportToCsv = () => {
+    if (!selectedQuote) return;
+    const document = buildDocument(selectedQuote);
+    downloadCsv(documentToCsvRows(document), `${document.filename}.csv`);
+    toast.success('Report exported to CSV successfully!');
+  };
+
   if (isLoading) {
     return (
       <Card>
@@ -121,6 +93,7 @@ export default function ReportsTab() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead>Quote No.</TableHead>
                   <TableHead>Date & Time</TableHead>
                   <TableHead>Client Name</TableHead>
                   <TableHead>Project Name</TableHead>
@@ -136,15 +109,16 @@ export default function ReportsTab() {
                     key={item.id}
                     className={selectedQuote?.id === item.id ? 'bg-muted' : ''}
                   >
-                    <TableCell className="font-medium whitespace-nowrap">
-                      {formatTimestamp(item.timestamp)}
+                    <TableCell className="font-medium font-mono whitespace-nowrap">{formatQuoteReference(item)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDateTime(item.timestamp)}
                     </TableCell>
                     <TableCell>{item.header.clientName}</TableCell>
                     <TableCell>{item.header.projectName}</TableCell>
                     <TableCell>{item.header.accountManager}</TableCell>
                     <TableCell className="text-right">{item.items.length}</TableCell>
                     <TableCell className="text-right font-mono">
-                      {formatCurrency(item.total)}
+                      {formatCurrency(item.total, item.currency)}
                     </TableCell>
                     <TableCell className="text-right">
                       <Button
@@ -169,15 +143,21 @@ export default function ReportsTab() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>Quote Details</CardTitle>
+                <CardTitle>Quote {formatQuoteReference(selectedQuote)}</CardTitle>
                 <CardDescription>
                   {selectedQuote.header.projectName} - {selectedQuote.header.clientName}
                 </CardDescription>
               </div>
-              <Button onClick={handleExportToExcel}>
-                <Download className="mr-2 h-4 w-4" />
-                Export to Excel
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleExportToCsv}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export to CSV
+                </Button>
+                <Button onClick={handleExportToExcel}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export to Excel
+                </Button>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -203,7 +183,7 @@ export default function ReportsTab() {
                 </div>
                 <div>
                   <span className="text-muted-foreground">Generated:</span>
-                  <p className="font-medium">{formatTimestamp(selectedQuote.timestamp)}</p>
+                  <p className="font-medium">{formatDateTime(selectedQuote.timestamp)}</p>
                 </div>
               </div>
             </div>
@@ -236,18 +216,28 @@ export default function ReportsTab() {
                         <TableCell className="max-w-[250px]">{item.detailedDescription || '—'}</TableCell>
                         <TableCell className="text-right">{formatNumber(Number(item.quantity))}</TableCell>
                         <TableCell className="text-right">{formatNumber(Number(item.duration))}</TableCell>
-                        <TableCell className="text-right font-mono">{formatCurrency(item.standardCost)}</TableCell>
-                        <TableCell className="text-right font-mono">{formatCurrency(item.total)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.standardCost, selectedQuote.currency)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(item.total, selectedQuote.currency)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                   <TableFooter>
+                    {getTotalsBreakdown(selectedQuote).map(([label, value]) => (
+                      <TableRow key={label}>
+                        <TableCell colSpan={8} className="text-right font-medium">
+                          {label}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {value < 0 ? `-${formatCurrency(-value, selectedQuote.currency)}` : formatCurrency(value, selectedQuote.currency)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
                     <TableRow>
                       <TableCell colSpan={8} className="text-right font-semibold">
                         Grand Total
                       </TableCell>
                       <TableCell className="text-right font-bold text-lg">
-                        {formatCurrency(selectedQuote.total)}
+                        {formatCurrency(selectedQuote.total, selectedQuote.currency)}
                       </TableCell>
                     </TableRow>
                   </TableFooter>
@@ -260,7 +250,7 @@ export default function ReportsTab() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm text-muted-foreground mb-1">Grand Total</p>
-                  <p className="text-3xl font-bold text-primary">{formatCurrency(selectedQuote.total)}</p>
+                  <p className="text-3xl font-bold text-primary">{formatCurrency(selectedQuote.total, selectedQuote.currency)}</p>
                 </div>
                 <div className="text-right">
                   <p className="text-sm text-muted-foreground">{selectedQuote.items.length} items</p>
@@ -1,8 +1,19 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Settings } from 'lucide-react';
 import AccountManagerManager from './AccountManagerManager';
+import PdfTemplateManager from './PdfTemplateManager';
+import TaxSettingsManager from './TaxSettingsManager';
+import MarginThresholdsManager from './MarginThresholdsManager';
+import ExchangeRateManager from './ExchangeRateManager';
+import LocaleSettingsManager from './LocaleSettingsManager';
+import QuoteNumberingManager from './QuoteNumberingManager';
+import UserManager from './UserManager';
+import AdminOnlyNotice from './AdminOnlyNotice';
+import { useIsCallerAdmin } from '../hooks/useQueries';
 
 export default function SettingsTab() {
+  const { data: isAdmin, isLoading } = useIsCallerAdmin();
+
   return (
     <div className="space-y-6">
       <Card>
@@ -14,9 +25,24 @@ export default function SettingsTab() {
           <CardDescription>Manage application settings and resources</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-6">
-            <AccountManagerManager />
-          </div>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : isAdmin ? (
+            <div className="space-y-6">
+              <UserManager />
+              <AccountManagerManager />
+              <QuoteNumberingManager />
+              <TaxSettingsManager />
+              <MarginThresholdsManager />
+              <ExchangeRateManager />
+              <LocaleSettingsManager />
+              <PdfTemplateManager />
+            </div>
+          ) : (
+            <AdminOnlyNotice message="Users, account managers, quote numbering, tax, margin thresholds, exchange rates, locale and PDF templates can only be changed by administrators." />
+          )}
         </CardContent>
       </Card>
     </div>
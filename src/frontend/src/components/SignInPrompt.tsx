@@ -0,0 +1,25 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LogIn } from 'lucide-react';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+
+export default function SignInPrompt() {
+  const { login, isLoggingIn } = useInternetIdentity();
+
+  return (
+    <div className="max-w-md mx-auto py-16">
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle>Sign in to QuoteGen</CardTitle>
+          <CardDescription>Quotes, rate cards and clients are only available to signed-in users.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center">
+          <Button onClick={login} disabled={isLoggingIn}>
+            <LogIn className="mr-2 h-4 w-4" />
+            {isLoggingIn ? 'Logging in...' : 'Login with Internet Identity'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
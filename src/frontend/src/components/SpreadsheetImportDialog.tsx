@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Download, FileSpreadsheet } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  autoMapColumns,
+  detectHeaderRow,
+  detectSheet,
+  downloadImportErrorReport,
+  mapRows,
+  readSpreadsheet,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRecord,
+  type SpreadsheetSheet,
+} from '../lib/spreadsheetImport';
+
+interface SpreadsheetImportDialogProps<K extends string> {
+  file: File | null;
+  title: string;
+  fields: ImportField<K>[];
+  onImport: (records: ImportRecord<K>[]) => void;
+  onCancel: () => void;
+}
+
+const NOT_MAPPED = 'none';
+const HEADER_ROW_CHOICES = 20;
+const ERROR_PREVIEW_ROWS = 5;
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+export default function SpreadsheetImportDialog<K extends string>({
+  file,
+  title,
+  fields,
+  onImport,
+  onCancel,
+}: SpreadsheetImportDialogProps<K>) {
+  const [sheets, setSheets] = useState<SpreadsheetSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRowIndex, setHeaderRowIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping<K> | null>(null);
+
+  const selectSheet = (allSheets: SpreadsheetSheet[], index: number) => {
+    const rows = allSheets[index]?.rows ?? [];
+    const header = detectHeaderRow(rows, fields).index;
+    setSheetIndex(index);
+    setHeaderRowIndex(header);
+    setMapping(autoMapColumns(rows[header] ?? [], fields));
+  };
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    readSpreadsheet(file)
+      .then((workbook) => {
+        if (cancelled) return;
+        setSheets(workbook);
+        selectSheet(workbook, detectSheet(workbook, fields));
+      })
+      .catch((error: Error) => {
+        toast.error(error.message || 'Failed to read file');
+        onCancel();
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only a new file restarts detection; later changes are made by the user
+  }, [file]);
+
+  const rows = sheets[sheetIndex]?.rows ?? [];
+  const headers = rows[headerRowIndex] ?? [];
+  const columnCount = Math.max(0, ...rows.map((row) => row.length));
+
+  const result = useMemo(
+    () => (mapping ? mapRows(rows, headerRowIndex, mapping, fields) : null),
+    [rows, headerRowIndex, mapping, fields]
+  );
+  const unmappedRequired = mapping ? fields.filter((field) => field.required && mapping[field.key] === null) : [];
+
+  const handleHeaderRowChange = (value: string) => {
+    const index = Number(value);
+    setHeaderRowIndex(index);
+    setMapping(autoMapColumns(rows[index] ?? [], fields));
+  };
+
+  const handleMappingChange = (key: K, value: string) => {
+    setMapping((current) => (current ? { ...current, [key]: value === NOT_MAPPED ? null : Number(value) } : current));
+  };
+
+  const handleDownloadErrors = () => {
+    if (!result || !file) return;
+    downloadImportErrorReport(result.errors, headers, `${file.name.replace(/\.[^.]+$/, '')}_import_errors.csv`);
+  };
+
+  const rowLabel = (index: number) => {
+    const preview = (rows[index] ?? []).filter((cell) => cell.toString().trim()).slice(0, 4).join(' | ');
+    return `Row ${index + 1}: ${preview || '(empty)'}`;
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            {file?.name} – check the detected header row and match each field to a column in the file
+          </DialogDescription>
+        </DialogHeader>
+
+        {!mapping ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {sheets.length > 1 && (
+                <div>
+                  <Label>Sheet</Label>
+                  <Select value={sheetIndex.toString()} onValueChange={(value) => selectSheet(sheets, Number(value))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sheets.map((sheet, index) => (
+                        <SelectItem key={sheet.name} value={index.toString()}>
+                          {sheet.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className={sheets.length > 1 ? '' : 'md:col-span-2'}>
+                <Label>Header Row</Label>
+                <Select value={headerRowIndex.toString()} onValueChange={handleHeaderRowChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rows.slice(0, HEADER_ROW_CHOICES).map((_, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {rowLabel(index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Column Mapping</Label>
+              <div className="rounded-md border divide-y">
+                {fields.map((field) => (
+                  <div key={field.key} className="grid grid-cols-2 items-center gap-4 p-2">
+                    <span className="text-sm font-medium">
+                      {field.label}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </span>
+                    <Select
+                      value={mapping[field.key] === null ? NOT_MAPPED : String(mapping[field.key])}
+                      onValueChange={(value) => handleMappingChange(field.key, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>— Not mapped —</SelectItem>
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <SelectItem key={index} value={index.toString()}>
+                            {columnLetter(index)}: {headers[index]?.toString() || '(no header)'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {unmappedRequired.length > 0 ? (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Map the required fields before importing: {unmappedRequired.map((field) => field.label).join(', ')}
+                </AlertDescription>
+              </Alert>
+            ) : (
+              result && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <p>
+                      <strong>{result.records.length}</strong> rows ready to import
+                      {result.errors.length > 0 && (
+                        <>
+                          , <strong>{result.errors.length}</strong> rows rejected
+                        </>
+                      )}
+                    </p>
+                    {result.errors.slice(0, ERROR_PREVIEW_ROWS).map((error) => (
+                      <p key={error.rowNumber} className="text-sm text-muted-foreground">
+                        Row {error.rowNumber}: {error.reasons.join('; ')}
+                      </p>
+                    ))}
+                    {result.errors.length > 0 && (
+                      <Button variant="outline" size="sm" onClick={handleDownloadErrors}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download Error Report
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => result && onImport(result.records)}
+            disabled={!result || unmappedRequired.length > 0 || result.records.length === 0}
+          >
+            Import {result?.records.length ?? 0} Rows
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
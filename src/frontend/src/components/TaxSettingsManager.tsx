@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Percent } from 'lucide-react';
+import { toast } from 'sonner';
+import { useGetTaxSettings, useUpdateTaxSettings } from '../hooks/useQueries';
+import { describeMutationError } from '../lib/authorization';
+
+export default function TaxSettingsManager() {
+  const [taxName, setTaxName] = useState('');
+  const [taxRate, setTaxRate] = useState('');
+
+  const { data: taxSettings, isLoading } = useGetTaxSettings();
+  const { mutate: updateTaxSettings, isPending: isSaving } = useUpdateTaxSettings();
+
+  useEffect(() => {
+    if (taxSettings) {
+      setTaxName(taxSettings.name);
+      setTaxRate(taxSettings.rate.toString());
+    }
+  }, [taxSettings]);
+
+  const handleSave = () => {
+    const rate = parseFloat(taxRate);
+
+    if (!taxName.trim()) {
+      toast.error('Please enter a tax name');
+      return;
+    }
+
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error('Please enter a tax rate between 0 and 100');
+      return;
+    }
+
+    updateTaxSettings(
+      { name: taxName.trim(), rate },
+      {
+        onSuccess: () => {
+          toast.success('Tax settings saved successfully');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('save tax settings', error));
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5" />
+          Tax Settings
+        </CardTitle>
+        <CardDescription>Tax applied to new quotes after discounts. Existing quotes keep the rate they were generated with.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label htmlFor="tax-name">Tax Name</Label>
+            <Input id="tax-name" value={taxName} onChange={(e) => setTaxName(e.target.value)} placeholder="e.g., VAT" />
+          </div>
+          <div>
+            <Label htmlFor="tax-rate">Rate (%)</Label>
+            <Input
+              id="tax-rate"
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={taxRate}
+              onChange={(e) => setTaxRate(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Tax Settings'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck, UserMinus, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Principal } from '@icp-sdk/core/principal';
+import {
+  useListUsers,
+  useAssignUserRole,
+  useRevokeUserRole,
+  useGetAccountManagers,
+  useAssignUserAccountManager,
+} from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { describeMutationError, shortenPrincipal, USER_ROLE_LABELS } from '../lib/authorization';
+import { UserRole } from '../backend';
+
+const ROLES = [UserRole.admin, UserRole.user, UserRole.guest];
+const NO_ACCOUNT_MANAGER = 'none';
+
+export default function UserManager() {
+  const [newPrincipal, setNewPrincipal] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>(UserRole.user);
+
+  const { identity } = useInternetIdentity();
+  const { data: users, isLoading } = useListUsers();
+  const { data: accountManagerList } = useGetAccountManagers();
+  const { mutate: assignRole, isPending: isAssigning } = useAssignUserRole();
+  const { mutate: revokeRole } = useRevokeUserRole();
+  const { mutate: assignAccountManager } = useAssignUserAccountManager();
+
+  const callerPrincipal = identity?.getPrincipal().toString();
+  const adminCount = (users ?? []).filter((user) => user.role === UserRole.admin).length;
+
+  const accountManagers = accountManagerList?.managers ?? [];
+
+  // The backend refuses to demote the only admin; mirror that so the controls are not offered
+  const isLastAdmin = (role: UserRole) => role === UserRole.admin && adminCount <= 1;
+
+  const handleRoleChange = (user: Principal, role: UserRole) => {
+    assignRole(
+      { user, role },
+      {
+        onSuccess: () => {
+          toast.success(`Role changed to ${USER_ROLE_LABELS[role]}`);
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('change user role', error));
+        },
+      }
+    );
+  };
+
+  const handleAccountManagerChange = (user: Principal, id: string) => {
+    assignAccountManager(
+      { user, accountManagerId: id === NO_ACCOUNT_MANAGER ? '' : id },
+      {
+        onSuccess: () => {
+          toast.success('Account manager updated');
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('assign account manager', error));
+        },
+      }
+    );
+  };
+
+  const handleRevoke = (user: Principal, name: string) => {
+    if (!confirm(`Revoke access for ${name}? They will keep read-only guest access.`)) return;
+
+    revokeRole(user, {
+      onSuccess: () => {
+        toast.success('Access revoked successfully');
+      },
+      onError: (error) => {
+        toast.error(describeMutationError('revoke access', error));
+      },
+    });
+  };
+
+  const handleAddUser = () => {
+    let user: Principal;
+    try {
+      user = Principal.fromText(newPrincipal.trim());
+    } catch {
+      toast.error('Please enter a valid principal ID');
+      return;
+    }
+
+    assignRole(
+      { user, role: newRole },
+      {
+        onSuccess: () => {
+          toast.success(`${USER_ROLE_LABELS[newRole]} role assigned successfully`);
+          setNewPrincipal('');
+          setNewRole(UserRole.user);
+        },
+        onError: (error) => {
+          toast.error(describeMutationError('assign user role', error));
+        },
+      }
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Users & Roles
+        </CardTitle>
+        <CardDescription>
+          Admins manage settings and the rate card, users create quotes and guests have read-only access. Users
+          linked to an account manager see the quotes of that account manager's team.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Assign Role by Principal */}
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_160px_auto] gap-4 items-end">
+          <div>
+            <Label htmlFor="user-principal">Principal ID</Label>
+            <Input
+              id="user-principal"
+              value={newPrincipal}
+              onChange={(e) => setNewPrincipal(e.target.value)}
+              placeholder="e.g., abcde-fghij-..."
+              className="font-mono"
+            />
+          </div>
+          <div>
+            <Label htmlFor="user-role">Role</Label>
+            <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRole)}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {USER_ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAddUser} disabled={isAssigning || !newPrincipal.trim()}>
+            <UserPlus className="mr-2 h-4 w-4" />
+            Assign Role
+          </Button>
+        </div>
+
+        {/* Users List */}
+        <div className="space-y-2">
+          <h3 className="font-semibold text-sm">Users ({users?.length ?? 0})</h3>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Principal</TableHead>
+                  <TableHead>Account Manager</TableHead>
+                  <TableHead className="w-[160px]">Role</TableHead>
+                  <TableHead className="w-[100px]">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(users ?? []).map((user) => {
+                  const principal = user.principal.toString();
+                  const name = user.profile?.name || shortenPrincipal(principal);
+                  const locked = isLastAdmin(user.role);
+
+                  return (
+                    <TableRow key={principal}>
+                      <TableCell className="font-medium">
+                        {user.profile?.name || '—'}
+                        {principal === callerPrincipal && (
+                          <Badge variant="secondary" className="ml-2">
+                            You
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs" title={principal}>
+                        {shortenPrincipal(principal)}
+                      </TableCell>
+                      <TableCell>
+                        {user.profile ? (
+                          <Select
+                            value={user.profile.accountManagerId || NO_ACCOUNT_MANAGER}
+                            onValueChange={(value) => handleAccountManagerChange(user.principal, value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_ACCOUNT_MANAGER}>None</SelectItem>
+                              {accountManagers.map((manager) => (
+                                <SelectItem key={manager.id} value={manager.id}>
+                                  {manager.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-muted-foreground" title="Set once the user has saved a profile">
+                            —
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => handleRoleChange(user.principal, value as UserRole)}
+                          disabled={locked}
+                        >
+                          <SelectTrigger title={locked ? 'The last admin cannot be demoted' : undefined}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {USER_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRevoke(user.principal, name)}
+                          disabled={locked || user.role === UserRole.guest}
+                          title={locked ? 'The last admin cannot be revoked' : 'Revoke access'}
+                        >
+                          <UserMinus className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,30 +16,171 @@ export interface AccountManager {
   'email' : [] | [string],
 }
 export interface AccountManagerList { 'managers' : Array<AccountManager> }
+export interface AccountManagerPerformance {
+  'quoteCount' : bigint,
+  'marginPercentage' : number,
+  'quotedValue' : number,
+  'accountManager' : string,
+  'wonValue' : number,
+  'wonCount' : bigint,
+  'lostCount' : bigint,
+  'winRate' : number,
+}
 export interface AnalysisItem {
   'id' : string,
-  'total' : number,
   'duration' : bigint,
+  'revenue' : number,
   'subcategory' : string,
+  'grossProfit' : number,
   'marginPercentage' : number,
+  'cost' : number,
+  'discountAmount' : number,
   'quantity' : bigint,
   'category' : string,
-  'margin' : number,
   'detailedDescription' : string,
   'standardCost' : number,
   'itemRefNo' : string,
   'opsBriskCost' : number,
 }
 export interface AnalysisSummary {
-  'totalProfit' : number,
-  'totalMargin' : number,
+  'categories' : Array<CategoryAnalysis>,
+  'grossProfit' : number,
+  'marginPercentage' : number,
+  'discountAmount' : number,
+  'totalCost' : number,
+  'currency' : string,
   'items' : Array<AnalysisItem>,
+  'totalRevenue' : number,
+}
+export interface ApprovalDecision {
+  'comment' : string,
+  'approved' : boolean,
+  'timestamp' : bigint,
+  'decidedBy' : Principal,
+}
+export interface CategoryAnalysis {
+  'revenue' : number,
+  'grossProfit' : number,
+  'marginPercentage' : number,
+  'cost' : number,
+  'itemCount' : bigint,
+  'category' : string,
+}
+export interface DashboardFilter {
+  'to' : [] | [bigint],
+  'clientName' : [] | [string],
+  'from' : [] | [bigint],
+  'accountManager' : [] | [string],
+}
+export interface DashboardFilterOptions {
+  'accountManagers' : Array<string>,
+  'clientNames' : Array<string>,
+}
+export interface DashboardItem {
+  'revenue' : number,
+  'grossProfit' : number,
+  'marginPercentage' : number,
+  'cost' : number,
+  'lineCount' : bigint,
+  'quantity' : bigint,
+  'category' : string,
+  'detailedDescription' : string,
+  'itemRefNo' : string,
+}
+export interface DashboardPeriod {
+  'quoteCount' : bigint,
+  'marginPercentage' : number,
+  'quotedValue' : number,
+  'wonValue' : number,
+  'start' : bigint,
+}
+export interface DashboardSummary {
+  'quoteCount' : bigint,
+  'grossProfit' : number,
+  'marginPercentage' : number,
+  'quotedValue' : number,
+  'wonValue' : number,
+  'totalCost' : number,
+  'wonCount' : bigint,
+  'currency' : string,
+  'lostCount' : bigint,
+  'totalRevenue' : number,
+  'winRate' : number,
 }
+export interface Discount { 'value' : number, 'discountType' : DiscountType }
+export type DiscountType = { 'fixed' : null } |
+  { 'percentage' : null };
+export interface ExchangeRate {
+  'rate' : number,
+  'updatedAt' : bigint,
+  'currency' : string,
+}
+export type ExternalBlob = Uint8Array;
 export interface FullQuote {
+  'status' : QuoteStatus,
   'total' : number,
+  'taxableAmount' : number,
+  'discountAmount' : number,
+  'quoteNumber' : string,
+  'version' : bigint,
+  'exchangeRate' : number,
+  'quoteDiscount' : [] | [Discount],
+  'currency' : string,
+  'timestamp' : bigint,
+  'taxLabel' : string,
+  'marginBreaches' : Array<MarginBreach>,
   'items' : Array<QuoteItem>,
+  'taxAmount' : number,
+  'taxRate' : number,
+  'subtotal' : number,
   'header' : QuoteHeader,
 }
+export interface LocaleSettings { 'locale' : string, 'timeZone' : string }
+export interface MarginBreach {
+  'threshold' : number,
+  'marginPercentage' : number,
+  'category' : [] | [string],
+}
+export interface MarginThresholds {
+  'categories' : Array<[string, number]>,
+  'overall' : number,
+}
+export interface PdfTemplate {
+  'id' : string,
+  'primaryColor' : string,
+  'logo' : [] | [ExternalBlob],
+  'name' : string,
+  'accentColor' : string,
+  'fontFamily' : string,
+  'isDefault' : boolean,
+  'companyName' : string,
+  'analysisTitle' : string,
+  'addressBlock' : string,
+  'textColor' : string,
+  'quoteTitle' : string,
+  'footerText' : string,
+}
+export interface PricingScenario {
+  'id' : string,
+  'standardCosts' : Array<[string, number]>,
+  'name' : string,
+  'createdBy' : Principal,
+  'quoteId' : string,
+  'updatedAt' : bigint,
+}
+export interface PricingSolution {
+  'standardCosts' : Array<[string, number]>,
+  'grandTotal' : number,
+  'analysis' : AnalysisSummary,
+  'reachable' : boolean,
+}
+export interface PricingSolverRequest {
+  'categories' : Array<string>,
+  'target' : PricingTarget,
+  'minimumMarginPercentage' : number,
+}
+export type PricingTarget = { 'marginPercentage' : number } |
+  { 'grandTotal' : number };
 export interface Quote { 'total' : number, 'items' : Array<QuoteItem> }
 export interface QuoteHeader {
   'projectDuration' : string,
@@ -49,9 +190,28 @@ export interface QuoteHeader {
 }
 export interface QuoteHistoryItem {
   'id' : string,
+  'status' : QuoteStatus,
   'total' : number,
+  'taxableAmount' : number,
+  'discountAmount' : number,
+  'createdBy' : Principal,
+  'statusHistory' : Array<QuoteStatusChange>,
+  'quoteNumber' : string,
+  'version' : bigint,
+  'exchangeRate' : number,
+  'accountManagerId' : string,
+  'approval' : [] | [ApprovalDecision],
+  'quoteDiscount' : [] | [Discount],
+  'currency' : string,
   'timestamp' : bigint,
+  'taxLabel' : string,
+  'marginBreaches' : Array<MarginBreach>,
   'items' : Array<QuoteItem>,
+  'taxAmount' : number,
+  'rateCardVersion' : bigint,
+  'taxRate' : number,
+  'validUntil' : bigint,
+  'subtotal' : number,
   'header' : QuoteHeader,
 }
 export interface QuoteItem {
@@ -59,6 +219,8 @@ export interface QuoteItem {
   'total' : number,
   'duration' : bigint,
   'subcategory' : string,
+  'discountAmount' : number,
+  'discount' : [] | [Discount],
   'quantity' : bigint,
   'category' : string,
   'detailedDescription' : string,
@@ -66,7 +228,52 @@ export interface QuoteItem {
   'itemRefNo' : string,
   'opsBriskCost' : number,
 }
-export interface RateCard { 'items' : Array<RateCardItem> }
+export type QuoteStatus = { 'expired' : null } |
+  { 'sent' : null } |
+  { 'pendingApproval' : null } |
+  { 'rejected' : null } |
+  { 'accepted' : null } |
+  { 'draft' : null };
+export interface QuoteStatusChange {
+  'status' : QuoteStatus,
+  'changedBy' : [] | [Principal],
+  'timestamp' : bigint,
+}
+export interface QuoteVerification {
+  'id' : string,
+  'status' : QuoteStatus,
+  'total' : number,
+  'taxableAmount' : number,
+  'discountAmount' : number,
+  'hash' : string,
+  'quoteNumber' : string,
+  'version' : bigint,
+  'currency' : string,
+  'timestamp' : bigint,
+  'taxLabel' : string,
+  'items' : Array<QuoteVerificationItem>,
+  'taxAmount' : number,
+  'taxRate' : number,
+  'validUntil' : bigint,
+  'subtotal' : number,
+  'header' : QuoteHeader,
+}
+export interface QuoteVerificationItem {
+  'total' : number,
+  'duration' : bigint,
+  'subcategory' : string,
+  'discountAmount' : number,
+  'quantity' : bigint,
+  'category' : string,
+  'detailedDescription' : string,
+  'standardCost' : number,
+  'itemRefNo' : string,
+}
+export interface RateCard {
+  'version' : bigint,
+  'items' : Array<RateCardItem>,
+  'effectiveFrom' : bigint,
+}
 export interface RateCardItem {
   'id' : string,
   'subcategory' : string,
@@ -76,6 +283,27 @@ export interface RateCardItem {
   'itemRefNo' : string,
   'opsBriskCost' : number,
 }
+export interface RateCardVersion {
+  'note' : string,
+  'createdAt' : bigint,
+  'createdBy' : Principal,
+  'version' : bigint,
+  'items' : Array<RateCardItem>,
+  'effectiveFrom' : bigint,
+}
+export interface RateCardVersionInfo {
+  'note' : string,
+  'createdAt' : bigint,
+  'createdBy' : Principal,
+  'itemCount' : bigint,
+  'version' : bigint,
+  'effectiveFrom' : bigint,
+}
+export interface ScenarioAnalysis {
+  'scenario' : PricingScenario,
+  'analysis' : AnalysisSummary,
+}
+export interface TaxSettings { 'name' : string, 'rate' : number }
 export interface UploadedFile {
   'id' : string,
   'contentType' : string,
@@ -93,6 +321,11 @@ export interface UserProfile {
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface UserSummary {
+  'principal' : Principal,
+  'role' : UserRole,
+  'profile' : [] | [UserProfile],
+}
 export interface _CaffeineStorageCreateCertificateResult {
   'method' : string,
   'blob_hash' : string,
@@ -122,37 +355,111 @@ export interface _SERVICE {
   '_caffeineStorageUpdateGatewayPrincipals' : ActorMethod<[], undefined>,
   'addAccountManager' : ActorMethod<[AccountManager], undefined>,
   'addRateCardItem' : ActorMethod<[RateCardItem], undefined>,
+  'analyzeQuote' : ActorMethod<
+    [string, Array<[string, number]>],
+    AnalysisSummary
+  >,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
+  'assignUserAccountManager' : ActorMethod<[Principal, string], undefined>,
+  'decideQuoteApproval' : ActorMethod<
+    [string, boolean, string],
+    QuoteHistoryItem
+  >,
   'deleteAccountManager' : ActorMethod<[string], undefined>,
+  'deleteExchangeRate' : ActorMethod<[string], undefined>,
+  'deletePdfTemplate' : ActorMethod<[string], undefined>,
+  'deleteQuoteScenario' : ActorMethod<[string], undefined>,
   'deleteRateCardItem' : ActorMethod<[string], undefined>,
   'generateAnalysis' : ActorMethod<
-    [Array<[string, bigint, bigint]>],
+    [Array<[string, bigint, bigint, [] | [Discount]]>, [] | [Discount], string],
     AnalysisSummary
   >,
   'generateFullQuote' : ActorMethod<
-    [QuoteHeader, Array<[string, bigint, bigint]>],
+    [
+      QuoteHeader,
+      Array<[string, bigint, bigint, [] | [Discount]]>,
+      [] | [Discount],
+      bigint,
+      [] | [string],
+      string,
+    ],
     FullQuote
   >,
   'generateQuote' : ActorMethod<[Array<[string, bigint, bigint]>], Quote>,
+  'getAccountManagerLeaderboard' : ActorMethod<
+    [DashboardFilter],
+    Array<AccountManagerPerformance>
+  >,
   'getAccountManagers' : ActorMethod<[], AccountManagerList>,
   'getAllRateCardItems' : ActorMethod<[], Array<RateCardItem>>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
-  'getQuoteHistory' : ActorMethod<[], Array<QuoteHistoryItem>>,
+  'getDashboardFilterOptions' : ActorMethod<[], DashboardFilterOptions>,
+  'getDashboardSummary' : ActorMethod<[DashboardFilter], DashboardSummary>,
+  'getDashboardTimeline' : ActorMethod<
+    [DashboardFilter, Array<bigint>],
+    Array<DashboardPeriod>
+  >,
+  'getDashboardTopCategories' : ActorMethod<
+    [DashboardFilter, bigint],
+    Array<CategoryAnalysis>
+  >,
+  'getDashboardTopItems' : ActorMethod<
+    [DashboardFilter, bigint],
+    Array<DashboardItem>
+  >,
+  'getExchangeRates' : ActorMethod<[], Array<ExchangeRate>>,
+  'getLocaleSettings' : ActorMethod<[], LocaleSettings>,
+  'getMarginThresholds' : ActorMethod<[], MarginThresholds>,
+  'getPdfTemplate' : ActorMethod<[string], [] | [PdfTemplate]>,
+  'getPdfTemplates' : ActorMethod<[], Array<PdfTemplate>>,
+  'getPendingApprovals' : ActorMethod<[], Array<QuoteHistoryItem>>,
+  'getQuoteHash' : ActorMethod<[string], string>,
+  'getQuoteHistory' : ActorMethod<[[] | [Principal]], Array<QuoteHistoryItem>>,
   'getQuoteHistoryItem' : ActorMethod<[string], [] | [QuoteHistoryItem]>,
+  'getQuoteNumberPrefix' : ActorMethod<[], string>,
+  'getQuoteScenarios' : ActorMethod<[string], Array<ScenarioAnalysis>>,
+  'getQuoteVersions' : ActorMethod<[string], Array<QuoteHistoryItem>>,
   'getRateCard' : ActorMethod<[], RateCard>,
+  'getRateCardAt' : ActorMethod<[bigint], [] | [RateCardVersion]>,
   'getRateCardItem' : ActorMethod<[string], [] | [RateCardItem]>,
+  'getRateCardVersion' : ActorMethod<[bigint], [] | [RateCardVersion]>,
+  'getRateCardVersions' : ActorMethod<[], Array<RateCardVersionInfo>>,
+  'getTaxSettings' : ActorMethod<[], TaxSettings>,
   'getUploadedFiles' : ActorMethod<[], Array<UploadedFile>>,
   'getUserProfile' : ActorMethod<[string], [] | [UserProfile]>,
   'initializeAccessControl' : ActorMethod<[], undefined>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
+  'listUsers' : ActorMethod<[], Array<UserSummary>>,
+  'promoteQuoteScenario' : ActorMethod<[string, bigint], FullQuote>,
+  'revokeUserRole' : ActorMethod<[Principal], undefined>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
+  'savePdfTemplate' : ActorMethod<[PdfTemplate], undefined>,
+  'saveQuoteScenario' : ActorMethod<
+    [string, string, Array<[string, number]>],
+    PricingScenario
+  >,
+  'setExchangeRate' : ActorMethod<[string, number], undefined>,
+  'solveQuotePricing' : ActorMethod<
+    [string, Array<[string, number]>, PricingSolverRequest],
+    PricingSolution
+  >,
   'trackUploadedFile' : ActorMethod<[UploadedFile], undefined>,
   'updateAccountManager' : ActorMethod<[AccountManager], undefined>,
   'updateAccountManagers' : ActorMethod<[Array<AccountManager>], undefined>,
-  'updateRateCard' : ActorMethod<[Array<RateCardItem>], undefined>,
+  'updateLocaleSettings' : ActorMethod<[LocaleSettings], undefined>,
+  'updateMarginThresholds' : ActorMethod<[MarginThresholds], undefined>,
+  'updateQuoteNumberPrefix' : ActorMethod<[string], undefined>,
+  'updateQuoteStatus' : ActorMethod<[string, QuoteStatus], QuoteHistoryItem>,
+  'updateRateCard' : ActorMethod<
+    [Array<RateCardItem>, [] | [bigint], string],
+    undefined
+  >,
   'updateRateCardItem' : ActorMethod<[RateCardItem], undefined>,
   'updateStandardCost' : ActorMethod<[string, number], undefined>,
+  'updateStandardCosts' : ActorMethod<[Array<[string, number]>], undefined>,
+  'updateTaxSettings' : ActorMethod<[TaxSettings], undefined>,
+  'verifyQuote' : ActorMethod<[string, string], [] | [QuoteVerification]>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -33,41 +33,84 @@ export const RateCardItem = IDL.Record({
   'itemRefNo' : IDL.Text,
   'opsBriskCost' : IDL.Float64,
 });
-export const UserRole = IDL.Variant({
-  'admin' : IDL.Null,
-  'user' : IDL.Null,
-  'guest' : IDL.Null,
+export const CategoryAnalysis = IDL.Record({
+  'revenue' : IDL.Float64,
+  'grossProfit' : IDL.Float64,
+  'marginPercentage' : IDL.Float64,
+  'cost' : IDL.Float64,
+  'itemCount' : IDL.Nat,
+  'category' : IDL.Text,
 });
 export const AnalysisItem = IDL.Record({
   'id' : IDL.Text,
-  'total' : IDL.Float64,
   'duration' : IDL.Nat,
+  'revenue' : IDL.Float64,
   'subcategory' : IDL.Text,
+  'grossProfit' : IDL.Float64,
   'marginPercentage' : IDL.Float64,
+  'cost' : IDL.Float64,
+  'discountAmount' : IDL.Float64,
   'quantity' : IDL.Nat,
   'category' : IDL.Text,
-  'margin' : IDL.Float64,
   'detailedDescription' : IDL.Text,
   'standardCost' : IDL.Float64,
   'itemRefNo' : IDL.Text,
   'opsBriskCost' : IDL.Float64,
 });
 export const AnalysisSummary = IDL.Record({
-  'totalProfit' : IDL.Float64,
-  'totalMargin' : IDL.Float64,
+  'categories' : IDL.Vec(CategoryAnalysis),
+  'grossProfit' : IDL.Float64,
+  'marginPercentage' : IDL.Float64,
+  'discountAmount' : IDL.Float64,
+  'totalCost' : IDL.Float64,
+  'currency' : IDL.Text,
   'items' : IDL.Vec(AnalysisItem),
+  'totalRevenue' : IDL.Float64,
 });
-export const QuoteHeader = IDL.Record({
-  'projectDuration' : IDL.Text,
-  'projectName' : IDL.Text,
-  'clientName' : IDL.Text,
-  'accountManager' : IDL.Text,
+export const UserRole = IDL.Variant({
+  'admin' : IDL.Null,
+  'user' : IDL.Null,
+  'guest' : IDL.Null,
+});
+export const QuoteStatus = IDL.Variant({
+  'expired' : IDL.Null,
+  'sent' : IDL.Null,
+  'pendingApproval' : IDL.Null,
+  'rejected' : IDL.Null,
+  'accepted' : IDL.Null,
+  'draft' : IDL.Null,
+});
+export const QuoteStatusChange = IDL.Record({
+  'status' : QuoteStatus,
+  'changedBy' : IDL.Opt(IDL.Principal),
+  'timestamp' : IDL.Int,
+});
+export const ApprovalDecision = IDL.Record({
+  'comment' : IDL.Text,
+  'approved' : IDL.Bool,
+  'timestamp' : IDL.Int,
+  'decidedBy' : IDL.Principal,
+});
+export const DiscountType = IDL.Variant({
+  'fixed' : IDL.Null,
+  'percentage' : IDL.Null,
+});
+export const Discount = IDL.Record({
+  'value' : IDL.Float64,
+  'discountType' : DiscountType,
+});
+export const MarginBreach = IDL.Record({
+  'threshold' : IDL.Float64,
+  'marginPercentage' : IDL.Float64,
+  'category' : IDL.Opt(IDL.Text),
 });
 export const QuoteItem = IDL.Record({
   'id' : IDL.Text,
   'total' : IDL.Float64,
   'duration' : IDL.Nat,
   'subcategory' : IDL.Text,
+  'discountAmount' : IDL.Float64,
+  'discount' : IDL.Opt(Discount),
   'quantity' : IDL.Nat,
   'category' : IDL.Text,
   'detailedDescription' : IDL.Text,
@@ -75,15 +118,77 @@ export const QuoteItem = IDL.Record({
   'itemRefNo' : IDL.Text,
   'opsBriskCost' : IDL.Float64,
 });
+export const QuoteHeader = IDL.Record({
+  'projectDuration' : IDL.Text,
+  'projectName' : IDL.Text,
+  'clientName' : IDL.Text,
+  'accountManager' : IDL.Text,
+});
+export const QuoteHistoryItem = IDL.Record({
+  'id' : IDL.Text,
+  'status' : QuoteStatus,
+  'total' : IDL.Float64,
+  'taxableAmount' : IDL.Float64,
+  'discountAmount' : IDL.Float64,
+  'createdBy' : IDL.Principal,
+  'statusHistory' : IDL.Vec(QuoteStatusChange),
+  'quoteNumber' : IDL.Text,
+  'version' : IDL.Nat,
+  'exchangeRate' : IDL.Float64,
+  'accountManagerId' : IDL.Text,
+  'approval' : IDL.Opt(ApprovalDecision),
+  'quoteDiscount' : IDL.Opt(Discount),
+  'currency' : IDL.Text,
+  'timestamp' : IDL.Int,
+  'taxLabel' : IDL.Text,
+  'marginBreaches' : IDL.Vec(MarginBreach),
+  'items' : IDL.Vec(QuoteItem),
+  'taxAmount' : IDL.Float64,
+  'rateCardVersion' : IDL.Nat,
+  'taxRate' : IDL.Float64,
+  'validUntil' : IDL.Int,
+  'subtotal' : IDL.Float64,
+  'header' : QuoteHeader,
+});
 export const FullQuote = IDL.Record({
+  'status' : QuoteStatus,
   'total' : IDL.Float64,
+  'taxableAmount' : IDL.Float64,
+  'discountAmount' : IDL.Float64,
+  'quoteNumber' : IDL.Text,
+  'version' : IDL.Nat,
+  'exchangeRate' : IDL.Float64,
+  'quoteDiscount' : IDL.Opt(Discount),
+  'currency' : IDL.Text,
+  'timestamp' : IDL.Int,
+  'taxLabel' : IDL.Text,
+  'marginBreaches' : IDL.Vec(MarginBreach),
   'items' : IDL.Vec(QuoteItem),
+  'taxAmount' : IDL.Float64,
+  'taxRate' : IDL.Float64,
+  'subtotal' : IDL.Float64,
   'header' : QuoteHeader,
 });
 export const Quote = IDL.Record({
   'total' : IDL.Float64,
   'items' : IDL.Vec(QuoteItem),
 });
+export const DashboardFilter = IDL.Record({
+  'to' : IDL.Opt(IDL.Int),
+  'clientName' : IDL.Opt(IDL.Text),
+  'from' : IDL.Opt(IDL.Int),
+  'accountManager' : IDL.Opt(IDL.Text),
+});
+export const AccountManagerPerformance = IDL.Record({
+  'quoteCount' : IDL.Nat,
+  'marginPercentage' : IDL.Float64,
+  'quotedValue' : IDL.Float64,
+  'accountManager' : IDL.Text,
+  'wonValue' : IDL.Float64,
+  'wonCount' : IDL.Nat,
+  'lostCount' : IDL.Nat,
+  'winRate' : IDL.Float64,
+});
 export const AccountManagerList = IDL.Record({
   'managers' : IDL.Vec(AccountManager),
 });
@@ -94,14 +199,107 @@ export const UserProfile = IDL.Record({
   'accountManagerId' : IDL.Text,
   'phone' : IDL.Text,
 });
-export const QuoteHistoryItem = IDL.Record({
+export const DashboardFilterOptions = IDL.Record({
+  'accountManagers' : IDL.Vec(IDL.Text),
+  'clientNames' : IDL.Vec(IDL.Text),
+});
+export const DashboardSummary = IDL.Record({
+  'quoteCount' : IDL.Nat,
+  'grossProfit' : IDL.Float64,
+  'marginPercentage' : IDL.Float64,
+  'quotedValue' : IDL.Float64,
+  'wonValue' : IDL.Float64,
+  'totalCost' : IDL.Float64,
+  'wonCount' : IDL.Nat,
+  'currency' : IDL.Text,
+  'lostCount' : IDL.Nat,
+  'totalRevenue' : IDL.Float64,
+  'winRate' : IDL.Float64,
+});
+export const DashboardPeriod = IDL.Record({
+  'quoteCount' : IDL.Nat,
+  'marginPercentage' : IDL.Float64,
+  'quotedValue' : IDL.Float64,
+  'wonValue' : IDL.Float64,
+  'start' : IDL.Int,
+});
+export const DashboardItem = IDL.Record({
+  'revenue' : IDL.Float64,
+  'grossProfit' : IDL.Float64,
+  'marginPercentage' : IDL.Float64,
+  'cost' : IDL.Float64,
+  'lineCount' : IDL.Nat,
+  'quantity' : IDL.Nat,
+  'category' : IDL.Text,
+  'detailedDescription' : IDL.Text,
+  'itemRefNo' : IDL.Text,
+});
+export const ExchangeRate = IDL.Record({
+  'rate' : IDL.Float64,
+  'updatedAt' : IDL.Int,
+  'currency' : IDL.Text,
+});
+export const LocaleSettings = IDL.Record({
+  'locale' : IDL.Text,
+  'timeZone' : IDL.Text,
+});
+export const MarginThresholds = IDL.Record({
+  'categories' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+  'overall' : IDL.Float64,
+});
+export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const PdfTemplate = IDL.Record({
   'id' : IDL.Text,
-  'total' : IDL.Float64,
-  'timestamp' : IDL.Int,
-  'items' : IDL.Vec(QuoteItem),
-  'header' : QuoteHeader,
+  'primaryColor' : IDL.Text,
+  'logo' : IDL.Opt(ExternalBlob),
+  'name' : IDL.Text,
+  'accentColor' : IDL.Text,
+  'fontFamily' : IDL.Text,
+  'isDefault' : IDL.Bool,
+  'companyName' : IDL.Text,
+  'analysisTitle' : IDL.Text,
+  'addressBlock' : IDL.Text,
+  'textColor' : IDL.Text,
+  'quoteTitle' : IDL.Text,
+  'footerText' : IDL.Text,
+});
+export const PricingScenario = IDL.Record({
+  'id' : IDL.Text,
+  'standardCosts' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+  'name' : IDL.Text,
+  'createdBy' : IDL.Principal,
+  'quoteId' : IDL.Text,
+  'updatedAt' : IDL.Int,
+});
+export const ScenarioAnalysis = IDL.Record({
+  'scenario' : PricingScenario,
+  'analysis' : AnalysisSummary,
+});
+export const RateCard = IDL.Record({
+  'version' : IDL.Nat,
+  'items' : IDL.Vec(RateCardItem),
+  'effectiveFrom' : IDL.Int,
+});
+export const RateCardVersion = IDL.Record({
+  'note' : IDL.Text,
+  'createdAt' : IDL.Int,
+  'createdBy' : IDL.Principal,
+  'version' : IDL.Nat,
+  'items' : IDL.Vec(RateCardItem),
+  'effectiveFrom' : IDL.Int,
+});
+export const RateCardVersionInfo = IDL.Record({
+  'note' : IDL.Text,
+  'createdAt' : IDL.Int,
+  'createdBy' : IDL.Principal,
+  'itemCount' : IDL.Nat,
+  'version' : IDL.Nat,
+  'effectiveFrom' : IDL.Int,
+});
+export const TaxSettings = IDL.Record({
+  'name' : IDL.Text,
+  'rate' : IDL.Float64,
 });
-export const RateCard = IDL.Record({ 'items' : IDL.Vec(RateCardItem) });
 export const UploadedFile = IDL.Record({
   'id' : IDL.Text,
   'contentType' : IDL.Text,
@@ -109,6 +307,56 @@ export const UploadedFile = IDL.Record({
   'size' : IDL.Nat,
   'blobId' : IDL.Text,
 });
+export const UserSummary = IDL.Record({
+  'principal' : IDL.Principal,
+  'role' : UserRole,
+  'profile' : IDL.Opt(UserProfile),
+});
+export const PricingTarget = IDL.Variant({
+  'marginPercentage' : IDL.Float64,
+  'grandTotal' : IDL.Float64,
+});
+export const PricingSolverRequest = IDL.Record({
+  'categories' : IDL.Vec(IDL.Text),
+  'target' : PricingTarget,
+  'minimumMarginPercentage' : IDL.Float64,
+});
+export const PricingSolution = IDL.Record({
+  'standardCosts' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+  'grandTotal' : IDL.Float64,
+  'analysis' : AnalysisSummary,
+  'reachable' : IDL.Bool,
+});
+export const QuoteVerificationItem = IDL.Record({
+  'total' : IDL.Float64,
+  'duration' : IDL.Nat,
+  'subcategory' : IDL.Text,
+  'discountAmount' : IDL.Float64,
+  'quantity' : IDL.Nat,
+  'category' : IDL.Text,
+  'detailedDescription' : IDL.Text,
+  'standardCost' : IDL.Float64,
+  'itemRefNo' : IDL.Text,
+});
+export const QuoteVerification = IDL.Record({
+  'id' : IDL.Text,
+  'status' : QuoteStatus,
+  'total' : IDL.Float64,
+  'taxableAmount' : IDL.Float64,
+  'discountAmount' : IDL.Float64,
+  'hash' : IDL.Text,
+  'quoteNumber' : IDL.Text,
+  'version' : IDL.Nat,
+  'currency' : IDL.Text,
+  'timestamp' : IDL.Int,
+  'taxLabel' : IDL.Text,
+  'items' : IDL.Vec(QuoteVerificationItem),
+  'taxAmount' : IDL.Float64,
+  'taxRate' : IDL.Float64,
+  'validUntil' : IDL.Int,
+  'subtotal' : IDL.Float64,
+  'header' : QuoteHeader,
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -139,16 +387,41 @@ export const idlService = IDL.Service({
   '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
   'addAccountManager' : IDL.Func([AccountManager], [], []),
   'addRateCardItem' : IDL.Func([RateCardItem], [], []),
+  'analyzeQuote' : IDL.Func(
+      [IDL.Text, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+      [AnalysisSummary],
+      ['query'],
+    ),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+  'assignUserAccountManager' : IDL.Func([IDL.Principal, IDL.Text], [], []),
+  'decideQuoteApproval' : IDL.Func(
+      [IDL.Text, IDL.Bool, IDL.Text],
+      [QuoteHistoryItem],
+      [],
+    ),
   'deleteAccountManager' : IDL.Func([IDL.Text], [], []),
+  'deleteExchangeRate' : IDL.Func([IDL.Text], [], []),
+  'deletePdfTemplate' : IDL.Func([IDL.Text], [], []),
+  'deleteQuoteScenario' : IDL.Func([IDL.Text], [], []),
   'deleteRateCardItem' : IDL.Func([IDL.Text], [], []),
   'generateAnalysis' : IDL.Func(
-      [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat))],
+      [
+        IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat, IDL.Opt(Discount))),
+        IDL.Opt(Discount),
+        IDL.Text,
+      ],
       [AnalysisSummary],
       [],
     ),
   'generateFullQuote' : IDL.Func(
-      [QuoteHeader, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat))],
+      [
+        QuoteHeader,
+        IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat, IDL.Opt(Discount))),
+        IDL.Opt(Discount),
+        IDL.Nat,
+        IDL.Opt(IDL.Text),
+        IDL.Text,
+      ],
       [FullQuote],
       [],
     ),
@@ -157,29 +430,135 @@ export const idlService = IDL.Service({
       [Quote],
       [],
     ),
+  'getAccountManagerLeaderboard' : IDL.Func(
+      [DashboardFilter],
+      [IDL.Vec(AccountManagerPerformance)],
+      ['query'],
+    ),
   'getAccountManagers' : IDL.Func([], [AccountManagerList], ['query']),
   'getAllRateCardItems' : IDL.Func([], [IDL.Vec(RateCardItem)], ['query']),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-  'getQuoteHistory' : IDL.Func([], [IDL.Vec(QuoteHistoryItem)], ['query']),
+  'getDashboardFilterOptions' : IDL.Func(
+      [],
+      [DashboardFilterOptions],
+      ['query'],
+    ),
+  'getDashboardSummary' : IDL.Func(
+      [DashboardFilter],
+      [DashboardSummary],
+      ['query'],
+    ),
+  'getDashboardTimeline' : IDL.Func(
+      [DashboardFilter, IDL.Vec(IDL.Int)],
+      [IDL.Vec(DashboardPeriod)],
+      ['query'],
+    ),
+  'getDashboardTopCategories' : IDL.Func(
+      [DashboardFilter, IDL.Nat],
+      [IDL.Vec(CategoryAnalysis)],
+      ['query'],
+    ),
+  'getDashboardTopItems' : IDL.Func(
+      [DashboardFilter, IDL.Nat],
+      [IDL.Vec(DashboardItem)],
+      ['query'],
+    ),
+  'getExchangeRates' : IDL.Func([], [IDL.Vec(ExchangeRate)], ['query']),
+  'getLocaleSettings' : IDL.Func([], [LocaleSettings], ['query']),
+  'getMarginThresholds' : IDL.Func([], [MarginThresholds], ['query']),
+  'getPdfTemplate' : IDL.Func([IDL.Text], [IDL.Opt(PdfTemplate)], ['query']),
+  'getPdfTemplates' : IDL.Func([], [IDL.Vec(PdfTemplate)], ['query']),
+  'getPendingApprovals' : IDL.Func([], [IDL.Vec(QuoteHistoryItem)], ['query']),
+  'getQuoteHash' : IDL.Func([IDL.Text], [IDL.Text], ['query']),
+  'getQuoteHistory' : IDL.Func(
+      [IDL.Opt(IDL.Principal)],
+      [IDL.Vec(QuoteHistoryItem)],
+      ['query'],
+    ),
   'getQuoteHistoryItem' : IDL.Func(
       [IDL.Text],
       [IDL.Opt(QuoteHistoryItem)],
       ['query'],
     ),
+  'getQuoteNumberPrefix' : IDL.Func([], [IDL.Text], ['query']),
+  'getQuoteScenarios' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(ScenarioAnalysis)],
+      ['query'],
+    ),
+  'getQuoteVersions' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(QuoteHistoryItem)],
+      ['query'],
+    ),
   'getRateCard' : IDL.Func([], [RateCard], ['query']),
+  'getRateCardAt' : IDL.Func([IDL.Int], [IDL.Opt(RateCardVersion)], ['query']),
   'getRateCardItem' : IDL.Func([IDL.Text], [IDL.Opt(RateCardItem)], ['query']),
+  'getRateCardVersion' : IDL.Func(
+      [IDL.Nat],
+      [IDL.Opt(RateCardVersion)],
+      ['query'],
+    ),
+  'getRateCardVersions' : IDL.Func(
+      [],
+      [IDL.Vec(RateCardVersionInfo)],
+      ['query'],
+    ),
+  'getTaxSettings' : IDL.Func([], [TaxSettings], ['query']),
   'getUploadedFiles' : IDL.Func([], [IDL.Vec(UploadedFile)], ['query']),
   'getUserProfile' : IDL.Func([IDL.Text], [IDL.Opt(UserProfile)], ['query']),
   'initializeAccessControl' : IDL.Func([], [], []),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+  'listUsers' : IDL.Func([], [IDL.Vec(UserSummary)], ['query']),
+  'promoteQuoteScenario' : IDL.Func([IDL.Text, IDL.Nat], [FullQuote], []),
+  'revokeUserRole' : IDL.Func([IDL.Principal], [], []),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+  'savePdfTemplate' : IDL.Func([PdfTemplate], [], []),
+  'saveQuoteScenario' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+      [PricingScenario],
+      [],
+    ),
+  'setExchangeRate' : IDL.Func([IDL.Text, IDL.Float64], [], []),
+  'solveQuotePricing' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+        PricingSolverRequest,
+      ],
+      [PricingSolution],
+      ['query'],
+    ),
   'trackUploadedFile' : IDL.Func([UploadedFile], [], []),
   'updateAccountManager' : IDL.Func([AccountManager], [], []),
   'updateAccountManagers' : IDL.Func([IDL.Vec(AccountManager)], [], []),
-  'updateRateCard' : IDL.Func([IDL.Vec(RateCardItem)], [], []),
+  'updateLocaleSettings' : IDL.Func([LocaleSettings], [], []),
+  'updateMarginThresholds' : IDL.Func([MarginThresholds], [], []),
+  'updateQuoteNumberPrefix' : IDL.Func([IDL.Text], [], []),
+  'updateQuoteStatus' : IDL.Func(
+      [IDL.Text, QuoteStatus],
+      [QuoteHistoryItem],
+      [],
+    ),
+  'updateRateCard' : IDL.Func(
+      [IDL.Vec(RateCardItem), IDL.Opt(IDL.Int), IDL.Text],
+      [],
+      [],
+    ),
   'updateRateCardItem' : IDL.Func([RateCardItem], [], []),
   'updateStandardCost' : IDL.Func([IDL.Text, IDL.Float64], [], []),
+  'updateStandardCosts' : IDL.Func(
+      [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+      [],
+      [],
+    ),
+  'updateTaxSettings' : IDL.Func([TaxSettings], [], []),
+  'verifyQuote' : IDL.Func(
+      [IDL.Text, IDL.Text],
+      [IDL.Opt(QuoteVerification)],
+      ['query'],
+    ),
 });
 
 export const idlInitArgs = [];
@@ -210,41 +589,84 @@ export const idlFactory = ({ IDL }) => {
     'itemRefNo' : IDL.Text,
     'opsBriskCost' : IDL.Float64,
   });
-  const UserRole = IDL.Variant({
-    'admin' : IDL.Null,
-    'user' : IDL.Null,
-    'guest' : IDL.Null,
+  const CategoryAnalysis = IDL.Record({
+    'revenue' : IDL.Float64,
+    'grossProfit' : IDL.Float64,
+    'marginPercentage' : IDL.Float64,
+    'cost' : IDL.Float64,
+    'itemCount' : IDL.Nat,
+    'category' : IDL.Text,
   });
   const AnalysisItem = IDL.Record({
     'id' : IDL.Text,
-    'total' : IDL.Float64,
     'duration' : IDL.Nat,
+    'revenue' : IDL.Float64,
     'subcategory' : IDL.Text,
+    'grossProfit' : IDL.Float64,
     'marginPercentage' : IDL.Float64,
+    'cost' : IDL.Float64,
+    'discountAmount' : IDL.Float64,
     'quantity' : IDL.Nat,
     'category' : IDL.Text,
-    'margin' : IDL.Float64,
     'detailedDescription' : IDL.Text,
     'standardCost' : IDL.Float64,
     'itemRefNo' : IDL.Text,
     'opsBriskCost' : IDL.Float64,
   });
   const AnalysisSummary = IDL.Record({
-    'totalProfit' : IDL.Float64,
-    'totalMargin' : IDL.Float64,
+    'categories' : IDL.Vec(CategoryAnalysis),
+    'grossProfit' : IDL.Float64,
+    'marginPercentage' : IDL.Float64,
+    'discountAmount' : IDL.Float64,
+    'totalCost' : IDL.Float64,
+    'currency' : IDL.Text,
     'items' : IDL.Vec(AnalysisItem),
+    'totalRevenue' : IDL.Float64,
   });
-  const QuoteHeader = IDL.Record({
-    'projectDuration' : IDL.Text,
-    'projectName' : IDL.Text,
-    'clientName' : IDL.Text,
-    'accountManager' : IDL.Text,
+  const UserRole = IDL.Variant({
+    'admin' : IDL.Null,
+    'user' : IDL.Null,
+    'guest' : IDL.Null,
+  });
+  const QuoteStatus = IDL.Variant({
+    'expired' : IDL.Null,
+    'sent' : IDL.Null,
+    'pendingApproval' : IDL.Null,
+    'rejected' : IDL.Null,
+    'accepted' : IDL.Null,
+    'draft' : IDL.Null,
+  });
+  const QuoteStatusChange = IDL.Record({
+    'status' : QuoteStatus,
+    'changedBy' : IDL.Opt(IDL.Principal),
+    'timestamp' : IDL.Int,
+  });
+  const ApprovalDecision = IDL.Record({
+    'comment' : IDL.Text,
+    'approved' : IDL.Bool,
+    'timestamp' : IDL.Int,
+    'decidedBy' : IDL.Principal,
+  });
+  const DiscountType = IDL.Variant({
+    'fixed' : IDL.Null,
+    'percentage' : IDL.Null,
+  });
+  const Discount = IDL.Record({
+    'value' : IDL.Float64,
+    'discountType' : DiscountType,
+  });
+  const MarginBreach = IDL.Record({
+    'threshold' : IDL.Float64,
+    'marginPercentage' : IDL.Float64,
+    'category' : IDL.Opt(IDL.Text),
   });
   const QuoteItem = IDL.Record({
     'id' : IDL.Text,
     'total' : IDL.Float64,
     'duration' : IDL.Nat,
     'subcategory' : IDL.Text,
+    'discountAmount' : IDL.Float64,
+    'discount' : IDL.Opt(Discount),
     'quantity' : IDL.Nat,
     'category' : IDL.Text,
     'detailedDescription' : IDL.Text,
@@ -252,15 +674,77 @@ export const idlFactory = ({ IDL }) => {
     'itemRefNo' : IDL.Text,
     'opsBriskCost' : IDL.Float64,
   });
+  const QuoteHeader = IDL.Record({
+    'projectDuration' : IDL.Text,
+    'projectName' : IDL.Text,
+    'clientName' : IDL.Text,
+    'accountManager' : IDL.Text,
+  });
+  const QuoteHistoryItem = IDL.Record({
+    'id' : IDL.Text,
+    'status' : QuoteStatus,
+    'total' : IDL.Float64,
+    'taxableAmount' : IDL.Float64,
+    'discountAmount' : IDL.Float64,
+    'createdBy' : IDL.Principal,
+    'statusHistory' : IDL.Vec(QuoteStatusChange),
+    'quoteNumber' : IDL.Text,
+    'version' : IDL.Nat,
+    'exchangeRate' : IDL.Float64,
+    'accountManagerId' : IDL.Text,
+    'approval' : IDL.Opt(ApprovalDecision),
+    'quoteDiscount' : IDL.Opt(Discount),
+    'currency' : IDL.Text,
+    'timestamp' : IDL.Int,
+    'taxLabel' : IDL.Text,
+    'marginBreaches' : IDL.Vec(MarginBreach),
+    'items' : IDL.Vec(QuoteItem),
+    'taxAmount' : IDL.Float64,
+    'rateCardVersion' : IDL.Nat,
+    'taxRate' : IDL.Float64,
+    'validUntil' : IDL.Int,
+    'subtotal' : IDL.Float64,
+    'header' : QuoteHeader,
+  });
   const FullQuote = IDL.Record({
+    'status' : QuoteStatus,
     'total' : IDL.Float64,
+    'taxableAmount' : IDL.Float64,
+    'discountAmount' : IDL.Float64,
+    'quoteNumber' : IDL.Text,
+    'version' : IDL.Nat,
+    'exchangeRate' : IDL.Float64,
+    'quoteDiscount' : IDL.Opt(Discount),
+    'currency' : IDL.Text,
+    'timestamp' : IDL.Int,
+    'taxLabel' : IDL.Text,
+    'marginBreaches' : IDL.Vec(MarginBreach),
     'items' : IDL.Vec(QuoteItem),
+    'taxAmount' : IDL.Float64,
+    'taxRate' : IDL.Float64,
+    'subtotal' : IDL.Float64,
     'header' : QuoteHeader,
   });
   const Quote = IDL.Record({
     'total' : IDL.Float64,
     'items' : IDL.Vec(QuoteItem),
   });
+  const DashboardFilter = IDL.Record({
+    'to' : IDL.Opt(IDL.Int),
+    'clientName' : IDL.Opt(IDL.Text),
+    'from' : IDL.Opt(IDL.Int),
+    'accountManager' : IDL.Opt(IDL.Text),
+  });
+  const AccountManagerPerformance = IDL.Record({
+    'quoteCount' : IDL.Nat,
+    'marginPercentage' : IDL.Float64,
+    'quotedValue' : IDL.Float64,
+    'accountManager' : IDL.Text,
+    'wonValue' : IDL.Float64,
+    'wonCount' : IDL.Nat,
+    'lostCount' : IDL.Nat,
+    'winRate' : IDL.Float64,
+  });
   const AccountManagerList = IDL.Record({
     'managers' : IDL.Vec(AccountManager),
   });
@@ -271,14 +755,104 @@ export const idlFactory = ({ IDL }) => {
     'accountManagerId' : IDL.Text,
     'phone' : IDL.Text,
   });
-  const QuoteHistoryItem = IDL.Record({
+  const DashboardFilterOptions = IDL.Record({
+    'accountManagers' : IDL.Vec(IDL.Text),
+    'clientNames' : IDL.Vec(IDL.Text),
+  });
+  const DashboardSummary = IDL.Record({
+    'quoteCount' : IDL.Nat,
+    'grossProfit' : IDL.Float64,
+    'marginPercentage' : IDL.Float64,
+    'quotedValue' : IDL.Float64,
+    'wonValue' : IDL.Float64,
+    'totalCost' : IDL.Float64,
+    'wonCount' : IDL.Nat,
+    'currency' : IDL.Text,
+    'lostCount' : IDL.Nat,
+    'totalRevenue' : IDL.Float64,
+    'winRate' : IDL.Float64,
+  });
+  const DashboardPeriod = IDL.Record({
+    'quoteCount' : IDL.Nat,
+    'marginPercentage' : IDL.Float64,
+    'quotedValue' : IDL.Float64,
+    'wonValue' : IDL.Float64,
+    'start' : IDL.Int,
+  });
+  const DashboardItem = IDL.Record({
+    'revenue' : IDL.Float64,
+    'grossProfit' : IDL.Float64,
+    'marginPercentage' : IDL.Float64,
+    'cost' : IDL.Float64,
+    'lineCount' : IDL.Nat,
+    'quantity' : IDL.Nat,
+    'category' : IDL.Text,
+    'detailedDescription' : IDL.Text,
+    'itemRefNo' : IDL.Text,
+  });
+  const ExchangeRate = IDL.Record({
+    'rate' : IDL.Float64,
+    'updatedAt' : IDL.Int,
+    'currency' : IDL.Text,
+  });
+  const LocaleSettings = IDL.Record({
+    'locale' : IDL.Text,
+    'timeZone' : IDL.Text,
+  });
+  const MarginThresholds = IDL.Record({
+    'categories' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+    'overall' : IDL.Float64,
+  });
+  const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const PdfTemplate = IDL.Record({
     'id' : IDL.Text,
-    'total' : IDL.Float64,
-    'timestamp' : IDL.Int,
-    'items' : IDL.Vec(QuoteItem),
-    'header' : QuoteHeader,
+    'primaryColor' : IDL.Text,
+    'logo' : IDL.Opt(ExternalBlob),
+    'name' : IDL.Text,
+    'accentColor' : IDL.Text,
+    'fontFamily' : IDL.Text,
+    'isDefault' : IDL.Bool,
+    'companyName' : IDL.Text,
+    'analysisTitle' : IDL.Text,
+    'addressBlock' : IDL.Text,
+    'textColor' : IDL.Text,
+    'quoteTitle' : IDL.Text,
+    'footerText' : IDL.Text,
+  });
+  const PricingScenario = IDL.Record({
+    'id' : IDL.Text,
+    'standardCosts' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+    'name' : IDL.Text,
+    'createdBy' : IDL.Principal,
+    'quoteId' : IDL.Text,
+    'updatedAt' : IDL.Int,
+  });
+  const ScenarioAnalysis = IDL.Record({
+    'scenario' : PricingScenario,
+    'analysis' : AnalysisSummary,
+  });
+  const RateCard = IDL.Record({
+    'version' : IDL.Nat,
+    'items' : IDL.Vec(RateCardItem),
+    'effectiveFrom' : IDL.Int,
+  });
+  const RateCardVersion = IDL.Record({
+    'note' : IDL.Text,
+    'createdAt' : IDL.Int,
+    'createdBy' : IDL.Principal,
+    'version' : IDL.Nat,
+    'items' : IDL.Vec(RateCardItem),
+    'effectiveFrom' : IDL.Int,
+  });
+  const RateCardVersionInfo = IDL.Record({
+    'note' : IDL.Text,
+    'createdAt' : IDL.Int,
+    'createdBy' : IDL.Principal,
+    'itemCount' : IDL.Nat,
+    'version' : IDL.Nat,
+    'effectiveFrom' : IDL.Int,
   });
-  const RateCard = IDL.Record({ 'items' : IDL.Vec(RateCardItem) });
+  const TaxSettings = IDL.Record({ 'name' : IDL.Text, 'rate' : IDL.Float64 });
   const UploadedFile = IDL.Record({
     'id' : IDL.Text,
     'contentType' : IDL.Text,
@@ -286,6 +860,56 @@ export const idlFactory = ({ IDL }) => {
     'size' : IDL.Nat,
     'blobId' : IDL.Text,
   });
+  const UserSummary = IDL.Record({
+    'principal' : IDL.Principal,
+    'role' : UserRole,
+    'profile' : IDL.Opt(UserProfile),
+  });
+  const PricingTarget = IDL.Variant({
+    'marginPercentage' : IDL.Float64,
+    'grandTotal' : IDL.Float64,
+  });
+  const PricingSolverRequest = IDL.Record({
+    'categories' : IDL.Vec(IDL.Text),
+    'target' : PricingTarget,
+    'minimumMarginPercentage' : IDL.Float64,
+  });
+  const PricingSolution = IDL.Record({
+    'standardCosts' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+    'grandTotal' : IDL.Float64,
+    'analysis' : AnalysisSummary,
+    'reachable' : IDL.Bool,
+  });
+  const QuoteVerificationItem = IDL.Record({
+    'total' : IDL.Float64,
+    'duration' : IDL.Nat,
+    'subcategory' : IDL.Text,
+    'discountAmount' : IDL.Float64,
+    'quantity' : IDL.Nat,
+    'category' : IDL.Text,
+    'detailedDescription' : IDL.Text,
+    'standardCost' : IDL.Float64,
+    'itemRefNo' : IDL.Text,
+  });
+  const QuoteVerification = IDL.Record({
+    'id' : IDL.Text,
+    'status' : QuoteStatus,
+    'total' : IDL.Float64,
+    'taxableAmount' : IDL.Float64,
+    'discountAmount' : IDL.Float64,
+    'hash' : IDL.Text,
+    'quoteNumber' : IDL.Text,
+    'version' : IDL.Nat,
+    'currency' : IDL.Text,
+    'timestamp' : IDL.Int,
+    'taxLabel' : IDL.Text,
+    'items' : IDL.Vec(QuoteVerificationItem),
+    'taxAmount' : IDL.Float64,
+    'taxRate' : IDL.Float64,
+    'validUntil' : IDL.Int,
+    'subtotal' : IDL.Float64,
+    'header' : QuoteHeader,
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -316,16 +940,41 @@ export const idlFactory = ({ IDL }) => {
     '_caffeineStorageUpdateGatewayPrincipals' : IDL.Func([], [], []),
     'addAccountManager' : IDL.Func([AccountManager], [], []),
     'addRateCardItem' : IDL.Func([RateCardItem], [], []),
+    'analyzeQuote' : IDL.Func(
+        [IDL.Text, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+        [AnalysisSummary],
+        ['query'],
+      ),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
+    'assignUserAccountManager' : IDL.Func([IDL.Principal, IDL.Text], [], []),
+    'decideQuoteApproval' : IDL.Func(
+        [IDL.Text, IDL.Bool, IDL.Text],
+        [QuoteHistoryItem],
+        [],
+      ),
     'deleteAccountManager' : IDL.Func([IDL.Text], [], []),
+    'deleteExchangeRate' : IDL.Func([IDL.Text], [], []),
+    'deletePdfTemplate' : IDL.Func([IDL.Text], [], []),
+    'deleteQuoteScenario' : IDL.Func([IDL.Text], [], []),
     'deleteRateCardItem' : IDL.Func([IDL.Text], [], []),
     'generateAnalysis' : IDL.Func(
-        [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat))],
+        [
+          IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat, IDL.Opt(Discount))),
+          IDL.Opt(Discount),
+          IDL.Text,
+        ],
         [AnalysisSummary],
         [],
       ),
     'generateFullQuote' : IDL.Func(
-        [QuoteHeader, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat))],
+        [
+          QuoteHeader,
+          IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat, IDL.Nat, IDL.Opt(Discount))),
+          IDL.Opt(Discount),
+          IDL.Nat,
+          IDL.Opt(IDL.Text),
+          IDL.Text,
+        ],
         [FullQuote],
         [],
       ),
@@ -334,33 +983,147 @@ export const idlFactory = ({ IDL }) => {
         [Quote],
         [],
       ),
+    'getAccountManagerLeaderboard' : IDL.Func(
+        [DashboardFilter],
+        [IDL.Vec(AccountManagerPerformance)],
+        ['query'],
+      ),
     'getAccountManagers' : IDL.Func([], [AccountManagerList], ['query']),
     'getAllRateCardItems' : IDL.Func([], [IDL.Vec(RateCardItem)], ['query']),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-    'getQuoteHistory' : IDL.Func([], [IDL.Vec(QuoteHistoryItem)], ['query']),
+    'getDashboardFilterOptions' : IDL.Func(
+        [],
+        [DashboardFilterOptions],
+        ['query'],
+      ),
+    'getDashboardSummary' : IDL.Func(
+        [DashboardFilter],
+        [DashboardSummary],
+        ['query'],
+      ),
+    'getDashboardTimeline' : IDL.Func(
+        [DashboardFilter, IDL.Vec(IDL.Int)],
+        [IDL.Vec(DashboardPeriod)],
+        ['query'],
+      ),
+    'getDashboardTopCategories' : IDL.Func(
+        [DashboardFilter, IDL.Nat],
+        [IDL.Vec(CategoryAnalysis)],
+        ['query'],
+      ),
+    'getDashboardTopItems' : IDL.Func(
+        [DashboardFilter, IDL.Nat],
+        [IDL.Vec(DashboardItem)],
+        ['query'],
+      ),
+    'getExchangeRates' : IDL.Func([], [IDL.Vec(ExchangeRate)], ['query']),
+    'getLocaleSettings' : IDL.Func([], [LocaleSettings], ['query']),
+    'getMarginThresholds' : IDL.Func([], [MarginThresholds], ['query']),
+    'getPdfTemplate' : IDL.Func([IDL.Text], [IDL.Opt(PdfTemplate)], ['query']),
+    'getPdfTemplates' : IDL.Func([], [IDL.Vec(PdfTemplate)], ['query']),
+    'getPendingApprovals' : IDL.Func(
+        [],
+        [IDL.Vec(QuoteHistoryItem)],
+        ['query'],
+      ),
+    'getQuoteHash' : IDL.Func([IDL.Text], [IDL.Text], ['query']),
+    'getQuoteHistory' : IDL.Func(
+        [IDL.Opt(IDL.Principal)],
+        [IDL.Vec(QuoteHistoryItem)],
+        ['query'],
+      ),
     'getQuoteHistoryItem' : IDL.Func(
         [IDL.Text],
         [IDL.Opt(QuoteHistoryItem)],
         ['query'],
       ),
+    'getQuoteNumberPrefix' : IDL.Func([], [IDL.Text], ['query']),
+    'getQuoteScenarios' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(ScenarioAnalysis)],
+        ['query'],
+      ),
+    'getQuoteVersions' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(QuoteHistoryItem)],
+        ['query'],
+      ),
     'getRateCard' : IDL.Func([], [RateCard], ['query']),
+    'getRateCardAt' : IDL.Func(
+        [IDL.Int],
+        [IDL.Opt(RateCardVersion)],
+        ['query'],
+      ),
     'getRateCardItem' : IDL.Func(
         [IDL.Text],
         [IDL.Opt(RateCardItem)],
         ['query'],
       ),
+    'getRateCardVersion' : IDL.Func(
+        [IDL.Nat],
+        [IDL.Opt(RateCardVersion)],
+        ['query'],
+      ),
+    'getRateCardVersions' : IDL.Func(
+        [],
+        [IDL.Vec(RateCardVersionInfo)],
+        ['query'],
+      ),
+    'getTaxSettings' : IDL.Func([], [TaxSettings], ['query']),
     'getUploadedFiles' : IDL.Func([], [IDL.Vec(UploadedFile)], ['query']),
     'getUserProfile' : IDL.Func([IDL.Text], [IDL.Opt(UserProfile)], ['query']),
     'initializeAccessControl' : IDL.Func([], [], []),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
+    'listUsers' : IDL.Func([], [IDL.Vec(UserSummary)], ['query']),
+    'promoteQuoteScenario' : IDL.Func([IDL.Text, IDL.Nat], [FullQuote], []),
+    'revokeUserRole' : IDL.Func([IDL.Principal], [], []),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+    'savePdfTemplate' : IDL.Func([PdfTemplate], [], []),
+    'saveQuoteScenario' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+        [PricingScenario],
+        [],
+      ),
+    'setExchangeRate' : IDL.Func([IDL.Text, IDL.Float64], [], []),
+    'solveQuotePricing' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64)),
+          PricingSolverRequest,
+        ],
+        [PricingSolution],
+        ['query'],
+      ),
     'trackUploadedFile' : IDL.Func([UploadedFile], [], []),
     'updateAccountManager' : IDL.Func([AccountManager], [], []),
     'updateAccountManagers' : IDL.Func([IDL.Vec(AccountManager)], [], []),
-    'updateRateCard' : IDL.Func([IDL.Vec(RateCardItem)], [], []),
+    'updateLocaleSettings' : IDL.Func([LocaleSettings], [], []),
+    'updateMarginThresholds' : IDL.Func([MarginThresholds], [], []),
+    'updateQuoteNumberPrefix' : IDL.Func([IDL.Text], [], []),
+    'updateQuoteStatus' : IDL.Func(
+        [IDL.Text, QuoteStatus],
+        [QuoteHistoryItem],
+        [],
+      ),
+    'updateRateCard' : IDL.Func(
+        [IDL.Vec(RateCardItem), IDL.Opt(IDL.Int), IDL.Text],
+        [],
+        [],
+      ),
     'updateRateCardItem' : IDL.Func([RateCardItem], [], []),
     'updateStandardCost' : IDL.Func([IDL.Text, IDL.Float64], [], []),
+    'updateStandardCosts' : IDL.Func(
+        [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Float64))],
+        [],
+        [],
+      ),
+    'updateTaxSettings' : IDL.Func([TaxSettings], [], []),
+    'verifyQuote' : IDL.Func(
+        [IDL.Text, IDL.Text],
+        [IDL.Opt(QuoteVerification)],
+        ['query'],
+      ),
   });
 };
 
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { LocaleSettings } from '../backend';
+import { applyLocaleSettings, DEFAULT_LOCALE_SETTINGS, getLocaleSettings } from '../lib/locale';
+import { useGetLocaleSettings } from './useQueries';
+
+/**
+ * Load the organisation locale and hand it to the formatters. The settings are applied after
+ * rendering and kept in state, so the caller and every component below it render again with
+ * them. Queries keyed on dates, such as the dashboard, pick up the new time zone in that render.
+ * @returns The locale settings the formatters use
+ */
+export function useLocaleSettings(): LocaleSettings {
+  const { data } = useGetLocaleSettings();
+  const [applied, setApplied] = useState(getLocaleSettings);
+
+  useEffect(() => {
+    applyLocaleSettings(data ?? DEFAULT_LOCALE_SETTINGS);
+    setApplied(getLocaleSettings());
+  }, [data]);
+
+  return applied;
+}
@@ -1,6 +1,10 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { RateCard, RateCardItem, QuoteHeader, FullQuote, QuoteHistoryItem, AccountManagerList, AccountManager, AnalysisSummary } from '../backend';
+import { useInternetIdentity } from './useInternetIdentity';
+import type { RateCard, RateCardItem, RateCardVersion, RateCardVersionInfo, QuoteHeader, FullQuote, QuoteHistoryItem, AccountManagerList, AccountManager, AnalysisSummary, PdfTemplate, Discount, TaxSettings, LocaleSettings, ExchangeRate, QuoteStatus, UserRole, UserProfile, UserSummary, QuoteVerification, ScenarioAnalysis, PricingSolverRequest, MarginThresholds, DashboardSummary, DashboardPeriod, CategoryAnalysis, DashboardItem, AccountManagerPerformance, DashboardFilterOptions } from '../backend';
+import { monthlyPeriodStarts, toDashboardFilter, type DashboardFilters } from '../lib/dashboard';
+import { checkQuoteVerification, type VerificationLink, type VerificationOutcome } from '../lib/quoteVerification';
+import { Principal } from '@icp-sdk/core/principal';
 
 export function useGetRateCard() {
   const { actor, isFetching: actorFetching } = useActor();
@@ -20,24 +24,68 @@ export function useUpdateRateCard() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (items: RateCardItem[]) => {
+    mutationFn: async ({ items, effectiveFrom, note }: { items: RateCardItem[]; effectiveFrom: Date | null; note: string }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.updateRateCard(items);
+      // The canister stores timestamps in nanoseconds
+      return actor.updateRateCard(items, effectiveFrom ? BigInt(effectiveFrom.getTime()) * BigInt(1000000) : null, note);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rateCard'] });
+      queryClient.invalidateQueries({ queryKey: ['rateCardVersions'] });
     },
   });
 }
 
+export function useGetRateCardVersions() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<RateCardVersionInfo[]>({
+    queryKey: ['rateCardVersions'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getRateCardVersions();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useGetRateCardVersion(version: bigint | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<RateCardVersion | null>({
+    queryKey: ['rateCardVersions', version?.toString()],
+    queryFn: async () => {
+      if (!actor || version === null) throw new Error('Actor not available');
+      return actor.getRateCardVersion(version);
+    },
+    enabled: !!actor && !actorFetching && version !== null,
+    // Versions are immutable once saved
+    staleTime: Infinity,
+  });
+}
+
 export function useGenerateFullQuote() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ header, selectedItems }: { header: QuoteHeader; selectedItems: [string, bigint, bigint][] }) => {
+    mutationFn: async ({
+      header,
+      selectedItems,
+      quoteDiscount,
+      validityDays,
+      revisionOf,
+      currency,
+    }: {
+      header: QuoteHeader;
+      selectedItems: [string, bigint, bigint, Discount | null][];
+      quoteDiscount: Discount | null;
+      validityDays: bigint;
+      revisionOf?: string;
+      currency: string;
+    }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.generateFullQuote(header, selectedItems);
+      return actor.generateFullQuote(header, selectedItems, quoteDiscount, validityDays, revisionOf ?? null, currency);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['quoteHistory'] });
@@ -45,25 +93,131 @@ export function useGenerateFullQuote() {
   });
 }
 
+// Analyses a selection priced exactly as useGenerateFullQuote would price it, in the given currency
 export function useGenerateAnalysis() {
   const { actor } = useActor();
 
   return useMutation({
-    mutationFn: async (selectedItems: [string, bigint, bigint][]) => {
+    mutationFn: async ({
+      selectedItems,
+      quoteDiscount,
+      currency,
+    }: {
+      selectedItems: [string, bigint, bigint, Discount | null][];
+      quoteDiscount: Discount | null;
+      currency: string;
+    }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.generateAnalysis(selectedItems, quoteDiscount, currency);
+    },
+  });
+}
+
+// standardCosts overrides item standard costs (in the quote currency) without saving them anywhere
+export function useAnalyzeQuote(id: string, standardCosts: [string, number][]) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<AnalysisSummary>({
+    queryKey: ['quoteAnalysis', id, standardCosts],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.analyzeQuote(id, standardCosts);
+    },
+    enabled: !!actor && !actorFetching,
+    // Keep showing the last figures while an edited cost is re-analysed
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Proposes standard costs for a target margin or grand total; nothing is saved
+export function useSolveQuotePricing() {
+  const { actor } = useActor();
+
+  return useMutation({
+    mutationFn: async ({
+      quoteId,
+      standardCosts,
+      request,
+    }: {
+      quoteId: string;
+      standardCosts: [string, number][];
+      request: PricingSolverRequest;
+    }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.generateAnalysis(selectedItems);
+      return actor.solveQuotePricing(quoteId, standardCosts, request);
     },
   });
 }
 
-export function useGetQuoteHistory() {
+export function useGetQuoteScenarios(quoteId: string) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<ScenarioAnalysis[]>({
+    queryKey: ['quoteScenarios', quoteId],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getQuoteScenarios(quoteId);
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useSaveQuoteScenario() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ quoteId, name, standardCosts }: { quoteId: string; name: string; standardCosts: [string, number][] }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.saveQuoteScenario(quoteId, name, standardCosts);
+    },
+    onSuccess: (_, { quoteId }) => {
+      queryClient.invalidateQueries({ queryKey: ['quoteScenarios', quoteId] });
+    },
+  });
+}
+
+export function useDeleteQuoteScenario() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteQuoteScenario(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quoteScenarios'] });
+    },
+  });
+}
+
+// Saves the scenario's pricing as the next revision of its quote; the rate card is not changed
+export function usePromoteQuoteScenario() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, validityDays }: { id: string; validityDays: bigint }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.promoteQuoteScenario(id, validityDays);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quoteHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['quoteVersions'] });
+    },
+  });
+}
+
+// owner is a principal ID; only admins can filter by owner, everyone else gets their visible quotes
+export function useGetQuoteHistory(owner: string | null = null) {
   const { actor, isFetching: actorFetching } = useActor();
 
   return useQuery<QuoteHistoryItem[]>({
-    queryKey: ['quoteHistory'],
+    queryKey: ['quoteHistory', owner],
     queryFn: async () => {
       if (!actor) throw new Error('Actor not available');
-      return actor.getQuoteHistory();
+      return actor.getQuoteHistory(owner ? Principal.fromText(owner) : null);
     },
     enabled: !!actor && !actorFetching,
   });
@@ -80,17 +234,189 @@ export function useGetQuoteHistoryItem() {
   });
 }
 
-export function useUpdateStandardCost() {
+export function useGetQuoteVersions(quoteNumber: string | null) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<QuoteHistoryItem[]>({
+    queryKey: ['quoteVersions', quoteNumber],
+    queryFn: async () => {
+      if (!actor || !quoteNumber) throw new Error('Actor not available');
+      return actor.getQuoteVersions(quoteNumber);
+    },
+    enabled: !!actor && !actorFetching && !!quoteNumber,
+  });
+}
+
+// Canonical hash of a stored quote version, fetched when a document is exported
+export function useGetQuoteHash() {
+  const { actor } = useActor();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getQuoteHash(id);
+    },
+  });
+}
+
+// Public check of an exported quote; the record's hash is recomputed locally rather than trusted
+export function useVerifyQuote(link: VerificationLink) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<{ verification: QuoteVerification | null; outcome: VerificationOutcome }>({
+    queryKey: ['quoteVerification', link.id, link.code],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      const verification = await actor.verifyQuote(link.id, link.code);
+      return { verification, outcome: await checkQuoteVerification(verification, link.code) };
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateQuoteStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: QuoteStatus }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateQuoteStatus(id, status);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quoteHistory'] });
+    },
+  });
+}
+
+// Admins only; quotes below a margin threshold, oldest first
+export function useGetPendingApprovals(enabled = true) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<QuoteHistoryItem[]>({
+    queryKey: ['pendingApprovals'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getPendingApprovals();
+    },
+    enabled: !!actor && !actorFetching && enabled,
+  });
+}
+
+export function useDecideQuoteApproval() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ itemId, newStandardCost }: { itemId: string; newStandardCost: number }) => {
+    mutationFn: async ({ id, approved, comment }: { id: string; approved: boolean; comment: string }) => {
       if (!actor) throw new Error('Actor not available');
-      return actor.updateStandardCost(itemId, newStandardCost);
+      return actor.decideQuoteApproval(id, approved, comment);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pendingApprovals'] });
+      queryClient.invalidateQueries({ queryKey: ['quoteHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['quoteVersions'] });
+    },
+  });
+}
+
+// Dashboard queries are keyed by the selected dates and names; the canister aggregates the quote history
+export function useGetDashboardSummary(filters: DashboardFilters) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<DashboardSummary>({
+    queryKey: ['dashboard', 'summary', filters],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getDashboardSummary(toDashboardFilter(filters));
+    },
+    enabled: !!actor && !actorFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Totals for each calendar month in the selected range
+export function useGetDashboardTimeline(filters: DashboardFilters) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<DashboardPeriod[]>({
+    queryKey: ['dashboard', 'timeline', filters],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getDashboardTimeline(toDashboardFilter(filters), monthlyPeriodStarts(filters));
+    },
+    enabled: !!actor && !actorFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useGetDashboardTopCategories(filters: DashboardFilters, limit: number) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<CategoryAnalysis[]>({
+    queryKey: ['dashboard', 'topCategories', filters, limit],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getDashboardTopCategories(toDashboardFilter(filters), BigInt(limit));
+    },
+    enabled: !!actor && !actorFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useGetDashboardTopItems(filters: DashboardFilters, limit: number) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<DashboardItem[]>({
+    queryKey: ['dashboard', 'topItems', filters, limit],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getDashboardTopItems(toDashboardFilter(filters), BigInt(limit));
+    },
+    enabled: !!actor && !actorFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useGetAccountManagerLeaderboard(filters: DashboardFilters) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<AccountManagerPerformance[]>({
+    queryKey: ['dashboard', 'leaderboard', filters],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getAccountManagerLeaderboard(toDashboardFilter(filters));
+    },
+    enabled: !!actor && !actorFetching,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useGetDashboardFilterOptions() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<DashboardFilterOptions>({
+    queryKey: ['dashboard', 'filterOptions'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getDashboardFilterOptions();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateStandardCosts() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (updates: { itemId: string; newStandardCost: number }[]) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateStandardCosts(updates.map(({ itemId, newStandardCost }) => [itemId, newStandardCost]));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rateCard'] });
+      queryClient.invalidateQueries({ queryKey: ['rateCardVersions'] });
     },
   });
 }
@@ -164,6 +490,7 @@ export function useAddRateCardItem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rateCard'] });
+      queryClient.invalidateQueries({ queryKey: ['rateCardVersions'] });
     },
   });
 }
@@ -179,6 +506,7 @@ export function useDeleteRateCardItem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rateCard'] });
+      queryClient.invalidateQueries({ queryKey: ['rateCardVersions'] });
     },
   });
 }
@@ -194,6 +522,325 @@ export function useUpdateRateCardItem() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rateCard'] });
+      queryClient.invalidateQueries({ queryKey: ['rateCardVersions'] });
+    },
+  });
+}
+
+export function useGetPdfTemplates() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<PdfTemplate[]>({
+    queryKey: ['pdfTemplates'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getPdfTemplates();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useSavePdfTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (template: PdfTemplate) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.savePdfTemplate(template);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pdfTemplates'] });
+    },
+  });
+}
+
+export function useDeletePdfTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deletePdfTemplate(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pdfTemplates'] });
+    },
+  });
+}
+
+export function useGetTaxSettings() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<TaxSettings>({
+    queryKey: ['taxSettings'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getTaxSettings();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateTaxSettings() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: TaxSettings) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateTaxSettings(settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['taxSettings'] });
+    },
+  });
+}
+
+export function useGetMarginThresholds() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<MarginThresholds>({
+    queryKey: ['marginThresholds'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getMarginThresholds();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateMarginThresholds() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (thresholds: MarginThresholds) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateMarginThresholds(thresholds);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['marginThresholds'] });
+    },
+  });
+}
+
+export function useGetLocaleSettings() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<LocaleSettings>({
+    queryKey: ['localeSettings'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getLocaleSettings();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateLocaleSettings() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: LocaleSettings) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateLocaleSettings(settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['localeSettings'] });
+    },
+  });
+}
+
+export function useGetExchangeRates() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<ExchangeRate[]>({
+    queryKey: ['exchangeRates'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getExchangeRates();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useSetExchangeRate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ currency, rate }: { currency: string; rate: number }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.setExchangeRate(currency, rate);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+    },
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (currency: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.deleteExchangeRate(currency);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+    },
+  });
+}
+
+export function useGetQuoteNumberPrefix() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<string>({
+    queryKey: ['quoteNumberPrefix'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getQuoteNumberPrefix();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useUpdateQuoteNumberPrefix() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (prefix: string) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.updateQuoteNumberPrefix(prefix);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['quoteNumberPrefix'] });
+    },
+  });
+}
+
+export function useGetCallerUserRole() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<UserRole>({
+    queryKey: ['callerUserRole'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getCallerUserRole();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useIsCallerAdmin() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['isCallerAdmin'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.isCallerAdmin();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useGetCallerUserProfile() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
+
+  return useQuery<UserProfile | null>({
+    queryKey: ['callerUserProfile', identity?.getPrincipal().toString()],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.getCallerUserProfile();
+    },
+    // Guests have no profile; the canister rejects the call for anonymous callers
+    enabled: !!actor && !actorFetching && !!identity,
+    retry: false,
+  });
+}
+
+export function useSaveCallerUserProfile() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (profile: UserProfile) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.saveCallerUserProfile(profile);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['callerUserProfile'] });
+    },
+  });
+}
+
+export function useListUsers() {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<UserSummary[]>({
+    queryKey: ['users'],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.listUsers();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+}
+
+export function useAssignUserRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ user, role }: { user: Principal; role: UserRole }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.assignCallerUserRole(user, role);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['callerUserRole'] });
+      queryClient.invalidateQueries({ queryKey: ['isCallerAdmin'] });
+    },
+  });
+}
+
+export function useAssignUserAccountManager() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ user, accountManagerId }: { user: Principal; accountManagerId: string }) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.assignUserAccountManager(user, accountManagerId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['callerUserProfile'] });
+    },
+  });
+}
+
+export function useRevokeUserRole() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (user: Principal) => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.revokeUserRole(user);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['callerUserRole'] });
+      queryClient.invalidateQueries({ queryKey: ['isCallerAdmin'] });
     },
   });
 }
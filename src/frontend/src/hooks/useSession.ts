@@ -0,0 +1,46 @@
+import { useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DelegationIdentity, isDelegationValid } from '@icp-sdk/core/identity';
+import { toast } from 'sonner';
+import { useInternetIdentity } from './useInternetIdentity';
+
+const SESSION_CHECK_INTERVAL_MS = 60_000;
+
+/**
+ * Log out of Internet Identity and drop all cached canister data of the previous user
+ */
+export function useLogout() {
+  const { clear } = useInternetIdentity();
+  const queryClient = useQueryClient();
+
+  return useCallback(() => {
+    clear();
+    queryClient.removeQueries({
+      predicate: (query) => !query.queryKey.includes('actor'),
+    });
+  }, [clear, queryClient]);
+}
+
+/**
+ * Log the user out once their Internet Identity delegation expires, instead of
+ * letting canister calls fail with an invalid signature
+ */
+export function useSessionExpiry() {
+  const { identity } = useInternetIdentity();
+  const logout = useLogout();
+
+  useEffect(() => {
+    if (!(identity instanceof DelegationIdentity)) return;
+
+    const checkSession = () => {
+      if (!isDelegationValid(identity.getDelegation())) {
+        logout();
+        toast.warning('Your session has expired. Please log in again.');
+      }
+    };
+
+    checkSession();
+    const interval = window.setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [identity, logout]);
+}
@@ -0,0 +1,135 @@
+// A quote and its analysis with line and quote discounts, tax and a foreign currency, shared by the document tests
+
+import type { AnalysisSummary, DiscountType, FullQuote, QuoteHeader, QuoteStatus } from '../../backend';
+
+export const header: QuoteHeader = {
+  clientName: 'Acme Logistics Ltd',
+  projectName: 'Warehouse Network Refresh',
+  accountManager: 'Wanjiku Mwangi',
+  projectDuration: '6 months',
+};
+
+export const quote: FullQuote = {
+  quoteNumber: 'Q-2026-00042',
+  version: 2n,
+  // 1 Mar 2026 09:00 in Nairobi
+  timestamp: 1_772_344_800_000_000_000n,
+  status: 'draft' as QuoteStatus,
+  marginBreaches: [],
+  header,
+  currency: 'USD',
+  exchangeRate: 129.5,
+  items: [
+    {
+      id: 'item-1',
+      itemRefNo: 'NET-001',
+      category: 'Network',
+      subcategory: 'Switching',
+      detailedDescription: 'Core switch, 48 ports',
+      opsBriskCost: 900,
+      standardCost: 1500,
+      quantity: 2n,
+      duration: 1n,
+      discount: { discountType: 'percentage' as DiscountType, value: 10 },
+      discountAmount: 300,
+      total: 2700,
+    },
+    {
+      id: 'item-2',
+      itemRefNo: 'NET-002',
+      category: 'Network',
+      subcategory: 'Wireless',
+      detailedDescription: 'Access point with "Wi-Fi 6" support',
+      opsBriskCost: 120,
+      standardCost: 200,
+      quantity: 10n,
+      duration: 1n,
+      discountAmount: 0,
+      total: 2000,
+    },
+    {
+      id: 'item-3',
+      itemRefNo: 'SUP-001',
+      category: 'Support',
+      subcategory: '',
+      detailedDescription: 'Managed support, 24/7',
+      opsBriskCost: 250,
+      standardCost: 400,
+      quantity: 1n,
+      duration: 6n,
+      discountAmount: 0,
+      total: 2400,
+    },
+  ],
+  subtotal: 7100,
+  quoteDiscount: { discountType: 'fixed' as DiscountType, value: 100 },
+  discountAmount: 100,
+  taxableAmount: 7000,
+  taxLabel: 'VAT',
+  taxRate: 16,
+  taxAmount: 1120,
+  total: 8120,
+};
+
+export const analysis: AnalysisSummary = {
+  currency: 'USD',
+  items: [
+    {
+      id: 'item-1',
+      itemRefNo: 'NET-001',
+      category: 'Network',
+      subcategory: 'Switching',
+      detailedDescription: 'Core switch, 48 ports',
+      opsBriskCost: 900,
+      standardCost: 1500,
+      quantity: 2n,
+      duration: 1n,
+      discountAmount: 338.03,
+      revenue: 2661.97,
+      cost: 1800,
+      grossProfit: 861.97,
+      marginPercentage: 32.38,
+    },
+    {
+      id: 'item-2',
+      itemRefNo: 'NET-002',
+      category: 'Network',
+      subcategory: 'Wireless',
+      detailedDescription: 'Access point with "Wi-Fi 6" support',
+      opsBriskCost: 120,
+      standardCost: 200,
+      quantity: 10n,
+      duration: 1n,
+      discountAmount: 28.17,
+      revenue: 1971.83,
+      cost: 1200,
+      grossProfit: 771.83,
+      marginPercentage: 39.14,
+    },
+    {
+      id: 'item-3',
+      itemRefNo: 'SUP-001',
+      category: 'Support',
+      subcategory: '',
+      detailedDescription: 'Managed support, 24/7',
+      opsBriskCost: 250,
+      standardCost: 400,
+      quantity: 1n,
+      duration: 6n,
+      discountAmount: 33.8,
+      revenue: 2366.2,
+      cost: 1500,
+      grossProfit: 866.2,
+      marginPercentage: 36.61,
+    },
+  ],
+  categories: [
+    { category: 'Network', itemCount: 2n, revenue: 4633.8, cost: 3000, grossProfit: 1633.8, marginPercentage: 35.26 },
+    { category: 'Support', itemCount: 1n, revenue: 2366.2, cost: 1500, grossProfit: 866.2, marginPercentage: 36.61 },
+  ],
+  discountAmount: 400,
+  totalRevenue: 7000,
+  totalCost: 4500,
+  grossProfit: 2500,
+  marginPercentage: 35.71,
+};
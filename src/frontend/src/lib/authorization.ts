@@ -0,0 +1,40 @@
+// Helpers for surfacing authorization failures raised by the backend
+
+import { UserRole } from '../backend';
+
+/**
+ * Check whether an error came from a backend role check ("Unauthorized: ...")
+ * @param error - The error thrown by an actor call
+ * @returns True when the caller lacked the required role
+ */
+export function isUnauthorizedError(error: Error): boolean {
+  return error.message.includes('Unauthorized');
+}
+
+/**
+ * Build the toast message for a failed mutation
+ * @param action - What the user tried to do, e.g. "update rate card"
+ * @param error - The error thrown by the mutation
+ * @returns A permission message for authorization failures, otherwise the error detail
+ */
+export function describeMutationError(action: string, error: Error): string {
+  if (isUnauthorizedError(error)) {
+    return `You don't have permission to ${action}`;
+  }
+  return `Failed to ${action}: ${error.message}`;
+}
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.admin]: 'Admin',
+  [UserRole.user]: 'User',
+  [UserRole.guest]: 'Guest',
+};
+
+/**
+ * Shorten a principal for display, e.g. "abcde-fghij…xyz-cai"
+ * @param principal - The principal text
+ * @returns The first and last characters of the principal
+ */
+export function shortenPrincipal(principal: string): string {
+  return principal.length > 20 ? `${principal.slice(0, 11)}…${principal.slice(-7)}` : principal;
+}
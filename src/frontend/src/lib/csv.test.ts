@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCsvBytes, detectDelimiter, escapeCsvField, parseCsv, restoreCsvFormulaText, toCsv } from './csv';
+
+const utf16 = (text: string, littleEndian: boolean) => {
+  const bytes = new Uint8Array(2 + text.length * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xfeff, littleEndian);
+  for (let i = 0; i < text.length; i++) view.setUint16(2 + i * 2, text.charCodeAt(i), littleEndian);
+  return bytes;
+};
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCsv('ref,description\nA1,"Support, 24/7"')).toEqual([
+      ['ref', 'description'],
+      ['A1', 'Support, 24/7'],
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('a,b\n"The ""premium"" tier","""quoted"""')).toEqual([
+      ['a', 'b'],
+      ['The "premium" tier', '"quoted"'],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('a,b\r\n"line 1\r\nline 2",x\r\n"line 3\nline 4",y')).toEqual([
+      ['a', 'b'],
+      ['line 1\r\nline 2', 'x'],
+      ['line 3\nline 4', 'y'],
+    ]);
+  });
+
+  it('treats CRLF, LF and CR as one line break each', () => {
+    expect(parseCsv('a,b\r\n1,2\n3,4\r5,6')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6'],
+    ]);
+  });
+
+  it('ignores a leading byte order mark', () => {
+    expect(parseCsv('﻿ref,cost\nA1,100')).toEqual([
+      ['ref', 'cost'],
+      ['A1', '100'],
+    ]);
+  });
+
+  it('does not add a row for trailing line breaks', () => {
+    expect(parseCsv('a,b\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps blank lines and empty fields', () => {
+    expect(parseCsv('a,b\n\n,2\n1,')).toEqual([['a', 'b'], [''], ['', '2'], ['1', '']]);
+  });
+
+  it('keeps a quote inside an unquoted field literally', () => {
+    expect(parseCsv('a,b\n12" rack,2')).toEqual([
+      ['a', 'b'],
+      ['12" rack', '2'],
+    ]);
+  });
+
+  it('ends an unterminated quoted field at the end of the text', () => {
+    expect(parseCsv('a,"b\nc')).toEqual([['a', 'b\nc']]);
+  });
+
+  it('returns no rows for empty text', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;b,c\n1;2,3', ';')).toEqual([
+      ['a', 'b,c'],
+      ['1', '2,3'],
+    ]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('detects commas', () => {
+    expect(detectDelimiter('ref,category,cost\nA1,Network,100\nA2,Cloud,200')).toBe(',');
+  });
+
+  it('detects semicolons from European spreadsheets', () => {
+    expect(detectDelimiter('ref;category;cost\nA1;Network;1.200,50\nA2;Cloud;200,00')).toBe(';');
+  });
+
+  it('detects tabs', () => {
+    expect(detectDelimiter('ref\tcategory\tcost\nA1\tNetwork\t100')).toBe('\t');
+  });
+
+  it('prefers the delimiter that splits rows consistently over a stray comma', () => {
+    expect(detectDelimiter('ref;description;cost\nA1;Install, configure;100\nA2;Support;200')).toBe(';');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('ref\tdescription\nA1\t"a, b, c"\nA2\t"d, e"')).toBe('\t');
+  });
+
+  it('falls back to commas for a single column', () => {
+    expect(detectDelimiter('ref\nA1\nA2')).toBe(',');
+  });
+});
+
+describe('decodeCsvBytes', () => {
+  it('decodes UTF-8 and strips its byte order mark', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('Café,100')]);
+    expect(decodeCsvBytes(bytes)).toBe('Café,100');
+  });
+
+  it('decodes UTF-8 without a byte order mark', () => {
+    expect(decodeCsvBytes(new TextEncoder().encode('Nairobi – Mombasa'))).toBe('Nairobi – Mombasa');
+  });
+
+  it('decodes UTF-16 little endian', () => {
+    expect(decodeCsvBytes(utf16('ref\tCafé\n', true))).toBe('ref\tCafé\n');
+  });
+
+  it('decodes UTF-16 big endian', () => {
+    expect(decodeCsvBytes(utf16('ref,Café\n', false))).toBe('ref,Café\n');
+  });
+
+  it('falls back to Windows-1252 when the bytes are not UTF-8', () => {
+    // "Café £5" as saved by older Excel versions; Node decodes 0x80-0x9f as Latin-1, so those bytes are left out
+    const bytes = new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x20, 0xa3, 0x35]);
+    expect(decodeCsvBytes(bytes)).toBe('Café £5');
+  });
+
+  it('decodes empty files', () => {
+    expect(decodeCsvBytes(new Uint8Array())).toBe('');
+  });
+});
+
+describe('escapeCsvField', () => {
+  it('leaves plain text and numbers as they are', () => {
+    expect(escapeCsvField('Network')).toBe('Network');
+    expect(escapeCsvField(1200.5)).toBe('1200.5');
+    expect(escapeCsvField(-3)).toBe('-3');
+  });
+
+  it('quotes fields with the delimiter', () => {
+    expect(escapeCsvField('Install, configure')).toBe('"Install, configure"');
+    expect(escapeCsvField('a;b', ';')).toBe('"a;b"');
+    expect(escapeCsvField('a;b')).toBe('a;b');
+    expect(escapeCsvField('a\tb', '\t')).toBe('"a\tb"');
+  });
+
+  it('doubles quotes', () => {
+    expect(escapeCsvField('The "premium" tier')).toBe('"The ""premium"" tier"');
+  });
+
+  it('quotes line breaks', () => {
+    expect(escapeCsvField('line 1\r\nline 2')).toBe('"line 1\r\nline 2"');
+    expect(escapeCsvField('line 1\nline 2')).toBe('"line 1\nline 2"');
+  });
+
+  it('quotes surrounding spaces so they survive a spreadsheet import', () => {
+    expect(escapeCsvField(' padded ')).toBe('" padded "');
+  });
+
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    expect(escapeCsvField('=SUM(A1:A2)')).toBe("'=SUM(A1:A2)");
+    expect(escapeCsvField('@cmd')).toBe("'@cmd");
+    expect(escapeCsvField('+1, -1')).toBe(`"'+1, -1"`);
+  });
+});
+
+describe('toCsv', () => {
+  it('joins fields and rows with CRLF', () => {
+    expect(
+      toCsv([
+        ['ref', 'cost'],
+        ['A1', 100],
+      ])
+    ).toBe('ref,cost\r\nA1,100');
+  });
+
+  it('uses the given delimiter', () => {
+    expect(toCsv([['a', 'b,c']], ';')).toBe('a;b,c');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['ref', 'description', 'cost'],
+      ['A1', 'Support, 24/7', '100'],
+      ['A2', 'The "premium"\r\ntier', '200.5'],
+      ['A3', ' padded ', ''],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+    expect(parseCsv(toCsv(rows, ';'), ';')).toEqual(rows);
+    expect(parseCsv(toCsv(rows, '\t'))).toEqual(rows);
+  });
+});
+
+describe('restoreCsvFormulaText', () => {
+  it('removes the apostrophe escapeCsvField adds', () => {
+    for (const text of ['=SUM(A1:A2)', '+254-01', '- 24/7 support', '@Edge']) {
+      expect(restoreCsvFormulaText(parseCsv(escapeCsvField(text))[0][0])).toBe(text);
+    }
+  });
+
+  it('keeps other apostrophes', () => {
+    expect(restoreCsvFormulaText("'quoted'")).toBe("'quoted'");
+    expect(restoreCsvFormulaText("O'Brien")).toBe("O'Brien");
+  });
+});
@@ -0,0 +1,180 @@
+// RFC 4180 CSV reading and writing: quoted fields, escaped quotes, embedded line breaks,
+// comma/semicolon/tab delimiters, byte order marks and non-UTF-8 encodings
+
+export type CsvCell = string | number;
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+const BOM = '﻿';
+
+// Rows sampled when guessing the delimiter
+const DELIMITER_SAMPLE_ROWS = 10;
+
+/**
+ * Split CSV text into rows of fields
+ * @param text - CSV text; a leading byte order mark is ignored
+ * @param delimiter - Field delimiter; detected from the text when omitted
+ * @returns Rows of unquoted field values, without the empty row a trailing line break would produce
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRow();
+      // CRLF counts as one line break
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      // A quote inside an unquoted field is kept literally, as most spreadsheet programs do
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== '' || row.length > 0 || inQuotes) endRow();
+  return rows;
+}
+
+/**
+ * Guess the delimiter from the first rows, preferring one that splits every row into the same number of fields
+ * @param text - CSV text
+ * @returns The most likely delimiter, comma when nothing else fits
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = parseCsv(text.slice(0, 64 * 1024), delimiter)
+      .slice(0, DELIMITER_SAMPLE_ROWS)
+      .filter((row) => row.some((cell) => cell !== ''))
+      .map((row) => row.length);
+    if (counts.length === 0 || counts[0] < 2) continue;
+
+    // Rows that agree with the first row's width count double, so a stray comma in a description does not win
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    const score = consistent * 2 * counts[0] + counts.length;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Decode file bytes to text, honouring UTF-8 and UTF-16 byte order marks and falling back to
+ * Windows-1252 when the bytes are not valid UTF-8 (files saved by older Excel versions)
+ * @param bytes - Raw file contents
+ * @returns Decoded text without a byte order mark
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Read and parse a CSV file
+ * @param file - The uploaded file
+ * @returns Rows of field values
+ */
+export async function readCsvFile(file: File): Promise<string[][]> {
+  return parseCsv(decodeCsvBytes(new Uint8Array(await file.arrayBuffer())));
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break, or has surrounding spaces.
+ * Text starting with =, +, - or @ is prefixed with an apostrophe so spreadsheet programs do not run it as a formula.
+ * @param value - Field value
+ * @param delimiter - Field delimiter
+ * @returns The field as written to the file
+ */
+export function escapeCsvField(value: CsvCell, delimiter: CsvDelimiter = ','): string {
+  let text = value.toString();
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  const needsQuotes =
+    text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text) || text !== text.trim();
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Undo the formula neutralisation of escapeCsvField, so exported text imports unchanged
+ * @param text - Field value read from a CSV file
+ * @returns The value without the apostrophe added before =, +, - or @
+ */
+export function restoreCsvFormulaText(text: string): string {
+  return text.replace(/^'(?=[=+\-@])/, '');
+}
+
+/**
+ * Serialise rows as CSV with CRLF line breaks
+ * @param rows - Rows of field values
+ * @param delimiter - Field delimiter
+ * @returns CSV text
+ */
+export function toCsv(rows: CsvCell[][], delimiter: CsvDelimiter = ','): string {
+  return rows.map((row) => row.map((cell) => escapeCsvField(cell, delimiter)).join(delimiter)).join('\r\n');
+}
+
+/**
+ * Download rows as a UTF-8 CSV file; the byte order mark makes Excel pick the right encoding
+ * @param rows - Rows of field values
+ * @param filename - Name of the downloaded file
+ */
+export function downloadCsv(rows: CsvCell[][], filename: string): void {
+  const blob = new Blob([BOM + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,83 @@
+// CSV exports of quote documents, quote history and rate cards; amounts stay unformatted so spreadsheets can total them
+
+import type { QuoteHistoryItem, RateCardItem } from '../backend';
+import type { CsvCell } from './csv';
+import { documentToGrid, type QuoteDocument } from './documentModel';
+import { QUOTE_STATUS_LABELS } from './quoteStatus';
+
+// Canister timestamps are nanoseconds; exports use ISO 8601 so any tool can parse them
+const toIsoString = (timestamp: bigint) => new Date(Number(timestamp) / 1000000).toISOString();
+
+/**
+ * Build the rows of an exported document: project details, tables and the totals breakdown
+ * @param document - A quote or analysis document
+ * @returns CSV rows
+ */
+export function documentToCsvRows(document: QuoteDocument): CsvCell[][] {
+  return documentToGrid(document).map((row) => row.map((cell) => cell.value));
+}
+
+/**
+ * Build one row per quote version for the history export
+ * @param history - Quote versions to export
+ * @returns CSV rows with a header row
+ */
+export function quoteHistoryToCsvRows(history: QuoteHistoryItem[]): CsvCell[][] {
+  return [
+    [
+      'Quote No',
+      'Version',
+      'Status',
+      'Created',
+      'Valid Until',
+      'Client Name',
+      'Project Name',
+      'Account Manager',
+      'Items',
+      'Currency',
+      'Exchange Rate',
+      'Subtotal',
+      'Discount',
+      'Tax',
+      'Total',
+      'Rate Card Version',
+    ],
+    ...history.map((item) => [
+      item.quoteNumber,
+      Number(item.version),
+      QUOTE_STATUS_LABELS[item.status],
+      toIsoString(item.timestamp),
+      toIsoString(item.validUntil),
+      item.header.clientName,
+      item.header.projectName,
+      item.header.accountManager,
+      item.items.length,
+      item.currency,
+      item.exchangeRate,
+      item.subtotal,
+      item.discountAmount,
+      item.taxAmount,
+      item.total,
+      Number(item.rateCardVersion),
+    ]),
+  ];
+}
+
+/**
+ * Build the rate card rows in the same column layout the importer expects
+ * @param items - Rate card items
+ * @returns CSV rows with a header row
+ */
+export function rateCardToCsvRows(items: RateCardItem[]): CsvCell[][] {
+  return [
+    ['itemRefNo', 'category', 'subcategory', 'detailedDescription', 'opsBriskCost', 'standardCost'],
+    ...items.map((item) => [
+      item.itemRefNo,
+      item.category,
+      item.subcategory,
+      item.detailedDescription,
+      item.opsBriskCost,
+      item.standardCost,
+    ]),
+  ];
+}
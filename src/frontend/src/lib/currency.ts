@@ -0,0 +1,67 @@
+// Quote currencies: the rate card is priced in the base currency and quotes are converted with admin-managed rates
+
+import type { ExchangeRate } from '../backend';
+
+// Currency of the rate card; must match the canister
+export const BASE_CURRENCY = 'KES';
+
+// Offered when adding an exchange rate; any ISO 4217 code is accepted
+export const SUGGESTED_CURRENCIES = ['USD', 'UGX', 'TZS', 'EUR', 'GBP'];
+
+// Labels printed in front of amounts; other currencies use their ISO code
+const CURRENCY_LABELS: Record<string, string> = {
+  KES: 'Kshs',
+};
+
+/**
+ * Label printed in front of amounts, e.g. "Kshs" or "USD"
+ * @param currency - ISO 4217 currency code
+ * @returns The amount prefix
+ */
+export function currencyLabel(currency: string): string {
+  return CURRENCY_LABELS[currency] ?? currency;
+}
+
+/**
+ * Number of decimal places the currency is quoted in, e.g. 0 for UGX
+ * @param currency - ISO 4217 currency code
+ * @returns Fraction digits, 2 when the browser does not know the currency
+ */
+export function currencyFractionDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * Convert a rate card amount into a quote currency
+ * @param amount - Amount in the base currency
+ * @param exchangeRate - Base amount for one unit of the quote currency
+ * @returns Amount in the quote currency
+ */
+export function fromBaseCurrency(amount: number, exchangeRate: number): number {
+  return amount / exchangeRate;
+}
+
+/**
+ * Convert a quote amount back into the base currency
+ * @param amount - Amount in the quote currency
+ * @param exchangeRate - Base amount for one unit of the quote currency
+ * @returns Amount in the base currency
+ */
+export function toBaseCurrency(amount: number, exchangeRate: number): number {
+  return amount * exchangeRate;
+}
+
+/**
+ * Look up the current rate of a currency
+ * @param rates - Exchange rates from the canister
+ * @param currency - ISO 4217 currency code
+ * @returns The rate, 1 for the base currency, or undefined when no rate is set
+ */
+export function findExchangeRate(rates: ExchangeRate[] | undefined, currency: string): number | undefined {
+  if (currency === BASE_CURRENCY) return 1;
+  return rates?.find((rate) => rate.currency === currency)?.rate;
+}
@@ -0,0 +1,96 @@
+// Dashboard filters: calendar dates in the organisation time zone converted to canister timestamps and monthly periods
+
+import type { DashboardFilter } from '../backend';
+import { formatFileDate } from './formatters';
+import { getLocaleSettings } from './locale';
+
+// Selects every client or account manager
+export const ALL_NAMES = 'all';
+
+// Months shown when the dashboard opens, including the current month
+export const DEFAULT_DASHBOARD_MONTHS = 12;
+
+export interface DashboardFilters {
+  // Calendar dates as YYYY-MM-DD, both inclusive
+  fromDate: string;
+  toDate: string;
+  clientName: string;
+  accountManager: string;
+}
+
+/**
+ * Filters for the months up to and including today
+ * @param months - Number of calendar months to include
+ * @returns Filters over every client and account manager
+ */
+export function defaultDashboardFilters(months = DEFAULT_DASHBOARD_MONTHS): DashboardFilters {
+  const toDate = formatFileDate(new Date());
+  const [year, month] = toDate.split('-').map(Number);
+  return {
+    fromDate: new Date(Date.UTC(year, month - months, 1)).toISOString().slice(0, 10),
+    toDate,
+    clientName: ALL_NAMES,
+    accountManager: ALL_NAMES,
+  };
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - (instant - (instant % 1000));
+}
+
+// Midnight at the start of a calendar date in the organisation time zone; months and days may overflow
+function startOfDay(year: number, monthIndex: number, day: number): number {
+  const { timeZone } = getLocaleSettings();
+  const utcMidnight = Date.UTC(year, monthIndex, day);
+  // The second pass picks up a daylight saving change between UTC midnight and local midnight
+  const estimate = utcMidnight - timeZoneOffset(utcMidnight, timeZone);
+  return utcMidnight - timeZoneOffset(estimate, timeZone);
+}
+
+const toTimestamp = (milliseconds: number) => BigInt(milliseconds) * 1_000_000n;
+
+const parseDate = (date: string) => date.split('-').map(Number);
+
+/**
+ * Convert dashboard filters to the canister filter
+ * @param filters - Date range and names selected on the dashboard
+ * @returns Filter with the range as timestamps, the end exclusive
+ */
+export function toDashboardFilter(filters: DashboardFilters): DashboardFilter {
+  const [fromYear, fromMonth, fromDay] = parseDate(filters.fromDate);
+  const [toYear, toMonth, toDay] = parseDate(filters.toDate);
+  return {
+    from: filters.fromDate ? toTimestamp(startOfDay(fromYear, fromMonth - 1, fromDay)) : undefined,
+    to: filters.toDate ? toTimestamp(startOfDay(toYear, toMonth - 1, toDay + 1)) : undefined,
+    clientName: filters.clientName === ALL_NAMES ? undefined : filters.clientName,
+    accountManager: filters.accountManager === ALL_NAMES ? undefined : filters.accountManager,
+  };
+}
+
+/**
+ * Start of each calendar month in the date range; the first period starts on the range's first day
+ * @param filters - Dashboard filters with both dates set
+ * @returns Period start timestamps in ascending order
+ */
+export function monthlyPeriodStarts(filters: DashboardFilters): bigint[] {
+  const [fromYear, fromMonth, fromDay] = parseDate(filters.fromDate);
+  const [toYear, toMonth] = parseDate(filters.toDate);
+  const starts = [toTimestamp(startOfDay(fromYear, fromMonth - 1, fromDay))];
+  for (let month = fromMonth; (fromYear - toYear) * 12 + month - toMonth < 0; month++) {
+    starts.push(toTimestamp(startOfDay(fromYear, month, 1)));
+  }
+  return starts;
+}
@@ -0,0 +1,171 @@
+// HTML renderer for the document model: a standalone page with inline styles, suitable for e-mail or archiving
+
+import {
+  formatDocumentValue,
+  type DocumentMetric,
+  type DocumentTable,
+  type DocumentTotal,
+  type QuoteDocument,
+} from './documentModel';
+import { DEFAULT_PDF_BRANDING, type PdfBranding } from './pdfExporter';
+
+type RGB = PdfBranding['primaryColor'];
+
+const POSITIVE_COLOR = '#22c55e';
+const NEGATIVE_COLOR = '#dc2626';
+
+const rgb = ([r, g, b]: RGB) => `rgb(${r}, ${g}, ${b})`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const signStyle = (value: number) => `color: ${value < 0 ? NEGATIVE_COLOR : POSITIVE_COLOR};`;
+
+function renderMetrics(metrics: DocumentMetric[], currency: string, branding: PdfBranding): string {
+  const cards = metrics
+    .map(
+      (metric) =>
+        `<td style="padding: 8px; border: 1px solid ${rgb(branding.primaryColor)};">` +
+        `<div style="font-size: 12px; color: #646464;">${escapeHtml(metric.label)}</div>` +
+        `<div style="font-size: 18px; font-weight: bold;">${escapeHtml(formatDocumentValue(metric.value, metric.format, currency))}</div>` +
+        '</td>'
+    )
+    .join('');
+  return `<table style="width: 100%; border-collapse: separate; border-spacing: 8px 0;"><tr>${cards}</tr></table>`;
+}
+
+function renderTable({ columns, rows }: DocumentTable, currency: string, branding: PdfBranding): string {
+  const cellStyle = 'padding: 4px 6px; border: 1px solid #c8c8c8;';
+  const align = (index: number) => (columns[index].format === 'text' ? 'left' : 'right');
+
+  const head = columns
+    .map(
+      (column) =>
+        `<th style="${cellStyle} background: ${rgb(branding.primaryColor)}; color: #fff;">${escapeHtml(column.label)}</th>`
+    )
+    .join('');
+
+  const body = rows
+    .map((row, rowIndex) => {
+      if (row.type === 'group') {
+        const indent = row.level === 2 ? ' padding-left: 18px;' : '';
+        return `<tr><td colspan="${columns.length}" style="${cellStyle} font-weight: bold;${indent}">${escapeHtml(row.label)}</td></tr>`;
+      }
+      if (row.type === 'subtotal') {
+        return (
+          `<tr><td colspan="${columns.length - 1}" style="${cellStyle} text-align: right; font-weight: bold;">${escapeHtml(row.label)}</td>` +
+          `<td style="${cellStyle} text-align: right; font-weight: bold;">${escapeHtml(formatDocumentValue(row.value, 'currency', currency))}</td></tr>`
+        );
+      }
+      const background = rowIndex % 2 === 1 ? ` background: ${rgb(branding.accentColor)};` : '';
+      const cells = row.values
+        .map((value, index) => {
+          const color = columns[index].signed && typeof value === 'number' ? ` ${signStyle(value)}` : '';
+          return `<td style="${cellStyle} text-align: ${align(index)};${color}">${escapeHtml(formatDocumentValue(value, columns[index].format, currency))}</td>`;
+        })
+        .join('');
+      return `<tr style="${background}">${cells}</tr>`;
+    })
+    .join('');
+
+  return `<table style="width: 100%; border-collapse: collapse; font-size: 12px;"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function renderTotals(totals: DocumentTotal[], currency: string, branding: PdfBranding): string {
+  const rows = totals
+    .map((total) => {
+      const value = escapeHtml(formatDocumentValue(total.value, total.format, currency));
+      if (total.emphasis) {
+        const style = `padding: 6px 8px; background: ${rgb(branding.primaryColor)}; color: #fff; font-weight: bold; font-size: 16px;`;
+        return `<tr><td style="${style}">${escapeHtml(total.label)}:</td><td style="${style} text-align: right;">${value}</td></tr>`;
+      }
+      const color = total.signed ? ` ${signStyle(total.value)}` : '';
+      return (
+        `<tr><td style="padding: 3px 8px; font-weight: bold;">${escapeHtml(total.label)}:</td>` +
+        `<td style="padding: 3px 8px; text-align: right;${color}">${value}</td></tr>`
+      );
+    })
+    .join('');
+  return `<table style="margin: 16px 0 0 auto; border-collapse: collapse; font-size: 13px;">${rows}</table>`;
+}
+
+/**
+ * Render a document as a standalone HTML page
+ * @param document - The document model
+ * @param branding - Template branding; colours, fonts, titles and company details are applied
+ * @returns The HTML source
+ */
+export function renderDocumentToHtml(document: QuoteDocument, branding: PdfBranding = DEFAULT_PDF_BRANDING): string {
+  const title = document.kind === 'analysis' ? branding.analysisTitle : branding.quoteTitle;
+  const font = branding.fontFamily === 'times' ? 'Times, serif' : branding.fontFamily === 'courier' ? 'Courier, monospace' : 'Helvetica, Arial, sans-serif';
+
+  const company = [branding.companyName, ...branding.addressLines]
+    .filter(Boolean)
+    .map((line, index) => `<div style="${index === 0 && branding.companyName ? 'font-weight: bold;' : 'font-size: 12px;'}">${escapeHtml(line)}</div>`)
+    .join('');
+  const logo = branding.logo ? `<img src="${branding.logo.dataUrl}" alt="" style="max-width: 190px; max-height: 60px;" />` : '';
+
+  const fields = document.header
+    .map(
+      (field) =>
+        `<tr><td style="padding: 2px 12px 2px 0; font-weight: bold;">${escapeHtml(field.label)}:</td><td>${escapeHtml(field.value)}</td></tr>`
+    )
+    .join('');
+
+  const sections = document.sections
+    .map(
+      (section) =>
+        `<h2 style="font-size: 15px; margin: 20px 0 8px;">${escapeHtml(section.title)}</h2>` +
+        (section.type === 'metrics'
+          ? renderMetrics(section.metrics, document.currency, branding)
+          : renderTable(section.table, document.currency, branding))
+    )
+    .join('');
+
+  const verification = document.verification
+    ? `<p style="margin-top: 24px; font-size: 12px;">Verification code: <strong style="font-family: Courier, monospace;">${escapeHtml(document.verification.code)}</strong>` +
+      ` &middot; <a href="${escapeHtml(document.verification.url)}">Verify this quote</a></p>`
+    : '';
+  const watermark = document.watermark
+    ? `<div style="position: fixed; top: 45%; left: 0; right: 0; text-align: center; transform: rotate(-45deg); font-size: 64px; font-weight: bold; color: ${NEGATIVE_COLOR}; opacity: 0.15; pointer-events: none;">${escapeHtml(document.watermark)}</div>`
+    : '';
+  const footer = branding.footerText
+    ? `<p style="margin-top: 24px; font-size: 11px; color: #646464;">${escapeHtml(branding.footerText)}</p>`
+    : '';
+
+  return [
+    '<!doctype html>',
+    '<html><head><meta charset="utf-8" />',
+    `<title>${escapeHtml(title)}</title></head>`,
+    `<body style="font-family: ${font}; color: ${rgb(branding.textColor)}; max-width: 960px; margin: 24px auto;">`,
+    '<table style="width: 100%;"><tr>',
+    `<td><h1 style="color: ${rgb(branding.primaryColor)}; margin: 0;">${escapeHtml(title)}</h1></td>`,
+    `<td style="text-align: right;">${logo}${company}</td>`,
+    '</tr></table>',
+    '<hr style="border: none; border-top: 1px solid #c8c8c8;" />',
+    `<h2 style="font-size: 15px;">Project Information</h2><table style="font-size: 13px;">${fields}</table>`,
+    sections,
+    renderTotals(document.totals, document.currency, branding),
+    verification,
+    footer,
+    watermark,
+    '</body></html>',
+  ].join('\n');
+}
+
+/**
+ * Render a document and download it as an HTML file
+ * @param document - The document model
+ * @param branding - Template branding
+ */
+export function exportToHtml(document: QuoteDocument, branding: PdfBranding = DEFAULT_PDF_BRANDING): void {
+  const blob = new Blob([renderDocumentToHtml(document, branding)], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = window.document.createElement('a');
+  a.href = url;
+  a.download = `${document.filename}.html`;
+  window.document.body.appendChild(a);
+  a.click();
+  window.document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analysis, header, quote } from './__fixtures__/quote';
+import { renderDocumentToHtml } from './documentHtml';
+import { buildAnalysisDocument, buildQuoteDocument, documentToGrid } from './documentModel';
+import { applyLocaleSettings, DEFAULT_LOCALE_SETTINGS } from './locale';
+import { NOT_APPROVED_WATERMARK } from './quoteStatus';
+
+const DATE = '1 Mar 2026';
+const verification = { code: 'ABCD-EFGH-JKLM', url: 'https://quotes.example.com/verify/Q-2026-00042-v2?code=ABCDEFGHJKLM' };
+
+beforeAll(() => {
+  applyLocaleSettings(DEFAULT_LOCALE_SETTINGS);
+});
+
+describe('buildQuoteDocument', () => {
+  it('builds the flat layout', () => {
+    expect(buildQuoteDocument(quote, { date: DATE })).toMatchSnapshot();
+  });
+
+  it('groups lines by category', () => {
+    expect(buildQuoteDocument(quote, { date: DATE, layout: 'category' })).toMatchSnapshot();
+  });
+
+  it('groups lines by subcategory', () => {
+    expect(buildQuoteDocument(quote, { date: DATE, layout: 'subcategory' })).toMatchSnapshot();
+  });
+
+  it('carries the verification code and watermark', () => {
+    const document = buildQuoteDocument(quote, { date: DATE, verification, watermark: NOT_APPROVED_WATERMARK });
+    expect(document.verification).toEqual(verification);
+    expect(document.watermark).toBe(NOT_APPROVED_WATERMARK);
+  });
+});
+
+describe('buildAnalysisDocument', () => {
+  it('builds the analysis document', () => {
+    expect(buildAnalysisDocument({ ...analysis, header }, DATE, '2026-03-01')).toMatchSnapshot();
+  });
+});
+
+describe('documentToGrid', () => {
+  it('lays out a quote for spreadsheets', () => {
+    expect(documentToGrid(buildQuoteDocument(quote, { date: DATE, layout: 'category' }))).toMatchSnapshot();
+  });
+
+  it('lays out an analysis for spreadsheets', () => {
+    expect(documentToGrid(buildAnalysisDocument({ ...analysis, header }, DATE, '2026-03-01'))).toMatchSnapshot();
+  });
+
+  it('puts the watermark under the title', () => {
+    const grid = documentToGrid(buildQuoteDocument(quote, { date: DATE, watermark: NOT_APPROVED_WATERMARK }));
+    expect(grid[1]).toEqual([{ value: NOT_APPROVED_WATERMARK, format: 'text' }]);
+  });
+});
+
+describe('renderDocumentToHtml', () => {
+  it('renders a quote', async () => {
+    const document = buildQuoteDocument(quote, { date: DATE, layout: 'category', verification });
+    await expect(renderDocumentToHtml(document)).toMatchFileSnapshot('./__snapshots__/quote.html');
+  });
+
+  it('renders an analysis', async () => {
+    const document = buildAnalysisDocument({ ...analysis, header }, DATE, '2026-03-01');
+    await expect(renderDocumentToHtml(document)).toMatchFileSnapshot('./__snapshots__/analysis.html');
+  });
+
+  it('escapes text and shows the watermark', () => {
+    const document = buildQuoteDocument(
+      { ...quote, header: { ...header, clientName: '<Acme & Sons>' } },
+      { date: DATE, watermark: NOT_APPROVED_WATERMARK }
+    );
+    const html = renderDocumentToHtml(document);
+    expect(html).toContain('&lt;Acme &amp; Sons&gt;');
+    expect(html).not.toContain('<Acme');
+    expect(html).toContain(NOT_APPROVED_WATERMARK);
+  });
+});
@@ -0,0 +1,383 @@
+// Renderer-independent model of exported documents (quotes and cost analyses). Builders here are pure so the
+// same document can be rendered to PDF, XLSX, CSV or HTML, in the browser or in Node.
+
+import type { AnalysisSummary, FullQuote, QuoteHeader } from '../backend';
+import { formatCurrency, formatNumber } from './formatters';
+import { groupQuoteItems, type QuoteLayout } from './quoteGrouping';
+import { getTotalsBreakdown } from './quoteTotals';
+import { formatQuoteReference } from './quoteVersions';
+
+export type DocumentKind = 'quote' | 'analysis';
+
+// How a value is displayed; renderers that keep raw numbers (XLSX, CSV) use it for number formats only
+export type DocumentValueFormat = 'text' | 'integer' | 'number' | 'currency' | 'percent';
+
+export type DocumentValue = string | number;
+
+export interface DocumentField {
+  label: string;
+  value: string;
+}
+
+export interface DocumentColumn {
+  label: string;
+  format: DocumentValueFormat;
+  // Width in millimetres on the A4 page (180mm printable); omitted columns share the remaining space
+  width?: number;
+  // Colour values by sign (green for profit, red for loss)
+  signed?: boolean;
+}
+
+export type DocumentRow =
+  | { type: 'item'; values: DocumentValue[] }
+  | { type: 'group'; label: string; level: 1 | 2 }
+  | { type: 'subtotal'; label: string; value: number };
+
+export interface DocumentTable {
+  columns: DocumentColumn[];
+  rows: DocumentRow[];
+}
+
+export type MetricTone = 'primary' | 'success' | 'warning';
+
+export interface DocumentMetric {
+  label: string;
+  value: number;
+  format: DocumentValueFormat;
+  tone: MetricTone;
+}
+
+export type DocumentSection =
+  | { type: 'table'; title: string; table: DocumentTable }
+  | { type: 'metrics'; title: string; metrics: DocumentMetric[] };
+
+export interface DocumentTotal {
+  label: string;
+  value: number;
+  format: DocumentValueFormat;
+  // Drawn as the highlighted grand total
+  emphasis?: boolean;
+  signed?: boolean;
+}
+
+// Verification code of a stored quote version and the link that checks it
+export interface DocumentVerification {
+  code: string;
+  url: string;
+}
+
+export interface QuoteDocument {
+  kind: DocumentKind;
+  title: string;
+  // ISO 4217 code all currency values are in
+  currency: string;
+  // File name without extension
+  filename: string;
+  header: DocumentField[];
+  sections: DocumentSection[];
+  totals: DocumentTotal[];
+  verification?: DocumentVerification;
+  // Drawn across every page, e.g. for quotes that are not approved yet
+  watermark?: string;
+}
+
+// A cell of the flattened grid used by the spreadsheet-style renderers
+export interface DocumentGridCell {
+  value: DocumentValue;
+  format: DocumentValueFormat;
+}
+
+export const DEFAULT_DOCUMENT_TITLES: Record<DocumentKind, string> = {
+  quote: 'PROJECT QUOTE',
+  analysis: 'COST ANALYSIS REPORT',
+};
+
+/**
+ * Format a value for display
+ * @param value - Raw value
+ * @param format - Display format
+ * @param currency - Currency of currency values
+ * @returns Display text; negative currency is written as "-Kshs 1,000.00"
+ */
+export function formatDocumentValue(value: DocumentValue, format: DocumentValueFormat, currency?: string): string {
+  if (typeof value === 'string') return value;
+  switch (format) {
+    case 'currency':
+      return value < 0 ? `-${formatCurrency(-value, currency)}` : formatCurrency(value, currency);
+    case 'percent':
+      return `${formatNumber(value)}%`;
+    case 'number':
+      return formatNumber(value);
+    case 'integer':
+      return formatNumber(value, 0);
+    default:
+      return value.toString();
+  }
+}
+
+const toFilenamePart = (value: string) => value.replace(/\s+/g, '_');
+
+function projectFields(header: QuoteHeader, date: string, currency: string, quoteReference?: string): DocumentField[] {
+  return [
+    { label: 'Client Name', value: header.clientName },
+    { label: 'Project Name', value: header.projectName },
+    ...(quoteReference ? [{ label: 'Quote No', value: quoteReference }] : []),
+    { label: 'Account Manager', value: header.accountManager },
+    { label: 'Project Duration', value: header.projectDuration },
+    { label: 'Generated', value: date },
+    { label: 'Currency', value: currency },
+  ];
+}
+
+export interface QuoteDocumentOptions {
+  // Generation date as displayed on the document
+  date: string;
+  layout?: QuoteLayout;
+  verification?: DocumentVerification;
+  watermark?: string;
+}
+
+/**
+ * Build the client-facing quote document
+ * @param quote - A generated quote or history item
+ * @param options - Display date, item layout, the verification code of the stored version and any watermark
+ * @returns The document model
+ */
+export function buildQuoteDocument(
+  quote: FullQuote,
+  { date, layout = 'flat', verification, watermark }: QuoteDocumentOptions
+): QuoteDocument {
+  const hasLineDiscounts = quote.items.some((item) => item.discountAmount > 0);
+  const columns: DocumentColumn[] = [
+    { label: 'Item Ref No', format: 'text', width: 20 },
+    { label: 'Category', format: 'text', width: hasLineDiscounts ? 18 : 22 },
+    { label: 'Subcategory', format: 'text', width: hasLineDiscounts ? 18 : 22 },
+    { label: 'Description', format: 'text' },
+    { label: 'Standard Cost', format: 'currency', width: 24 },
+    { label: 'Quantity', format: 'integer', width: 15 },
+    { label: 'Duration', format: 'integer', width: 15 },
+    ...(hasLineDiscounts ? [{ label: 'Discount', format: 'currency', width: 22 } as DocumentColumn] : []),
+    { label: 'Total', format: 'currency', width: 26 },
+  ];
+
+  const toRow = (item: FullQuote['items'][number]): DocumentRow => ({
+    type: 'item',
+    values: [
+      item.itemRefNo,
+      item.category,
+      item.subcategory,
+      item.detailedDescription,
+      item.standardCost,
+      Number(item.quantity),
+      Number(item.duration),
+      ...(hasLineDiscounts ? [item.discountAmount] : []),
+      item.total,
+    ],
+  });
+
+  const groups = groupQuoteItems(quote.items);
+  const rows: DocumentRow[] = [];
+  if (layout === 'flat') {
+    rows.push(...quote.items.map(toRow));
+  } else {
+    groups.forEach((group) => {
+      rows.push({ type: 'group', label: group.category, level: 1 });
+      if (layout === 'subcategory') {
+        group.subgroups.forEach((subgroup) => {
+          rows.push({ type: 'group', label: subgroup.subcategory, level: 2 });
+          rows.push(...subgroup.items.map(toRow));
+          rows.push({ type: 'subtotal', label: `Subtotal – ${subgroup.subcategory}`, value: subgroup.subtotal });
+        });
+      } else {
+        rows.push(...group.items.map(toRow));
+      }
+      rows.push({ type: 'subtotal', label: `Subtotal – ${group.category}`, value: group.subtotal });
+    });
+  }
+
+  const sections: DocumentSection[] = [{ type: 'table', title: 'Quote Items', table: { columns, rows } }];
+  if (layout !== 'flat') {
+    sections.push({
+      type: 'table',
+      title: 'Summary by Category',
+      table: {
+        columns: [
+          { label: 'Category', format: 'text' },
+          { label: 'Items', format: 'integer', width: 20 },
+          { label: 'Subtotal', format: 'currency', width: 40 },
+          { label: '% of Total', format: 'percent', width: 25 },
+        ],
+        rows: groups.map((group) => ({
+          type: 'item',
+          values: [
+            group.category,
+            group.items.length,
+            group.subtotal,
+            quote.total > 0 ? (group.subtotal / quote.total) * 100 : 0,
+          ],
+        })),
+      },
+    });
+  }
+
+  return {
+    kind: 'quote',
+    title: DEFAULT_DOCUMENT_TITLES.quote,
+    currency: quote.currency,
+    filename: `quote_${quote.quoteNumber}-v${quote.version}_${toFilenamePart(quote.header.projectName)}`,
+    header: projectFields(quote.header, date, quote.currency, formatQuoteReference(quote)),
+    sections,
+    totals: [
+      ...getTotalsBreakdown(quote).map(([label, value]): DocumentTotal => ({ label, value, format: 'currency' })),
+      { label: 'Grand Total', value: quote.total, format: 'currency', emphasis: true },
+    ],
+    verification,
+    watermark,
+  };
+}
+
+// A canister analysis of a quote, with the project it belongs to
+export interface AnalysisDocumentInput extends AnalysisSummary {
+  header: QuoteHeader;
+}
+
+/**
+ * Build the internal cost analysis document
+ * @param analysis - Analysis from the canister and the project header
+ * @param date - Generation date as displayed on the document
+ * @param fileDate - Date used in the file name, e.g. "2026-03-01"
+ * @returns The document model
+ */
+export function buildAnalysisDocument(analysis: AnalysisDocumentInput, date: string, fileDate: string): QuoteDocument {
+  return {
+    kind: 'analysis',
+    title: DEFAULT_DOCUMENT_TITLES.analysis,
+    currency: analysis.currency,
+    filename: `analysis_${toFilenamePart(analysis.header.projectName)}_${fileDate}`,
+    header: projectFields(analysis.header, date, analysis.currency),
+    sections: [
+      {
+        type: 'metrics',
+        title: 'Financial Summary',
+        metrics: [
+          { label: 'Total Revenue', value: analysis.totalRevenue, format: 'currency', tone: 'primary' },
+          { label: 'Gross Profit', value: analysis.grossProfit, format: 'currency', tone: 'success' },
+          { label: 'Margin', value: analysis.marginPercentage, format: 'percent', tone: 'warning' },
+        ],
+      },
+      {
+        type: 'table',
+        title: 'By Category',
+        table: {
+          columns: [
+            { label: 'Category', format: 'text' },
+            { label: 'Items', format: 'integer', width: 14 },
+            { label: 'Revenue', format: 'currency', width: 26 },
+            { label: 'Cost', format: 'currency', width: 26 },
+            { label: 'Gross Profit', format: 'currency', width: 26, signed: true },
+            { label: 'Margin %', format: 'percent', width: 18, signed: true },
+          ],
+          rows: analysis.categories.map((category) => ({
+            type: 'item',
+            values: [
+              category.category,
+              Number(category.itemCount),
+              category.revenue,
+              category.cost,
+              category.grossProfit,
+              category.marginPercentage,
+            ],
+          })),
+        },
+      },
+      {
+        type: 'table',
+        title: 'Detailed Analysis',
+        table: {
+          columns: [
+            { label: '#', format: 'integer', width: 8 },
+            { label: 'Ref', format: 'text', width: 15 },
+            { label: 'Description', format: 'text' },
+            { label: 'Qty', format: 'integer', width: 10 },
+            { label: 'Dur', format: 'integer', width: 10 },
+            { label: 'Ops Cost', format: 'currency', width: 17 },
+            { label: 'Std Cost', format: 'currency', width: 17 },
+            { label: 'Revenue', format: 'currency', width: 20 },
+            { label: 'Cost', format: 'currency', width: 20 },
+            { label: 'Profit', format: 'currency', width: 20, signed: true },
+            { label: 'Margin %', format: 'percent', width: 14, signed: true },
+          ],
+          rows: analysis.items.map((item, index) => ({
+            type: 'item',
+            values: [
+              index + 1,
+              item.itemRefNo,
+              item.detailedDescription,
+              Number(item.quantity),
+              Number(item.duration),
+              item.opsBriskCost,
+              item.standardCost,
+              item.revenue,
+              item.cost,
+              item.grossProfit,
+              item.marginPercentage,
+            ],
+          })),
+        },
+      },
+    ],
+    totals: [
+      { label: 'Total Revenue', value: analysis.totalRevenue, format: 'currency' },
+      { label: 'Total Cost', value: analysis.totalCost, format: 'currency' },
+      { label: 'Gross Profit', value: analysis.grossProfit, format: 'currency', signed: true },
+      { label: 'Margin', value: analysis.marginPercentage, format: 'percent', signed: true },
+    ],
+  };
+}
+
+/**
+ * Flatten a document into rows of cells for spreadsheet-style output: title and any watermark, header fields,
+ * each section and the totals, separated by blank rows. Totals line up under the last column of the widest table.
+ * @param document - The document model
+ * @returns Rows of cells
+ */
+export function documentToGrid(document: QuoteDocument): DocumentGridCell[][] {
+  const text = (value: string): DocumentGridCell => ({ value, format: 'text' });
+  const blank = text('');
+  const width = Math.max(
+    2,
+    ...document.sections.map((section) => (section.type === 'table' ? section.table.columns.length : 2))
+  );
+  const rightAligned = (label: string, cell: DocumentGridCell) => [
+    ...Array<DocumentGridCell>(width - 2).fill(blank),
+    text(label),
+    cell,
+  ];
+
+  const grid: DocumentGridCell[][] = [[text(document.title)], ...(document.watermark ? [[text(document.watermark)]] : []), []];
+  document.header.forEach((field) => grid.push([text(field.label), text(field.value)]));
+
+  for (const section of document.sections) {
+    grid.push([], [text(section.title)]);
+    if (section.type === 'metrics') {
+      section.metrics.forEach((metric) => grid.push([text(metric.label), { value: metric.value, format: metric.format }]));
+      continue;
+    }
+
+    const { columns, rows } = section.table;
+    grid.push(columns.map((column) => text(column.label)));
+    for (const row of rows) {
+      if (row.type === 'item') {
+        grid.push(row.values.map((value, index) => ({ value, format: columns[index].format })));
+      } else if (row.type === 'group') {
+        grid.push([text(row.label)]);
+      } else {
+        grid.push([...Array<DocumentGridCell>(columns.length - 2).fill(blank), text(row.label), { value: row.value, format: 'currency' }]);
+      }
+    }
+  }
+
+  grid.push([]);
+  document.totals.forEach((total) => grid.push(rightAligned(total.label, { value: total.value, format: total.format })));
+  return grid;
+}
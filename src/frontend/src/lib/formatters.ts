@@ -1,31 +1,122 @@
-// Utility functions for formatting numbers and currency
+// Utility functions for formatting numbers, currency and dates in the organisation locale and time zone
+
+import { BASE_CURRENCY, currencyFractionDigits, currencyLabel } from './currency';
+import { getLocaleSettings } from './locale';
+
+type DateValue = bigint | Date;
+
+// Canister timestamps are nanoseconds since the epoch
+const toDate = (value: DateValue) => (value instanceof Date ? value : new Date(Number(value) / 1000000));
+
+// Some locales group digits or separate AM/PM with a narrow no-break space, which the standard PDF fonts lack
+const withPlainSpaces = (text: string) => text.replace(/\u202f/g, '\u00a0');
 
 /**
- * Format a number with thousand separators and two decimal places
+ * Format a number with the locale's digit grouping and decimal separator
  * @param value - The number to format
- * @returns Formatted string with thousand separators and 2 decimal places
+ * @param fractionDigits - Number of decimal places, 2 by default
+ * @returns Formatted number, e.g. "1,200.00" or "1.200,00"
  */
-export function formatNumber(value: number): string {
-  return value.toLocaleString('en-US', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  });
+export function formatNumber(value: number, fractionDigits = 2): string {
+  return withPlainSpaces(
+    value.toLocaleString(getLocaleSettings().locale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    })
+  );
 }
 
 /**
- * Format a number as currency with "Kshs" prefix
+ * Format a number in the locale's short form for chart axes, e.g. "1.2M" or "1,2 Mio."
  * @param value - The number to format
+ * @returns Abbreviated number
+ */
+export function formatCompactNumber(value: number): string {
+  return withPlainSpaces(
+    value.toLocaleString(getLocaleSettings().locale, {
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    })
+  );
+}
+
+/**
+ * Format a number as currency, e.g. "Kshs 1,200.00" or "UGX 45,000"
+ * @param value - The number to format
+ * @param currency - ISO 4217 currency code; rate card amounts are in the base currency
  * @returns Formatted currency string
  */
-export function formatCurrency(value: number): string {
-  return `Kshs ${formatNumber(value)}`;
+export function formatCurrency(value: number, currency: string = BASE_CURRENCY): string {
+  return `${currencyLabel(currency)} ${formatNumber(value, currencyFractionDigits(currency))}`;
 }
 
 /**
  * Format a percentage with one decimal place
- * @param value - The percentage value to format
+ * @param value - The percentage value to format, e.g. 12.5 for 12.5%
  * @returns Formatted percentage string
  */
 export function formatPercentage(value: number): string {
-  return `${value.toFixed(1)}%`;
+  return withPlainSpaces(
+    (value / 100).toLocaleString(getLocaleSettings().locale, {
+      style: 'percent',
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    })
+  );
+}
+
+/**
+ * Format a date in the organisation time zone, e.g. "3 Mar 2026"
+ * @param value - Canister timestamp in nanoseconds, or a date
+ * @returns Formatted date string
+ */
+export function formatDate(value: DateValue): string {
+  const { locale, timeZone } = getLocaleSettings();
+  return withPlainSpaces(
+    toDate(value).toLocaleDateString(locale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone,
+    })
+  );
+}
+
+/**
+ * Format the month of a date in the organisation time zone, e.g. "Mar 2026"
+ * @param value - Canister timestamp in nanoseconds, or a date
+ * @returns Formatted month and year
+ */
+export function formatMonth(value: DateValue): string {
+  const { locale, timeZone } = getLocaleSettings();
+  return withPlainSpaces(toDate(value).toLocaleDateString(locale, { year: 'numeric', month: 'short', timeZone }));
+}
+
+/**
+ * Format a date and time in the organisation time zone, e.g. "3 Mar 2026, 14:05"
+ * @param value - Canister timestamp in nanoseconds, or a date
+ * @returns Formatted date and time string
+ */
+export function formatDateTime(value: DateValue): string {
+  const { locale, timeZone } = getLocaleSettings();
+  return withPlainSpaces(
+    toDate(value).toLocaleString(locale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone,
+    })
+  );
+}
+
+/**
+ * Calendar date in the organisation time zone for file names, e.g. "2026-03-03"
+ * @param value - Canister timestamp in nanoseconds, or a date
+ * @returns The date as YYYY-MM-DD
+ */
+export function formatFileDate(value: DateValue): string {
+  // Swedish formats dates as YYYY-MM-DD
+  return toDate(value).toLocaleDateString('sv-SE', { timeZone: getLocaleSettings().timeZone });
 }
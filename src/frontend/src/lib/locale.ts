@@ -0,0 +1,70 @@
+// Organisation locale: number grouping, decimal separators, date formats and time zone used by every formatter
+
+import type { LocaleSettings } from '../backend';
+
+// Used until the canister settings have loaded; must match the canister default
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  locale: 'en-KE',
+  timeZone: 'Africa/Nairobi',
+};
+
+// Offered in the settings form; any locale and time zone known to the browser are accepted
+export const SUGGESTED_LOCALES = ['en-KE', 'en-US', 'en-GB', 'fr-FR', 'de-DE', 'sw-KE'];
+export const SUGGESTED_TIME_ZONES = ['Africa/Nairobi', 'Africa/Kampala', 'Africa/Dar_es_Salaam', 'Europe/London', 'UTC'];
+
+let activeSettings: LocaleSettings = DEFAULT_LOCALE_SETTINGS;
+
+/**
+ * Make a locale setting the one used by the formatters
+ * @param settings - Locale and time zone; unknown values fall back to the defaults
+ */
+export function applyLocaleSettings(settings: LocaleSettings): void {
+  activeSettings = {
+    locale: isValidLocale(settings.locale) ? settings.locale : DEFAULT_LOCALE_SETTINGS.locale,
+    timeZone: isValidTimeZone(settings.timeZone) ? settings.timeZone : DEFAULT_LOCALE_SETTINGS.timeZone,
+  };
+}
+
+/**
+ * The locale setting currently used by the formatters
+ * @returns Locale and time zone
+ */
+export function getLocaleSettings(): LocaleSettings {
+  return activeSettings;
+}
+
+/**
+ * The decimal separator of the locale setting currently used by the formatters
+ * @returns The separator, e.g. "." for en-KE or "," for de-DE
+ */
+export function getDecimalSeparator(): string {
+  const parts = new Intl.NumberFormat(activeSettings.locale).formatToParts(1.5);
+  return parts.find((part) => part.type === 'decimal')?.value ?? '.';
+}
+
+/**
+ * Check that the browser can format numbers and dates in a locale
+ * @param locale - BCP 47 language tag, e.g. "en-KE"
+ * @returns Whether the tag is well-formed and supported
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that the browser knows a time zone
+ * @param timeZone - IANA time zone, e.g. "Africa/Nairobi"
+ * @returns Whether dates can be shown in the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,54 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { analysis, header, quote } from './__fixtures__/quote';
+import { buildAnalysisDocument, buildQuoteDocument, type QuoteDocument } from './documentModel';
+import { applyLocaleSettings, DEFAULT_LOCALE_SETTINGS } from './locale';
+import { renderDocumentToPdf } from './pdfExporter';
+import { NOT_APPROVED_WATERMARK } from './quoteStatus';
+
+// Golden files are compared byte for byte; run with UPDATE_GOLDEN=1 to rewrite them after an intended change
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+const DATE = '1 Mar 2026';
+const verification = { code: 'ABCD-EFGH-JKLM', url: 'https://quotes.example.com/verify/Q-2026-00042-v2?code=ABCDEFGHJKLM' };
+
+// The creation date and file ID are the only parts of the output that change between runs
+async function renderPdf(document: QuoteDocument): Promise<Buffer> {
+  const doc = await renderDocumentToPdf(document);
+  doc.setCreationDate("D:20260301090000+03'00'");
+  doc.setFileId('00112233445566778899AABBCCDDEEFF');
+  return Buffer.from(doc.output(), 'latin1');
+}
+
+function expectGolden(pdf: Buffer, name: string) {
+  const path = new URL(`./__golden__/${name}`, import.meta.url);
+  // Like snapshots, a missing golden file is only written outside CI
+  if (UPDATE_GOLDEN || (!existsSync(path) && !process.env.CI)) {
+    writeFileSync(path, pdf);
+  }
+  expect(pdf.equals(readFileSync(path)), `${name} differs from its golden file`).toBe(true);
+}
+
+beforeAll(() => {
+  applyLocaleSettings(DEFAULT_LOCALE_SETTINGS);
+});
+
+describe('renderDocumentToPdf', () => {
+  it('renders the same output for the same document', async () => {
+    const document = buildQuoteDocument(quote, { date: DATE });
+    expect((await renderPdf(document)).equals(await renderPdf(document))).toBe(true);
+  });
+
+  it('matches the golden quote PDF', async () => {
+    expectGolden(await renderPdf(buildQuoteDocument(quote, { date: DATE, layout: 'category' })), 'quote.pdf');
+  });
+
+  it('matches the golden verified quote PDF with a watermark', async () => {
+    const document = buildQuoteDocument(quote, { date: DATE, verification, watermark: NOT_APPROVED_WATERMARK });
+    expectGolden(await renderPdf(document), 'quote-unapproved.pdf');
+  });
+
+  it('matches the golden analysis PDF', async () => {
+    expectGolden(await renderPdf(buildAnalysisDocument({ ...analysis, header }, DATE, '2026-03-01')), 'analysis.pdf');
+  });
+});
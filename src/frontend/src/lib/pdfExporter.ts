@@ -1,104 +1,215 @@
-// PDF export utility using jsPDF and jspdf-autotable (loaded via CDN)
-
-declare global {
-  interface Window {
-    jspdf: any;
-  }
+// PDF renderer for the document model using jsPDF and jspdf-autotable, loaded on first use so they stay out of the
+// main bundle
+
+import type { GState, jsPDF } from 'jspdf';
+import type { default as AutoTable, CellHookData, RowInput } from 'jspdf-autotable/es';
+import type { PdfTemplate, ExternalBlob } from '../backend';
+import {
+  DEFAULT_DOCUMENT_TITLES,
+  formatDocumentValue,
+  type DocumentField,
+  type DocumentMetric,
+  type DocumentTable,
+  type DocumentTotal,
+  type DocumentVerification,
+  type MetricTone,
+  type QuoteDocument,
+} from './documentModel';
+
+type AutoTableFn = typeof AutoTable;
+
+type RGB = [number, number, number];
+
+// Branding applied to exported documents, resolved from a PdfTemplate
+export interface PdfBranding {
+  primaryColor: RGB;
+  accentColor: RGB;
+  textColor: RGB;
+  fontFamily: string;
+  quoteTitle: string;
+  analysisTitle: string;
+  footerText: string;
+  companyName: string;
+  addressLines: string[];
+  logo?: {
+    dataUrl: string;
+    width: number;
+    height: number;
+  };
 }
 
-interface QuoteItemForPDF {
-  itemRefNo: string;
-  category: string;
-  subcategory: string;
-  detailedDescription: string;
-  quantity: number;
-  duration: number;
-  standardCost: number;
-  total: number;
+// Fonts built into jsPDF; custom fonts would need to be embedded
+export const PDF_FONT_FAMILIES = ['helvetica', 'times', 'courier'];
+
+export const DEFAULT_PDF_BRANDING: PdfBranding = {
+  primaryColor: [59, 130, 246],
+  accentColor: [248, 250, 252],
+  textColor: [0, 0, 0],
+  fontFamily: 'helvetica',
+  quoteTitle: DEFAULT_DOCUMENT_TITLES.quote,
+  analysisTitle: DEFAULT_DOCUMENT_TITLES.analysis,
+  footerText: 'Generated by QuoteGen Application',
+  companyName: '',
+  addressLines: [],
+};
+
+// Convert a "#rrggbb" colour to RGB, falling back when the value is malformed
+function hexToRgb(hex: string, fallback: RGB): RGB {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  if (!match) return fallback;
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
 }
 
-interface AnalysisItemForPDF extends QuoteItemForPDF {
-  opsBriskCost: number;
-  margin: number;
-  marginPercentage: number;
-  totalMargin: number;
+// Mix a colour with white, used for tinted card backgrounds
+function tint(color: RGB, amount: number): RGB {
+  return color.map((channel) => Math.round(channel + (255 - channel) * amount)) as RGB;
 }
 
-interface QuoteHeaderForPDF {
-  clientName: string;
-  projectDuration: string;
-  accountManager: string;
-  projectName: string;
+// Load the logo from blob storage and re-encode it as PNG for jsPDF
+async function loadLogo(logo: ExternalBlob): Promise<PdfBranding['logo']> {
+  const bytes = await logo.getBytes();
+  const url = URL.createObjectURL(new Blob([bytes]));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load template logo'));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+    return {
+      dataUrl: canvas.toDataURL('image/png'),
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
 }
 
-interface QuoteDataForPDF {
-  header: QuoteHeaderForPDF;
-  items: QuoteItemForPDF[];
-  total: number;
-  date: string;
-}
+export async function resolvePdfBranding(template?: PdfTemplate | null): Promise<PdfBranding> {
+  if (!template) {
+    return DEFAULT_PDF_BRANDING;
+  }
 
-interface AnalysisDataForPDF {
-  header: QuoteHeaderForPDF;
-  items: AnalysisItemForPDF[];
-  totalRevenue: number;
-  totalCost: number;
-  totalProfit: number;
-  overallMarginPercentage: number;
-  date: string;
-}
+  let logo: PdfBranding['logo'];
+  if (template.logo) {
+    try {
+      logo = await loadLogo(template.logo);
+    } catch (error) {
+      // A missing logo should not block the export
+      console.warn('Template logo could not be loaded:', error);
+    }
+  }
 
-// Helper function to format currency with Kshs prefix
-function formatCurrency(value: number): string {
-  return `Kshs ${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  return {
+    primaryColor: hexToRgb(template.primaryColor, DEFAULT_PDF_BRANDING.primaryColor),
+    accentColor: hexToRgb(template.accentColor, DEFAULT_PDF_BRANDING.accentColor),
+    textColor: hexToRgb(template.textColor, DEFAULT_PDF_BRANDING.textColor),
+    fontFamily: PDF_FONT_FAMILIES.includes(template.fontFamily) ? template.fontFamily : DEFAULT_PDF_BRANDING.fontFamily,
+    quoteTitle: template.quoteTitle || DEFAULT_PDF_BRANDING.quoteTitle,
+    analysisTitle: template.analysisTitle || DEFAULT_PDF_BRANDING.analysisTitle,
+    footerText: template.footerText,
+    companyName: template.companyName,
+    addressLines: template.addressBlock.split('\n').map((line) => line.trim()).filter(Boolean),
+    logo,
+  };
 }
 
-// Helper function to format numbers with thousand separators
-function formatNumber(value: number): string {
-  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+// Y position below the table autoTable drew last
+function lastTableY(doc: jsPDF): number | undefined {
+  return (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY;
 }
 
-export function exportToPDF(data: QuoteDataForPDF | AnalysisDataForPDF, filename: string, isAnalysis: boolean = false): void {
-  // Check if jsPDF is loaded
-  if (typeof window.jspdf === 'undefined') {
-    throw new Error('PDF export library is not loaded. Please refresh the page and try again.');
-  }
+const MARGIN = 15;
+const POSITIVE_COLOR: RGB = [34, 197, 94];
+const NEGATIVE_COLOR: RGB = [220, 38, 38];
+
+const signColor = (value: number): RGB => (value < 0 ? NEGATIVE_COLOR : POSITIVE_COLOR);
+
+/**
+ * Draw a document with jsPDF without saving it, so the result can be downloaded or inspected
+ * @param document - The document model
+ * @param branding - Template branding
+ * @returns The jsPDF document
+ */
+export async function renderDocumentToPdf(
+  document: QuoteDocument,
+  branding: PdfBranding = DEFAULT_PDF_BRANDING
+): Promise<jsPDF> {
+  const [{ jsPDF, GState }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable/es')]);
+  const isAnalysis = document.kind === 'analysis';
+
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
 
-  // Check if autoTable plugin is available
-  if (typeof window.jspdf.jsPDF === 'undefined') {
-    throw new Error('PDF table plugin is not loaded. Please refresh the page and try again.');
-  }
+  // Set document properties
+  doc.setProperties({
+    title: isAnalysis ? 'Cost Analysis Report' : 'Project Quote',
+    subject: isAnalysis ? 'Cost Analysis' : 'Quote',
+    author: branding.companyName || 'QuoteGen',
+    keywords: 'quote, analysis, project',
+    creator: 'QuoteGen Application',
+  });
 
-  try {
-    const { jsPDF } = window.jspdf;
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-    });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const font = branding.fontFamily;
+
+  const title = isAnalysis ? branding.analysisTitle : branding.quoteTitle;
+  const titleRuleY = addDocumentHeader(doc, branding, title, pageWidth);
+  let y = addProjectInformation(doc, document.header, titleRuleY, branding, pageWidth);
 
-    // Verify autoTable is available
-    if (typeof doc.autoTable !== 'function') {
-      throw new Error('PDF table functionality is not available. Please refresh the page and try again.');
+  for (const section of document.sections) {
+    // Keep a section title together with the start of its content
+    if (y + 30 > pageHeight - 20) {
+      doc.addPage();
+      y = 12;
     }
 
-    // Set document properties
-    doc.setProperties({
-      title: isAnalysis ? 'Cost Analysis Report' : 'Project Quote',
-      subject: isAnalysis ? 'Cost Analysis' : 'Quote',
-      author: 'QuoteGen',
-      keywords: 'quote, analysis, project',
-      creator: 'QuoteGen Application',
-    });
+    doc.setFontSize(11);
+    doc.setFont(font, 'bold');
+    doc.setTextColor(...branding.textColor);
+    doc.text(section.title, MARGIN, y + 8);
 
-    if (isAnalysis) {
-      generateAnalysisPDF(doc, data as AnalysisDataForPDF);
+    if (section.type === 'metrics') {
+      y = addMetricCards(doc, section.metrics, y + 14, document.currency, branding, pageWidth);
     } else {
-      generateQuotePDF(doc, data as QuoteDataForPDF);
+      addTable(doc, autoTable, section.table, y + 14, document.currency, branding);
+      y = lastTableY(doc) ?? y + 14;
     }
+  }
 
-    // Save the PDF
-    doc.save(filename);
+  if (document.verification) {
+    const qrCode = await toQrCodeDataUrl(document.verification.url);
+    const totalsY = addTotals(doc, document.totals, y, document.currency, branding, pageWidth, pageHeight, VERIFICATION_HEIGHT);
+    addVerification(doc, document.verification, qrCode, totalsY, branding);
+  } else {
+    addTotals(doc, document.totals, y, document.currency, branding, pageWidth, pageHeight);
+  }
+  if (document.watermark) {
+    addWatermark(doc, document.watermark, new GState({ opacity: 0.15 }), font, pageWidth, pageHeight);
+  }
+  addFooter(doc, branding, pageWidth, pageHeight);
+
+  return doc;
+}
+
+/**
+ * Render a document and download it as a PDF
+ * @param document - The document model
+ * @param branding - Template branding
+ */
+export async function exportToPDF(document: QuoteDocument, branding: PdfBranding = DEFAULT_PDF_BRANDING): Promise<void> {
+  try {
+    const doc = await renderDocumentToPdf(document, branding);
+    doc.save(`${document.filename}.pdf`);
   } catch (error) {
     console.error('PDF generation error:', error);
     if (error instanceof Error) {
@@ -108,383 +219,318 @@ export function exportToPDF(data: QuoteDataForPDF | AnalysisDataForPDF, filename
   }
 }
 
-function generateQuotePDF(doc: any, data: QuoteDataForPDF): void {
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 15;
+// Title, logo and company address block. Returns the Y position of the rule under the title.
+function addDocumentHeader(doc: jsPDF, branding: PdfBranding, title: string, pageWidth: number): number {
+  const font = branding.fontFamily;
+  let rightY = 12;
+
+  if (branding.logo) {
+    const maxWidth = 50;
+    const maxHeight = 16;
+    const scale = Math.min(maxWidth / branding.logo.width, maxHeight / branding.logo.height);
+    const logoWidth = branding.logo.width * scale;
+    const logoHeight = branding.logo.height * scale;
+    doc.addImage(branding.logo.dataUrl, 'PNG', pageWidth - MARGIN - logoWidth, 8, logoWidth, logoHeight);
+    rightY = 8 + logoHeight + 4;
+  }
+
+  if (branding.companyName || branding.addressLines.length > 0) {
+    doc.setTextColor(...branding.textColor);
+    if (branding.companyName) {
+      doc.setFontSize(10);
+      doc.setFont(font, 'bold');
+      doc.text(branding.companyName, pageWidth - MARGIN, rightY, { align: 'right' });
+      rightY += 4.5;
+    }
+    doc.setFontSize(8);
+    doc.setFont(font, 'normal');
+    branding.addressLines.forEach((line) => {
+      doc.text(line, pageWidth - MARGIN, rightY, { align: 'right' });
+      rightY += 3.5;
+    });
+  }
 
   // Title
   doc.setFontSize(24);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(59, 130, 246); // Primary blue color
-  doc.text('PROJECT QUOTE', margin, 20);
+  doc.setFont(font, 'bold');
+  doc.setTextColor(...branding.primaryColor);
+  doc.text(title, MARGIN, 20);
 
   // Horizontal line under title
+  const ruleY = Math.max(25, rightY);
   doc.setDrawColor(200, 200, 200);
   doc.setLineWidth(0.5);
-  doc.line(margin, 25, pageWidth - margin, 25);
+  doc.line(MARGIN, ruleY, pageWidth - MARGIN, ruleY);
+
+  return ruleY;
+}
+
+// Project information in two columns, filling the left column first. Returns the Y position of the closing rule.
+function addProjectInformation(
+  doc: jsPDF,
+  fields: DocumentField[],
+  top: number,
+  branding: PdfBranding,
+  pageWidth: number
+): number {
+  const font = branding.fontFamily;
 
-  // Header Information Section
   doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Project Information', margin, 35);
+  doc.setFont(font, 'bold');
+  doc.setTextColor(...branding.textColor);
+  doc.text('Project Information', MARGIN, top + 10);
 
   doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-  
-  // Left column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Client Name:', margin, 42);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.clientName, margin + 35, 42);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Project Name:', margin, 48);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.projectName, margin + 35, 48);
-
-  // Right column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Account Manager:', pageWidth / 2, 42);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.accountManager, pageWidth / 2 + 40, 42);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Project Duration:', pageWidth / 2, 48);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.projectDuration, pageWidth / 2 + 40, 48);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Generated:', pageWidth / 2, 54);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.date, pageWidth / 2 + 40, 54);
+  const leftCount = Math.ceil(fields.length / 2);
+  fields.forEach((field, index) => {
+    const isLeft = index < leftCount;
+    const x = isLeft ? MARGIN : pageWidth / 2;
+    const rowY = top + 17 + (isLeft ? index : index - leftCount) * 6;
+    doc.setFont(font, 'bold');
+    doc.text(`${field.label}:`, x, rowY);
+    doc.setFont(font, 'normal');
+    doc.text(field.value, x + (isLeft ? 35 : 40), rowY);
+  });
 
   // Horizontal line after header
+  const ruleY = top + 15 + leftCount * 6;
   doc.setDrawColor(200, 200, 200);
   doc.setLineWidth(0.3);
-  doc.line(margin, 58, pageWidth - margin, 58);
+  doc.line(MARGIN, ruleY, pageWidth - MARGIN, ruleY);
 
-  // Items Section Title
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Quote Items', margin, 66);
-
-  // Prepare table data - matching UI column structure exactly
-  const tableData = data.items.map((item) => [
-    item.itemRefNo,
-    item.category,
-    item.subcategory,
-    item.detailedDescription,
-    formatCurrency(item.standardCost),
-    item.quantity.toString(),
-    item.duration.toString(),
-    formatCurrency(item.total),
-  ]);
-
-  // Generate table with autoTable - matching UI headers exactly
-  doc.autoTable({
-    startY: 72,
-    head: [['Item Ref No', 'Category', 'Subcategory', 'Description', 'Standard Cost', 'Quantity', 'Duration', 'Total']],
-    body: tableData,
+  return ruleY;
+}
+
+const METRIC_COLORS: Record<MetricTone, (branding: PdfBranding) => { fill: RGB; stroke: RGB }> = {
+  primary: (branding) => ({ fill: tint(branding.primaryColor, 0.9), stroke: branding.primaryColor }),
+  success: () => ({ fill: [240, 253, 244], stroke: POSITIVE_COLOR }),
+  warning: () => ({ fill: [254, 249, 231], stroke: [234, 179, 8] }),
+};
+
+// Row of summary cards. Returns the Y position below the cards.
+function addMetricCards(
+  doc: jsPDF,
+  metrics: DocumentMetric[],
+  top: number,
+  currency: string,
+  branding: PdfBranding,
+  pageWidth: number
+): number {
+  const gap = 5;
+  const cardWidth = (pageWidth - 2 * MARGIN - gap * (metrics.length - 1)) / metrics.length;
+
+  metrics.forEach((metric, index) => {
+    const x = MARGIN + index * (cardWidth + gap);
+    const { fill, stroke } = METRIC_COLORS[metric.tone](branding);
+
+    doc.setFillColor(...fill);
+    doc.rect(x, top, cardWidth, 18, 'F');
+    doc.setDrawColor(...stroke);
+    doc.setLineWidth(0.5);
+    doc.rect(x, top, cardWidth, 18);
+
+    doc.setFontSize(9);
+    doc.setFont(branding.fontFamily, 'normal');
+    doc.setTextColor(100, 100, 100);
+    doc.text(metric.label, x + 2, top + 5);
+    doc.setFontSize(12);
+    doc.setFont(branding.fontFamily, 'bold');
+    doc.setTextColor(...stroke);
+    doc.text(formatDocumentValue(metric.value, metric.format, currency), x + 2, top + 13);
+  });
+
+  return top + 18;
+}
+
+function addTable(
+  doc: jsPDF,
+  autoTable: AutoTableFn,
+  table: DocumentTable,
+  startY: number,
+  currency: string,
+  branding: PdfBranding
+): void {
+  const { columns, rows } = table;
+  // Wide tables (the cost analysis) use a smaller font so every column fits on the page
+  const compact = columns.length > 9;
+
+  const body: RowInput[] = rows.map((row): RowInput => {
+    if (row.type === 'group') {
+      return [
+        {
+          content: row.label,
+          colSpan: columns.length,
+          styles: {
+            fontStyle: 'bold',
+            fillColor: tint(branding.primaryColor, row.level === 1 ? 0.8 : 0.92),
+            textColor: branding.textColor,
+          },
+        },
+      ];
+    }
+    if (row.type === 'subtotal') {
+      return [
+        { content: row.label, colSpan: columns.length - 1, styles: { fontStyle: 'bold', halign: 'right', fillColor: [255, 255, 255] } },
+        { content: formatDocumentValue(row.value, 'currency', currency), styles: { fontStyle: 'bold', halign: 'right', fillColor: [255, 255, 255] } },
+      ];
+    }
+    return row.values.map((value, index) => formatDocumentValue(value, columns[index].format, currency));
+  });
+
+  autoTable(doc, {
+    startY,
+    head: [columns.map((column) => column.label)],
+    body,
     theme: 'grid',
     headStyles: {
-      fillColor: [59, 130, 246], // Primary blue
+      fillColor: branding.primaryColor,
       textColor: [255, 255, 255],
       fontStyle: 'bold',
-      fontSize: 9,
+      fontSize: compact ? 7 : 9,
       halign: 'center',
       valign: 'middle',
-      cellPadding: 3,
+      cellPadding: compact ? 2 : 3,
     },
     bodyStyles: {
-      fontSize: 8,
-      cellPadding: 2.5,
-      textColor: [0, 0, 0],
+      fontSize: compact ? 7 : 8,
+      cellPadding: compact ? 1.5 : 2.5,
+      textColor: branding.textColor,
     },
     alternateRowStyles: {
-      fillColor: [248, 250, 252], // Light gray for alternate rows
-    },
-    columnStyles: {
-      0: { cellWidth: 22, halign: 'left' },   // Item Ref No
-      1: { cellWidth: 24, halign: 'left' },   // Category
-      2: { cellWidth: 24, halign: 'left' },   // Subcategory
-      3: { cellWidth: 48, halign: 'left' },   // Description
-      4: { cellWidth: 26, halign: 'right' },  // Standard Cost
-      5: { cellWidth: 16, halign: 'right' },  // Quantity
-      6: { cellWidth: 16, halign: 'right' },  // Duration
-      7: { cellWidth: 28, halign: 'right' },  // Total
+      fillColor: branding.accentColor,
     },
+    columnStyles: Object.fromEntries(
+      columns.map((column, index) => [
+        index,
+        { cellWidth: column.width ?? 'auto', halign: column.format === 'text' ? 'left' : 'right' },
+      ])
+    ),
     styles: {
+      font: branding.fontFamily,
       lineColor: [200, 200, 200],
       lineWidth: 0.1,
     },
-    margin: { left: margin, right: margin },
+    margin: { left: MARGIN, right: MARGIN },
+    didParseCell: function (data: CellHookData) {
+      // Colour profit and margin figures by sign
+      const row = rows[data.row.index];
+      if (data.section !== 'body' || row?.type !== 'item' || !columns[data.column.index]?.signed) return;
+      const value = row.values[data.column.index];
+      if (typeof value === 'number') {
+        data.cell.styles.textColor = signColor(value);
+      }
+    },
+  });
+}
+
+// Totals breakdown, right-aligned under the last table, with the grand total in a highlighted box.
+// minHeight keeps room for content placed beside the totals. Returns the Y position of the first line.
+function addTotals(
+  doc: jsPDF,
+  totals: DocumentTotal[],
+  finalY: number,
+  currency: string,
+  branding: PdfBranding,
+  pageWidth: number,
+  pageHeight: number,
+  minHeight = 0
+): number {
+  const font = branding.fontFamily;
+  const lines = totals.filter((total) => !total.emphasis);
+  const grandTotal = totals.find((total) => total.emphasis);
+
+  let rowY = finalY + 8;
+  if (rowY + Math.max(lines.length * 6 + (grandTotal ? 16 : 0), minHeight) > pageHeight - 20) {
+    doc.addPage();
+    rowY = 23;
+  }
+
+  doc.setFontSize(10);
+  lines.forEach((total, index) => {
+    const lineY = rowY + index * 6;
+    doc.setTextColor(...branding.textColor);
+    doc.setFont(font, 'bold');
+    doc.text(`${total.label}:`, pageWidth - MARGIN - 70, lineY);
+    doc.setFont(font, 'normal');
+    if (total.signed) doc.setTextColor(...signColor(total.value));
+    doc.text(formatDocumentValue(total.value, total.format, currency), pageWidth - MARGIN - 5, lineY, { align: 'right' });
   });
 
-  // Grand Total Section
-  const finalY = (doc as any).lastAutoTable.finalY || 72;
-  
-  // Add some spacing
-  const totalY = finalY + 10;
+  if (!grandTotal) return rowY;
 
   // Draw a prominent box for the grand total
-  doc.setFillColor(59, 130, 246);
-  doc.rect(pageWidth - margin - 75, totalY - 6, 75, 14, 'F');
+  const totalY = rowY + lines.length * 6 + 6;
+  doc.setFillColor(...branding.primaryColor);
+  doc.rect(pageWidth - MARGIN - 75, totalY - 6, 75, 14, 'F');
 
   doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
+  doc.setFont(font, 'bold');
   doc.setTextColor(255, 255, 255);
-  doc.text('Grand Total:', pageWidth - margin - 70, totalY + 2);
+  doc.text(`${grandTotal.label}:`, pageWidth - MARGIN - 70, totalY + 2);
   doc.setFontSize(14);
-  doc.text(formatCurrency(data.total), pageWidth - margin - 5, totalY + 2, { align: 'right' });
+  doc.text(formatDocumentValue(grandTotal.value, grandTotal.format, currency), pageWidth - MARGIN - 5, totalY + 2, { align: 'right' });
 
-  // Footer
-  addFooter(doc, pageWidth, pageHeight, margin);
+  return rowY;
 }
 
-function generateAnalysisPDF(doc: any, data: AnalysisDataForPDF): void {
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const margin = 15;
-
-  // Title
-  doc.setFontSize(24);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(59, 130, 246); // Primary blue color
-  doc.text('COST ANALYSIS REPORT', margin, 20);
+// QR code size in millimetres; the verification block is as tall as the code
+const QR_CODE_SIZE = 26;
+const VERIFICATION_HEIGHT = QR_CODE_SIZE;
 
-  // Horizontal line under title
-  doc.setDrawColor(200, 200, 200);
-  doc.setLineWidth(0.5);
-  doc.line(margin, 25, pageWidth - margin, 25);
-
-  // Header Information Section
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Project Information', margin, 35);
-
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'normal');
-  
-  // Left column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Client Name:', margin, 42);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.clientName, margin + 35, 42);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Project Name:', margin, 48);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.projectName, margin + 35, 48);
-
-  // Right column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Account Manager:', pageWidth / 2, 42);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.accountManager, pageWidth / 2 + 40, 42);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Project Duration:', pageWidth / 2, 48);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.header.projectDuration, pageWidth / 2 + 40, 48);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Generated:', pageWidth / 2, 54);
-  doc.setFont('helvetica', 'normal');
-  doc.text(data.date, pageWidth / 2 + 40, 54);
-
-  // Horizontal line after header
-  doc.setDrawColor(200, 200, 200);
-  doc.setLineWidth(0.3);
-  doc.line(margin, 58, pageWidth - margin, 58);
+async function toQrCodeDataUrl(url: string): Promise<string> {
+  const { toDataURL } = await import('qrcode');
+  return toDataURL(url, { errorCorrectionLevel: 'M', margin: 0, width: 256 });
+}
 
-  // Summary Cards Section
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Financial Summary', margin, 66);
+// QR code and verification code, left of the totals
+function addVerification(
+  doc: jsPDF,
+  verification: DocumentVerification,
+  qrCode: string,
+  top: number,
+  branding: PdfBranding
+): void {
+  const font = branding.fontFamily;
+  const textX = MARGIN + QR_CODE_SIZE + 4;
 
-  const summaryY = 72;
-  const cardWidth = (pageWidth - 2 * margin - 10) / 3;
+  doc.addImage(qrCode, 'PNG', MARGIN, top - 4, QR_CODE_SIZE, QR_CODE_SIZE, undefined, 'FAST');
 
-  // Total Revenue Card
-  doc.setFillColor(239, 246, 255);
-  doc.rect(margin, summaryY, cardWidth, 18, 'F');
-  doc.setDrawColor(59, 130, 246);
-  doc.setLineWidth(0.5);
-  doc.rect(margin, summaryY, cardWidth, 18);
-  
+  doc.setTextColor(...branding.textColor);
   doc.setFontSize(9);
-  doc.setTextColor(100, 100, 100);
-  doc.text('Total Revenue', margin + 2, summaryY + 5);
+  doc.setFont(font, 'bold');
+  doc.text('Verify this quote', textX, top);
   doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(59, 130, 246);
-  doc.text(formatCurrency(data.totalRevenue), margin + 2, summaryY + 13);
-
-  // Total Profit Card
-  const profitX = margin + cardWidth + 5;
-  doc.setFillColor(240, 253, 244);
-  doc.rect(profitX, summaryY, cardWidth, 18, 'F');
-  doc.setDrawColor(34, 197, 94);
-  doc.setLineWidth(0.5);
-  doc.rect(profitX, summaryY, cardWidth, 18);
-  
-  doc.setFontSize(9);
+  doc.setFont('courier', 'bold');
+  doc.text(verification.code, textX, top + 6);
+  doc.setFontSize(7);
+  doc.setFont(font, 'normal');
   doc.setTextColor(100, 100, 100);
-  doc.text('Total Profit', profitX + 2, summaryY + 5);
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(34, 197, 94);
-  doc.text(formatCurrency(data.totalProfit), profitX + 2, summaryY + 13);
-
-  // Margin Percentage Card
-  const marginX = profitX + cardWidth + 5;
-  doc.setFillColor(254, 249, 231);
-  doc.rect(marginX, summaryY, cardWidth, 18, 'F');
-  doc.setDrawColor(234, 179, 8);
-  doc.setLineWidth(0.5);
-  doc.rect(marginX, summaryY, cardWidth, 18);
-  
-  doc.setFontSize(9);
-  doc.setTextColor(100, 100, 100);
-  doc.text('Overall Margin', marginX + 2, summaryY + 5);
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(234, 179, 8);
-  doc.text(`${formatNumber(data.overallMarginPercentage)}%`, marginX + 2, summaryY + 13);
-
-  // Items Section Title
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Detailed Analysis', margin, summaryY + 26);
-
-  // Prepare table data
-  const tableData = data.items.map((item, index) => [
-    (index + 1).toString(),
-    item.itemRefNo,
-    item.detailedDescription,
-    item.quantity.toString(),
-    item.duration.toString(),
-    formatCurrency(item.opsBriskCost),
-    formatCurrency(item.standardCost),
-    formatCurrency(item.margin),
-    `${formatNumber(item.marginPercentage)}%`,
-    formatCurrency(item.total),
-    formatCurrency(item.totalMargin),
-  ]);
-
-  // Generate table with autoTable
-  doc.autoTable({
-    startY: summaryY + 32,
-    head: [['#', 'Ref', 'Description', 'Qty', 'Dur', 'Ops Cost', 'Std Cost', 'Margin', 'Margin %', 'Revenue', 'Profit']],
-    body: tableData,
-    theme: 'grid',
-    headStyles: {
-      fillColor: [59, 130, 246], // Primary blue
-      textColor: [255, 255, 255],
-      fontStyle: 'bold',
-      fontSize: 7,
-      halign: 'center',
-      valign: 'middle',
-      cellPadding: 2,
-    },
-    bodyStyles: {
-      fontSize: 7,
-      cellPadding: 1.5,
-      textColor: [0, 0, 0],
-    },
-    alternateRowStyles: {
-      fillColor: [248, 250, 252], // Light gray for alternate rows
-    },
-    columnStyles: {
-      0: { cellWidth: 8, halign: 'center' },
-      1: { cellWidth: 15, halign: 'left' },
-      2: { cellWidth: 35, halign: 'left' },
-      3: { cellWidth: 10, halign: 'right' },
-      4: { cellWidth: 10, halign: 'right' },
-      5: { cellWidth: 20, halign: 'right' },
-      6: { cellWidth: 20, halign: 'right' },
-      7: { cellWidth: 18, halign: 'right' },
-      8: { cellWidth: 15, halign: 'right' },
-      9: { cellWidth: 22, halign: 'right' },
-      10: { cellWidth: 22, halign: 'right' },
-    },
-    styles: {
-      lineColor: [200, 200, 200],
-      lineWidth: 0.1,
-    },
-    margin: { left: margin, right: margin },
-    didParseCell: function (data: any) {
-      // Color code margin cells
-      if (data.section === 'body' && (data.column.index === 7 || data.column.index === 8 || data.column.index === 10)) {
-        const cellValue = data.cell.raw;
-        if (typeof cellValue === 'string') {
-          // Check if it's a negative value
-          if (cellValue.includes('-') || (cellValue.includes('%') && parseFloat(cellValue) < 0)) {
-            data.cell.styles.textColor = [220, 38, 38]; // Red for negative
-          } else {
-            data.cell.styles.textColor = [34, 197, 94]; // Green for positive
-          }
-        }
-      }
-    },
-  });
-
-  // Summary Section
-  const finalY = (doc as any).lastAutoTable.finalY || summaryY + 32;
-  const summaryBoxY = finalY + 10;
-
-  // Draw summary box
-  doc.setFillColor(248, 250, 252);
-  doc.rect(margin, summaryBoxY, pageWidth - 2 * margin, 30, 'F');
-  doc.setDrawColor(200, 200, 200);
-  doc.setLineWidth(0.3);
-  doc.rect(margin, summaryBoxY, pageWidth - 2 * margin, 30);
-
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(0, 0, 0);
-  doc.text('Summary', margin + 5, summaryBoxY + 7);
+  doc.text(doc.splitTextToSize('Scan the code or open the link to check this document against the issued quote:', 64), textX, top + 11);
+  doc.text(doc.splitTextToSize(verification.url, 64), textX, top + 17.5);
+}
 
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-
-  // Left column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Total Revenue:', margin + 5, summaryBoxY + 14);
-  doc.setFont('helvetica', 'normal');
-  doc.text(formatCurrency(data.totalRevenue), margin + 40, summaryBoxY + 14);
-
-  doc.setFont('helvetica', 'bold');
-  doc.text('Total Cost:', margin + 5, summaryBoxY + 20);
-  doc.setFont('helvetica', 'normal');
-  doc.text(formatCurrency(data.totalCost), margin + 40, summaryBoxY + 20);
-
-  // Right column
-  doc.setFont('helvetica', 'bold');
-  doc.text('Total Profit:', pageWidth / 2, summaryBoxY + 14);
-  doc.setFont('helvetica', 'normal');
-  const profitColor = data.totalProfit >= 0 ? [34, 197, 94] : [220, 38, 38];
-  doc.setTextColor(...profitColor);
-  doc.text(formatCurrency(data.totalProfit), pageWidth / 2 + 30, summaryBoxY + 14);
-
-  doc.setTextColor(0, 0, 0);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Overall Margin:', pageWidth / 2, summaryBoxY + 20);
-  doc.setFont('helvetica', 'normal');
-  const marginColor = data.overallMarginPercentage >= 0 ? [34, 197, 94] : [220, 38, 38];
-  doc.setTextColor(...marginColor);
-  doc.text(`${formatNumber(data.overallMarginPercentage)}%`, pageWidth / 2 + 30, summaryBoxY + 20);
-
-  // Footer
-  addFooter(doc, pageWidth, pageHeight, margin);
+// Large diagonal text across the middle of every page, translucent so the content underneath stays readable
+function addWatermark(doc: jsPDF, text: string, translucent: GState, font: string, pageWidth: number, pageHeight: number): void {
+  const angle = 45;
+  doc.setFont(font, 'bold');
+  doc.setFontSize(48);
+  // jsPDF does not centre rotated text, so start half the text width back along the diagonal
+  const halfWidth = doc.getTextWidth(text) / 2;
+  const x = pageWidth / 2 - halfWidth * Math.cos((angle * Math.PI) / 180);
+  const y = pageHeight / 2 + halfWidth * Math.sin((angle * Math.PI) / 180);
+
+  for (let i = 1; i <= doc.getNumberOfPages(); i++) {
+    doc.setPage(i);
+    doc.saveGraphicsState();
+    doc.setGState(translucent);
+    doc.setTextColor(...NEGATIVE_COLOR);
+    doc.text(text, x, y, { angle });
+    doc.restoreGraphicsState();
+  }
 }
 
-function addFooter(doc: any, pageWidth: number, pageHeight: number, margin: number): void {
-  const totalPages = doc.internal.getNumberOfPages();
+function addFooter(doc: jsPDF, branding: PdfBranding, pageWidth: number, pageHeight: number): void {
+  const totalPages = doc.getNumberOfPages();
 
   for (let i = 1; i <= totalPages; i++) {
     doc.setPage(i);
@@ -492,13 +538,15 @@ function addFooter(doc: any, pageWidth: number, pageHeight: number, margin: numb
     // Footer line
     doc.setDrawColor(200, 200, 200);
     doc.setLineWidth(0.3);
-    doc.line(margin, pageHeight - 15, pageWidth - margin, pageHeight - 15);
+    doc.line(MARGIN, pageHeight - 15, pageWidth - MARGIN, pageHeight - 15);
 
     // Footer text
     doc.setFontSize(8);
-    doc.setFont('helvetica', 'normal');
+    doc.setFont(branding.fontFamily, 'normal');
     doc.setTextColor(100, 100, 100);
-    doc.text('Generated by QuoteGen Application', margin, pageHeight - 10);
-    doc.text(`Page ${i} of ${totalPages}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+    if (branding.footerText) {
+      doc.text(branding.footerText, MARGIN, pageHeight - 10);
+    }
+    doc.text(`Page ${i} of ${totalPages}`, pageWidth - MARGIN, pageHeight - 10, { align: 'right' });
   }
 }
@@ -0,0 +1,63 @@
+// Utility functions for grouping quote items by category and subcategory
+
+export type QuoteLayout = 'flat' | 'category' | 'subcategory';
+
+export const QUOTE_LAYOUT_LABELS: Record<QuoteLayout, string> = {
+  flat: 'Flat list',
+  category: 'Group by category',
+  subcategory: 'Group by category & subcategory',
+};
+
+interface GroupableItem {
+  category: string;
+  subcategory: string;
+  total: number;
+}
+
+export interface QuoteSubgroup<T extends GroupableItem> {
+  subcategory: string;
+  items: T[];
+  subtotal: number;
+}
+
+export interface QuoteGroup<T extends GroupableItem> {
+  category: string;
+  items: T[];
+  subgroups: QuoteSubgroup<T>[];
+  subtotal: number;
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Group quote items by category, and by subcategory within each category.
+ * Groups keep the order in which their first item appears in the quote.
+ * @param items - The quote items to group
+ * @returns Category groups with subtotals
+ */
+export function groupQuoteItems<T extends GroupableItem>(items: T[]): QuoteGroup<T>[] {
+  const groups = new Map<string, QuoteGroup<T>>();
+
+  for (const item of items) {
+    const category = item.category.trim() || UNCATEGORIZED;
+    const subcategory = item.subcategory.trim() || UNCATEGORIZED;
+
+    let group = groups.get(category);
+    if (!group) {
+      group = { category, items: [], subgroups: [], subtotal: 0 };
+      groups.set(category, group);
+    }
+    group.items.push(item);
+    group.subtotal += item.total;
+
+    let subgroup = group.subgroups.find((sg) => sg.subcategory === subcategory);
+    if (!subgroup) {
+      subgroup = { subcategory, items: [], subtotal: 0 };
+      group.subgroups.push(subgroup);
+    }
+    subgroup.items.push(item);
+    subgroup.subtotal += item.total;
+  }
+
+  return Array.from(groups.values());
+}
@@ -0,0 +1,65 @@
+// Compare items of a saved quote against the current rate card before re-opening it
+
+import type { QuoteHistoryItem, QuoteItem, RateCardItem } from '../backend';
+import { toBaseCurrency } from './currency';
+
+export type QuoteDraftMode = 'duplicate' | 'revision';
+
+// A saved quote being re-opened in the Quote Generator
+export interface QuoteDraft {
+  source: QuoteHistoryItem;
+  mode: QuoteDraftMode;
+}
+
+export interface ReconciliationIssue {
+  itemId: string;
+  itemRefNo: string;
+  detailedDescription: string;
+  kind: 'missing' | 'priceChanged';
+  quotedCost: number;
+  currentCost?: number;
+}
+
+// Converting a quoted cost back to the base currency is not exact; smaller differences are not price changes
+const COST_TOLERANCE = 0.005;
+
+/**
+ * Find quote items that were removed from the rate card or whose standard cost changed
+ * @param items - Items of the saved quote
+ * @param rateCardItems - The current rate card
+ * @param exchangeRate - Rate the saved quote was converted at, to compare costs in the base currency
+ * @returns One issue per item that needs reconciling, with costs in the base currency
+ */
+export function reconcileQuoteItems(
+  items: QuoteItem[],
+  rateCardItems: RateCardItem[],
+  exchangeRate = 1
+): ReconciliationIssue[] {
+  const rateCard = new Map(rateCardItems.map((item) => [item.id, item]));
+  const issues: ReconciliationIssue[] = [];
+
+  for (const item of items) {
+    const current = rateCard.get(item.id);
+    const quotedCost = toBaseCurrency(item.standardCost, exchangeRate);
+    if (!current) {
+      issues.push({
+        itemId: item.id,
+        itemRefNo: item.itemRefNo,
+        detailedDescription: item.detailedDescription,
+        kind: 'missing',
+        quotedCost,
+      });
+    } else if (Math.abs(current.standardCost - quotedCost) > COST_TOLERANCE) {
+      issues.push({
+        itemId: item.id,
+        itemRefNo: item.itemRefNo,
+        detailedDescription: item.detailedDescription,
+        kind: 'priceChanged',
+        quotedCost,
+        currentCost: current.standardCost,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,78 @@
+// Quote lifecycle helpers, mirroring the transitions allowed by the backend
+
+import { QuoteStatus, type ApprovalDecision, type MarginBreach, type QuoteStatusChange } from '../backend';
+import { formatDate, formatPercentage } from './formatters';
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  [QuoteStatus.pendingApproval]: 'Pending Approval',
+  [QuoteStatus.draft]: 'Draft',
+  [QuoteStatus.sent]: 'Sent',
+  [QuoteStatus.accepted]: 'Accepted',
+  [QuoteStatus.rejected]: 'Rejected',
+  [QuoteStatus.expired]: 'Expired',
+};
+
+export const QUOTE_STATUS_BADGE_CLASSES: Record<QuoteStatus, string> = {
+  [QuoteStatus.pendingApproval]: 'bg-warning/20 text-warning border-warning/40',
+  [QuoteStatus.draft]: 'bg-muted text-muted-foreground',
+  [QuoteStatus.sent]: 'bg-primary/10 text-primary border-primary/20',
+  [QuoteStatus.accepted]: 'bg-success/10 text-success border-success/20',
+  [QuoteStatus.rejected]: 'bg-destructive/10 text-destructive border-destructive/20',
+  [QuoteStatus.expired]: 'bg-warning/10 text-warning border-warning/20',
+};
+
+// Statuses a quote can move to from its current status; pending quotes are decided in the approvals queue
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  [QuoteStatus.pendingApproval]: [],
+  [QuoteStatus.draft]: [QuoteStatus.sent],
+  [QuoteStatus.sent]: [QuoteStatus.accepted, QuoteStatus.rejected],
+  [QuoteStatus.accepted]: [],
+  [QuoteStatus.rejected]: [],
+  [QuoteStatus.expired]: [],
+};
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 30;
+
+/**
+ * Describe a status change for tooltips, e.g. "Sent on 3 Mar 2026 by abcde-..."
+ * @param change - The recorded status change
+ * @returns Human-readable description
+ */
+export function describeStatusChange(change: QuoteStatusChange): string {
+  const date = formatDate(change.timestamp);
+  const by = change.changedBy ? ` by ${change.changedBy.toString()}` : ' automatically';
+  return `${QUOTE_STATUS_LABELS[change.status]} on ${date}${by}`;
+}
+
+/**
+ * Describe an approval decision for tooltips, e.g. "Approved by abcde-...: agreed with the client"
+ * @param decision - The recorded decision
+ * @returns Human-readable description
+ */
+export function describeApproval(decision: ApprovalDecision): string {
+  const outcome = decision.approved ? 'Approved' : 'Rejected';
+  const comment = decision.comment ? `: ${decision.comment}` : '';
+  return `${outcome} by ${decision.decidedBy.toString()}${comment}`;
+}
+
+// Drawn across exported documents of quotes that fell below a margin threshold and have not been approved
+export const NOT_APPROVED_WATERMARK = 'DRAFT – NOT APPROVED';
+
+/**
+ * Whether a quote version still needs an admin's approval before it can be issued
+ * @param quote - A stored quote version, or a quote as generated
+ * @returns True when it breached a margin threshold and was not approved
+ */
+export function isAwaitingApproval(quote: { marginBreaches: MarginBreach[]; approval?: ApprovalDecision }): boolean {
+  return quote.marginBreaches.length > 0 && !quote.approval?.approved;
+}
+
+/**
+ * Describe a breached margin threshold, e.g. "Networking margin 12.0% is below the 20.0% minimum"
+ * @param breach - The breached threshold
+ * @returns Human-readable description
+ */
+export function describeMarginBreach(breach: MarginBreach): string {
+  const subject = breach.category ? `${breach.category} margin` : 'Overall margin';
+  return `${subject} ${formatPercentage(breach.marginPercentage)} is below the ${formatPercentage(breach.threshold)} minimum`;
+}
@@ -0,0 +1,89 @@
+// Discount and tax calculations, mirroring generateFullQuote in the backend
+
+import { DiscountType, type Discount, type FullQuote } from '../backend';
+import { formatCurrency, formatNumber } from './formatters';
+
+export interface QuoteTotals {
+  subtotal: number;
+  discountAmount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+/**
+ * Calculate the amount taken off by a discount, never more than the amount itself
+ * @param discount - Percentage or fixed discount, if any
+ * @param amount - The amount the discount applies to
+ * @returns The discount amount
+ */
+export function calculateDiscountAmount(discount: Discount | null | undefined, amount: number): number {
+  if (!discount) return 0;
+  const value = discount.discountType === DiscountType.percentage ? (amount * discount.value) / 100 : discount.value;
+  return Math.min(Math.max(value, 0), Math.max(amount, 0));
+}
+
+/**
+ * Drop discounts that take nothing off, so they are not stored with the quote
+ * @param discount - The discount as entered
+ * @returns The discount, or null when its value is zero
+ */
+export function normalizeDiscount(discount: Discount | null | undefined): Discount | null {
+  return discount && discount.value > 0 ? discount : null;
+}
+
+/**
+ * Calculate the totals breakdown for a quote
+ * @param lineTotals - Line totals after line discounts
+ * @param quoteDiscount - Quote-level discount applied to the subtotal
+ * @param taxRate - Tax rate as a percentage
+ * @returns Subtotal, discount, taxable amount, tax and grand total
+ */
+export function calculateQuoteTotals(
+  lineTotals: number[],
+  quoteDiscount: Discount | null | undefined,
+  taxRate: number
+): QuoteTotals {
+  const subtotal = lineTotals.reduce((sum, total) => sum + total, 0);
+  const discountAmount = calculateDiscountAmount(quoteDiscount, subtotal);
+  const taxableAmount = subtotal - discountAmount;
+  const taxAmount = (taxableAmount * taxRate) / 100;
+  return {
+    subtotal,
+    discountAmount,
+    taxableAmount,
+    taxAmount,
+    total: taxableAmount + taxAmount,
+  };
+}
+
+/**
+ * Describe a discount for display, e.g. "10%" or "Kshs 5,000.00"
+ * @param discount - The discount to describe
+ * @param currency - Currency of fixed discounts
+ * @returns Display label, or an empty string when there is no discount
+ */
+export function formatDiscount(discount: Discount | null | undefined, currency?: string): string {
+  if (!discount) return '';
+  return discount.discountType === DiscountType.percentage ? `${discount.value}%` : formatCurrency(discount.value, currency);
+}
+
+/**
+ * Label/amount rows shown between the line items and the grand total
+ * @param quote - A generated quote or history item
+ * @returns Subtotal, discount (as a negative amount), taxable amount and tax rows
+ */
+export function getTotalsBreakdown(
+  quote: Pick<
+    FullQuote,
+    'currency' | 'subtotal' | 'quoteDiscount' | 'discountAmount' | 'taxableAmount' | 'taxLabel' | 'taxRate' | 'taxAmount'
+  >
+): [string, number][] {
+  const discountLabel = quote.quoteDiscount ? `Discount (${formatDiscount(quote.quoteDiscount, quote.currency)})` : 'Discount';
+  return [
+    ['Subtotal', quote.subtotal],
+    [discountLabel, -quote.discountAmount],
+    ['Taxable Amount', quote.taxableAmount],
+    [`${quote.taxLabel} (${formatNumber(quote.taxRate)}%)`, quote.taxAmount],
+  ];
+}
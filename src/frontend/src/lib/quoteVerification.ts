@@ -0,0 +1,148 @@
+// Verification of exported quotes: the canonical quote text hashed by the canister, verification codes and links
+
+import type { QuoteVerification } from '../backend';
+
+// Number of leading hash digits printed as the verification code; must match the canister
+const VERIFICATION_CODE_LENGTH = 12;
+
+// URL parameters of the public verification view
+export const VERIFY_QUOTE_PARAM = 'verifyQuote';
+export const VERIFY_CODE_PARAM = 'code';
+
+// The fields covered by the hash; status and internal costs are left out
+export type VerifiableQuote = Omit<QuoteVerification, 'id' | 'status' | 'hash'>;
+
+export interface VerificationLink {
+  id: string;
+  code: string;
+}
+
+export type VerificationOutcome = 'verified' | 'mismatch' | 'not-found';
+
+// Length-prefixed in code points, which is how the canister counts text size
+const canonicalField = (name: string, value: string) => `${name}=${Array.from(value).length}:${value}\n`;
+
+// Whole cents, rounding ties to even like Float.nearest in the canister
+function canonicalAmount(value: number): string {
+  const cents = value * 100;
+  const rounded = Math.round(cents);
+  const isTie = Math.abs(cents % 1) === 0.5;
+  return (isTie && rounded % 2 !== 0 ? rounded - 1 : rounded).toString();
+}
+
+/**
+ * Build the canonical text of a quote version, field for field as the canister builds it
+ * @param quote - The verified quote fields
+ * @returns The text whose SHA-256 hash identifies the quote version
+ */
+export function canonicalQuoteText(quote: VerifiableQuote): string {
+  const fields = [
+    canonicalField('quoteNumber', quote.quoteNumber),
+    canonicalField('version', quote.version.toString()),
+    canonicalField('timestamp', quote.timestamp.toString()),
+    canonicalField('validUntil', quote.validUntil.toString()),
+    canonicalField('currency', quote.currency),
+    canonicalField('clientName', quote.header.clientName),
+    canonicalField('projectName', quote.header.projectName),
+    canonicalField('accountManager', quote.header.accountManager),
+    canonicalField('projectDuration', quote.header.projectDuration),
+    canonicalField('items', quote.items.length.toString()),
+  ];
+  quote.items.forEach((item) => {
+    fields.push(
+      canonicalField('item.itemRefNo', item.itemRefNo),
+      canonicalField('item.category', item.category),
+      canonicalField('item.subcategory', item.subcategory),
+      canonicalField('item.detailedDescription', item.detailedDescription),
+      canonicalField('item.standardCost', canonicalAmount(item.standardCost)),
+      canonicalField('item.quantity', item.quantity.toString()),
+      canonicalField('item.duration', item.duration.toString()),
+      canonicalField('item.discountAmount', canonicalAmount(item.discountAmount)),
+      canonicalField('item.total', canonicalAmount(item.total))
+    );
+  });
+  fields.push(
+    canonicalField('subtotal', canonicalAmount(quote.subtotal)),
+    canonicalField('discountAmount', canonicalAmount(quote.discountAmount)),
+    canonicalField('taxableAmount', canonicalAmount(quote.taxableAmount)),
+    canonicalField('taxLabel', quote.taxLabel),
+    canonicalField('taxRate', canonicalAmount(quote.taxRate)),
+    canonicalField('taxAmount', canonicalAmount(quote.taxAmount)),
+    canonicalField('total', canonicalAmount(quote.total))
+  );
+  return fields.join('');
+}
+
+/**
+ * Hash a quote version the way the canister does
+ * @param quote - The verified quote fields
+ * @returns Lowercase hex SHA-256 of the canonical text
+ */
+export async function hashQuote(quote: VerifiableQuote): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalQuoteText(quote)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Short code printed on documents, e.g. "3F9A-1C22-7B0E"
+ * @param hash - Hex hash of the quote version
+ * @returns The verification code
+ */
+export function formatVerificationCode(hash: string): string {
+  return (
+    hash
+      .slice(0, VERIFICATION_CODE_LENGTH)
+      .toUpperCase()
+      .match(/.{1,4}/g)
+      ?.join('-') ?? ''
+  );
+}
+
+/**
+ * Strip separators and case from a typed or scanned verification code
+ * @param code - Verification code as entered
+ * @returns Lowercase hex digits
+ */
+export function normalizeVerificationCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/**
+ * Link to the public verification view, encoded in the QR code on exported quotes
+ * @param id - Quote history ID
+ * @param code - Verification code
+ * @returns Absolute URL of this app with the verification parameters
+ */
+export function quoteVerificationUrl(id: string, code: string): string {
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.searchParams.set(VERIFY_QUOTE_PARAM, id);
+  url.searchParams.set(VERIFY_CODE_PARAM, code);
+  return url.toString();
+}
+
+/**
+ * Read the verification parameters from the current URL
+ * @param search - Query string, e.g. window.location.search
+ * @returns The quote ID and code, or null when this is not a verification link
+ */
+export function readVerificationLink(search: string): VerificationLink | null {
+  const params = new URLSearchParams(search);
+  const id = params.get(VERIFY_QUOTE_PARAM);
+  const code = params.get(VERIFY_CODE_PARAM);
+  return id && code ? { id, code } : null;
+}
+
+/**
+ * Check a canister record against the code on a document by recomputing its hash
+ * @param verification - The record returned for the code, null when no record matches it
+ * @param code - Verification code from the document
+ * @returns Whether the document matches the stored quote
+ */
+export async function checkQuoteVerification(
+  verification: QuoteVerification | null,
+  code: string
+): Promise<VerificationOutcome> {
+  if (!verification) return 'not-found';
+  const hash = await hashQuote(verification);
+  return hash === verification.hash && hash.startsWith(normalizeVerificationCode(code)) ? 'verified' : 'mismatch';
+}
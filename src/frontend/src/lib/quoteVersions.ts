@@ -0,0 +1,157 @@
+// Helpers for quote revisions: grouping versions and diffing two versions line by line
+
+import type { QuoteHistoryItem, QuoteItem } from '../backend';
+
+export type LineChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface FieldChange {
+  field: 'quantity' | 'duration' | 'standardCost' | 'discountAmount';
+  before: number;
+  after: number;
+}
+
+export interface QuoteLineDiff {
+  itemRefNo: string;
+  detailedDescription: string;
+  change: LineChangeType;
+  fieldChanges: FieldChange[];
+  totalBefore: number;
+  totalAfter: number;
+  totalDelta: number;
+}
+
+export interface QuoteVersionDiff {
+  lines: QuoteLineDiff[];
+  subtotalDelta: number;
+  totalDelta: number;
+}
+
+export interface QuoteVersionGroup {
+  quoteNumber: string;
+  latest: QuoteHistoryItem;
+  versions: QuoteHistoryItem[];
+}
+
+export const FIELD_CHANGE_LABELS: Record<FieldChange['field'], string> = {
+  quantity: 'Quantity',
+  duration: 'Duration',
+  standardCost: 'Standard Cost',
+  discountAmount: 'Discount',
+};
+
+/**
+ * Reference shown on documents and in the UI, e.g. "Q-2026-00042 v2"
+ * @param quote - Anything carrying a quote number and version
+ * @returns The quote reference
+ */
+export function formatQuoteReference(quote: { quoteNumber: string; version: bigint }): string {
+  return `${quote.quoteNumber} v${quote.version.toString()}`;
+}
+
+/**
+ * ID under which the canister stores a quote version, e.g. "Q-2026-00042-v2"
+ * @param quote - Anything carrying a quote number and version
+ * @returns The quote history ID
+ */
+export function quoteVersionId(quote: { quoteNumber: string; version: bigint }): string {
+  return `${quote.quoteNumber}-v${quote.version.toString()}`;
+}
+
+/**
+ * Group history items by quote number, newest version first within each group
+ * @param history - All quote history items
+ * @returns Groups ordered by the timestamp of their latest version, newest first
+ */
+export function groupQuoteVersions(history: QuoteHistoryItem[]): QuoteVersionGroup[] {
+  const groups = new Map<string, QuoteHistoryItem[]>();
+  for (const item of history) {
+    const versions = groups.get(item.quoteNumber) ?? [];
+    versions.push(item);
+    groups.set(item.quoteNumber, versions);
+  }
+
+  return Array.from(groups.entries())
+    .map(([quoteNumber, versions]) => {
+      const sorted = [...versions].sort((a, b) => Number(b.version - a.version));
+      return { quoteNumber, latest: sorted[0], versions: sorted };
+    })
+    .sort((a, b) => Number(b.latest.timestamp - a.latest.timestamp));
+}
+
+function fieldValues(item: QuoteItem, conversion: number): Record<FieldChange['field'], number> {
+  return {
+    quantity: Number(item.quantity),
+    duration: Number(item.duration),
+    standardCost: item.standardCost * conversion,
+    discountAmount: item.discountAmount * conversion,
+  };
+}
+
+// Converted amounts are not exact; smaller differences are not changes
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Compare two versions of a quote line by line, matching lines by rate card item
+ * @param from - The earlier version
+ * @param to - The later version
+ * @returns Line changes plus subtotal and grand total deltas, in the currency of the later version
+ */
+export function diffQuoteVersions(from: QuoteHistoryItem, to: QuoteHistoryItem): QuoteVersionDiff {
+  // A version in another currency is converted at the rates both versions were quoted at
+  const conversion = from.currency === to.currency ? 1 : from.exchangeRate / to.exchangeRate;
+  const before = new Map(from.items.map((item) => [item.id, item]));
+  const after = new Map(to.items.map((item) => [item.id, item]));
+  const lines: QuoteLineDiff[] = [];
+
+  for (const oldItem of from.items) {
+    const newItem = after.get(oldItem.id);
+    if (!newItem) {
+      lines.push({
+        itemRefNo: oldItem.itemRefNo,
+        detailedDescription: oldItem.detailedDescription,
+        change: 'removed',
+        fieldChanges: [],
+        totalBefore: oldItem.total * conversion,
+        totalAfter: 0,
+        totalDelta: -oldItem.total * conversion,
+      });
+      continue;
+    }
+
+    const oldValues = fieldValues(oldItem, conversion);
+    const newValues = fieldValues(newItem, 1);
+    const fieldChanges = (Object.keys(oldValues) as FieldChange['field'][])
+      .filter((field) => Math.abs(oldValues[field] - newValues[field]) > AMOUNT_TOLERANCE)
+      .map((field) => ({ field, before: oldValues[field], after: newValues[field] }));
+
+    lines.push({
+      itemRefNo: newItem.itemRefNo,
+      detailedDescription: newItem.detailedDescription,
+      change: fieldChanges.length > 0 ? 'changed' : 'unchanged',
+      fieldChanges,
+      totalBefore: oldItem.total * conversion,
+      totalAfter: newItem.total,
+      totalDelta: newItem.total - oldItem.total * conversion,
+    });
+  }
+
+  for (const newItem of to.items) {
+    if (!before.has(newItem.id)) {
+      lines.push({
+        itemRefNo: newItem.itemRefNo,
+        detailedDescription: newItem.detailedDescription,
+        change: 'added',
+        fieldChanges: [],
+        totalBefore: 0,
+        totalAfter: newItem.total,
+        totalDelta: newItem.total,
+      });
+    }
+  }
+
+  return {
+    lines,
+    subtotalDelta: to.subtotal - from.subtotal * conversion,
+    totalDelta: to.total - from.total * conversion,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { RateCardItem } from '../backend';
+import { parseCsv, toCsv } from './csv';
+import { rateCardToCsvRows } from './csvExport';
+import { applyRateCardImport, RATE_CARD_IMPORT_FIELDS, toRateCardItems } from './rateCardImport';
+import { autoMapColumns, detectHeaderRow, mapRows } from './spreadsheetImport';
+
+const rateCard: RateCardItem[] = [
+  {
+    id: 'item-1',
+    itemRefNo: '+254-01',
+    category: 'Support',
+    subcategory: '=Managed',
+    detailedDescription: '- 24/7 support, including "critical" incidents',
+    opsBriskCost: 800,
+    standardCost: 1200.5,
+  },
+  {
+    id: 'item-2',
+    itemRefNo: 'NET-02',
+    category: 'Network',
+    subcategory: '',
+    detailedDescription: '@Edge firewall',
+    opsBriskCost: 0,
+    standardCost: 300,
+  },
+];
+
+const importCsv = (text: string) => {
+  const rows = parseCsv(text);
+  const { index } = detectHeaderRow(rows, RATE_CARD_IMPORT_FIELDS);
+  const mapping = autoMapColumns(rows[index], RATE_CARD_IMPORT_FIELDS);
+  return mapRows(rows, index, mapping, RATE_CARD_IMPORT_FIELDS);
+};
+
+describe('rate card CSV round trip', () => {
+  it('imports an exported rate card unchanged', () => {
+    const { records, errors } = importCsv(toCsv(rateCardToCsvRows(rateCard)));
+    expect(errors).toEqual([]);
+
+    const imported = toRateCardItems(records).map((item, index) => ({ ...item, id: rateCard[index].id }));
+    expect(imported).toEqual(rateCard);
+  });
+
+  it('matches every exported item to the existing one on re-import', () => {
+    const { records } = importCsv(toCsv(rateCardToCsvRows(rateCard)));
+    const { items } = applyRateCardImport(rateCard, toRateCardItems(records), 'replace');
+    expect(items).toEqual(rateCard);
+  });
+
+  it('keeps an apostrophe that was typed in the file', () => {
+    const { records } = importCsv("itemRefNo,category,opsBriskCost,standardCost\n'A1,'Cloud,1,2");
+    expect(records[0].itemRefNo).toBe("'A1");
+    expect(records[0].category).toBe("'Cloud");
+  });
+});
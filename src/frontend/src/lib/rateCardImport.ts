@@ -0,0 +1,105 @@
+// Turn uploaded rate card rows into the next rate card, matching rows to existing items by Item Ref No
+
+import type { RateCardItem } from '../backend';
+import type { ImportField, ImportRecord } from './spreadsheetImport';
+
+export type RateCardImportField = Exclude<keyof RateCardItem, 'id'>;
+
+export const RATE_CARD_IMPORT_FIELDS: ImportField<RateCardImportField>[] = [
+  {
+    key: 'itemRefNo',
+    label: 'Item Ref No',
+    type: 'text',
+    required: true,
+    aliases: ['itemrefno', 'item ref no', 'item ref', 'ref no', 'item reference number', 'item code', 'code'],
+  },
+  { key: 'category', label: 'Category', type: 'text', required: true, aliases: ['category'] },
+  { key: 'subcategory', label: 'Subcategory', type: 'text', required: false, aliases: ['subcategory', 'sub category'] },
+  {
+    key: 'detailedDescription',
+    label: 'Detailed Description',
+    type: 'text',
+    required: false,
+    aliases: ['detaileddescription', 'detailed description', 'description', 'item description'],
+  },
+  {
+    key: 'opsBriskCost',
+    label: 'Ops Brisk Cost',
+    type: 'number',
+    required: true,
+    aliases: ['opsbriskcost', 'ops brisk cost', 'brisk cost', 'ops cost', 'internal cost'],
+  },
+  {
+    key: 'standardCost',
+    label: 'Standard Cost',
+    type: 'number',
+    required: true,
+    aliases: ['standardcost', 'standard cost', 'cost', 'price', 'unit price', 'rate'],
+  },
+];
+
+export type RateCardImportMode = 'merge' | 'replace';
+
+export const RATE_CARD_IMPORT_MODE_LABELS: Record<RateCardImportMode, string> = {
+  merge: 'Merge (update matching items, add new ones, keep the rest)',
+  replace: 'Replace (the file becomes the complete rate card)',
+};
+
+export interface RateCardImportResult {
+  items: RateCardItem[];
+  duplicateRefNos: string[];
+}
+
+/**
+ * Build the rate card that results from importing parsed rows
+ * @param current - Items of the rate card currently in effect
+ * @param imported - Parsed rows; their generated IDs are only used for items that are new
+ * @param mode - Merge keeps items missing from the file, replace drops them
+ * @returns The resulting items, with existing item IDs kept stable, and any Item Ref Nos repeated in the file
+ */
+export function applyRateCardImport(
+  current: RateCardItem[],
+  imported: RateCardItem[],
+  mode: RateCardImportMode
+): RateCardImportResult {
+  const existing = new Map(current.map((item) => [item.itemRefNo, item]));
+
+  // When the file repeats an Item Ref No the last row wins
+  const rows = new Map<string, RateCardItem>();
+  const duplicates = new Set<string>();
+  for (const row of imported) {
+    if (rows.has(row.itemRefNo)) duplicates.add(row.itemRefNo);
+    const match = existing.get(row.itemRefNo);
+    rows.set(row.itemRefNo, match ? { ...row, id: match.id } : row);
+  }
+
+  let items: RateCardItem[];
+  if (mode === 'replace') {
+    items = Array.from(rows.values());
+  } else {
+    items = current.map((item) => rows.get(item.itemRefNo) ?? item);
+    for (const row of rows.values()) {
+      if (!existing.has(row.itemRefNo)) items.push(row);
+    }
+  }
+
+  return { items, duplicateRefNos: Array.from(duplicates) };
+}
+
+/**
+ * Convert validated import records into rate card items with temporary IDs
+ * @param records - Records produced by the import pipeline
+ * @returns Rate card items; applyRateCardImport swaps in existing IDs for known items
+ */
+export function toRateCardItems(records: ImportRecord<RateCardImportField>[]): RateCardItem[] {
+  const timestamp = Date.now();
+  return records.map((record, index) => ({
+    id: `item-${timestamp}-${index}`,
+    itemRefNo: String(record.itemRefNo),
+    category: String(record.category),
+    subcategory: String(record.subcategory),
+    detailedDescription: String(record.detailedDescription),
+    opsBriskCost: Number(record.opsBriskCost),
+    standardCost: Number(record.standardCost),
+  }));
+}
@@ -0,0 +1,95 @@
+// Helpers for versioned rate cards: version status and item-level diffs between two rate cards
+
+import type { RateCardItem, RateCardVersionInfo } from '../backend';
+
+export type RateCardVersionStatus = 'current' | 'scheduled' | 'superseded';
+
+export type RateCardField = 'category' | 'subcategory' | 'detailedDescription' | 'opsBriskCost' | 'standardCost';
+
+export interface RateCardFieldChange {
+  field: RateCardField;
+  before: string | number;
+  after: string | number;
+}
+
+export interface RateCardItemChange {
+  itemRefNo: string;
+  before: RateCardItem;
+  after: RateCardItem;
+  fieldChanges: RateCardFieldChange[];
+}
+
+export interface RateCardDiff {
+  added: RateCardItem[];
+  removed: RateCardItem[];
+  changed: RateCardItemChange[];
+  unchangedCount: number;
+}
+
+export const RATE_CARD_FIELD_LABELS: Record<RateCardField, string> = {
+  category: 'Category',
+  subcategory: 'Subcategory',
+  detailedDescription: 'Description',
+  opsBriskCost: 'Ops Brisk Cost',
+  standardCost: 'Standard Cost',
+};
+
+const RATE_CARD_FIELDS = Object.keys(RATE_CARD_FIELD_LABELS) as RateCardField[];
+
+export const RATE_CARD_VERSION_STATUS_LABELS: Record<RateCardVersionStatus, string> = {
+  current: 'Current',
+  scheduled: 'Scheduled',
+  superseded: 'Superseded',
+};
+
+/**
+ * Work out whether a version is in effect, scheduled for later or replaced by a newer one
+ * @param version - The version to classify
+ * @param currentVersion - Number of the version currently in effect (0 when there is none)
+ * @returns The status of the version
+ */
+export function getRateCardVersionStatus(version: RateCardVersionInfo, currentVersion: bigint): RateCardVersionStatus {
+  if (version.version === currentVersion) return 'current';
+  const effectiveFromMs = Number(version.effectiveFrom) / 1000000;
+  return effectiveFromMs > Date.now() ? 'scheduled' : 'superseded';
+}
+
+/**
+ * Compare two rate cards item by item, matching items by their Item Ref No
+ * @param from - Items of the older rate card
+ * @param to - Items of the newer rate card
+ * @returns Added, removed and changed items with field-level changes
+ */
+export function diffRateCards(from: RateCardItem[], to: RateCardItem[]): RateCardDiff {
+  const before = new Map(from.map((item) => [item.itemRefNo, item]));
+  const after = new Map(to.map((item) => [item.itemRefNo, item]));
+  const diff: RateCardDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  for (const oldItem of from) {
+    const newItem = after.get(oldItem.itemRefNo);
+    if (!newItem) {
+      diff.removed.push(oldItem);
+      continue;
+    }
+
+    const fieldChanges = RATE_CARD_FIELDS.filter((field) => oldItem[field] !== newItem[field]).map((field) => ({
+      field,
+      before: oldItem[field],
+      after: newItem[field],
+    }));
+
+    if (fieldChanges.length > 0) {
+      diff.changed.push({ itemRefNo: oldItem.itemRefNo, before: oldItem, after: newItem, fieldChanges });
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+
+  for (const newItem of to) {
+    if (!before.has(newItem.itemRefNo)) {
+      diff.added.push(newItem);
+    }
+  }
+
+  return diff;
+}
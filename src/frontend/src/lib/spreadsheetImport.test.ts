@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { applyLocaleSettings, DEFAULT_LOCALE_SETTINGS } from './locale';
+import { autoMapColumns, detectHeaderRow, mapRows, parseCurrencyNumber, type ImportField } from './spreadsheetImport';
+
+type Field = 'name' | 'email' | 'cost';
+
+const fields: ImportField<Field>[] = [
+  { key: 'name', label: 'Name', type: 'text', required: true, aliases: ['name', 'full name'] },
+  { key: 'email', label: 'Email', type: 'email', required: false, aliases: ['email', 'e-mail'] },
+  { key: 'cost', label: 'Cost', type: 'number', required: true, aliases: ['cost', 'price'] },
+];
+
+describe('parseCurrencyNumber', () => {
+  it('reads plain numbers and spreadsheet numbers', () => {
+    expect(parseCurrencyNumber('1200')).toBe(1200);
+    expect(parseCurrencyNumber('1200.5')).toBe(1200.5);
+    expect(parseCurrencyNumber('.5')).toBe(0.5);
+    expect(parseCurrencyNumber(42)).toBe(42);
+    expect(parseCurrencyNumber(Number.NaN)).toBeNull();
+  });
+
+  it('drops thousand separators and spaces', () => {
+    expect(parseCurrencyNumber('1,200,000.00')).toBe(1200000);
+    expect(parseCurrencyNumber(' 1 200 ')).toBe(1200);
+  });
+
+  it('drops currency codes and symbols', () => {
+    expect(parseCurrencyNumber('Kshs 1,200.00')).toBe(1200);
+    expect(parseCurrencyNumber('KES1200')).toBe(1200);
+    expect(parseCurrencyNumber('$ 99.99')).toBe(99.99);
+    expect(parseCurrencyNumber('1,200 KES')).toBe(1200);
+  });
+
+  it('does not read the abbreviation dot of a currency prefix as a decimal point', () => {
+    expect(parseCurrencyNumber('Kshs. 1200')).toBe(1200);
+    expect(parseCurrencyNumber('Ksh. 500')).toBe(500);
+    expect(parseCurrencyNumber('Kshs.1,200.00')).toBe(1200);
+    expect(parseCurrencyNumber('Ksh.0.75')).toBe(0.75);
+    expect(parseCurrencyNumber('-Kshs. 300')).toBe(-300);
+    expect(parseCurrencyNumber('(Kshs. 300)')).toBe(-300);
+  });
+
+  it('reads negatives', () => {
+    expect(parseCurrencyNumber('-1,200')).toBe(-1200);
+    expect(parseCurrencyNumber('Kshs -1,200')).toBe(-1200);
+    expect(parseCurrencyNumber('(1,200.00)')).toBe(-1200);
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(parseCurrencyNumber('')).toBeNull();
+    expect(parseCurrencyNumber('n/a')).toBeNull();
+    expect(parseCurrencyNumber('Kshs.')).toBeNull();
+    expect(parseCurrencyNumber('1.200.50')).toBeNull();
+    expect(parseCurrencyNumber('12a4')).toBeNull();
+    expect(parseCurrencyNumber('1,20,0')).toBeNull();
+  });
+
+  it('rejects separators used the other way round instead of misreading them', () => {
+    expect(parseCurrencyNumber('1.200,50')).toBeNull();
+    expect(parseCurrencyNumber('EUR 1.200.000,00')).toBeNull();
+    expect(parseCurrencyNumber('1,200.50', ',')).toBeNull();
+  });
+
+  it('reads a comma decimal separator', () => {
+    expect(parseCurrencyNumber('1.200,50', ',')).toBe(1200.5);
+    expect(parseCurrencyNumber('EUR 1.200.000,00', ',')).toBe(1200000);
+    expect(parseCurrencyNumber('1 200,5 €', ',')).toBe(1200.5);
+    expect(parseCurrencyNumber(',75', ',')).toBe(0.75);
+    expect(parseCurrencyNumber('Kshs. 1.200', ',')).toBe(1200);
+    expect(parseCurrencyNumber('(1.200,00)', ',')).toBe(-1200);
+  });
+
+  it('uses the decimal separator of the organisation locale by default', () => {
+    applyLocaleSettings({ locale: 'de-DE', timeZone: 'Europe/Berlin' });
+    try {
+      expect(parseCurrencyNumber('1.200,50')).toBe(1200.5);
+    } finally {
+      applyLocaleSettings(DEFAULT_LOCALE_SETTINGS);
+    }
+  });
+});
+
+describe('detectHeaderRow', () => {
+  it('finds the header below title rows', () => {
+    const rows = [['Price list 2026'], [''], ['Full Name', 'E-mail', 'Price'], ['Amina', 'amina@example.com', '10']];
+    expect(detectHeaderRow(rows, fields).index).toBe(2);
+  });
+});
+
+describe('autoMapColumns', () => {
+  it('maps headers by alias regardless of case, spacing and order', () => {
+    expect(autoMapColumns(['PRICE', 'full_name', 'Notes'], fields)).toEqual({ name: 1, email: null, cost: 0 });
+  });
+});
+
+describe('mapRows', () => {
+  const header = ['Name', 'Email', 'Cost'];
+
+  it('converts valid rows to records', () => {
+    const rows = [header, ['Amina', 'amina@example.com', 'Kshs. 1,500'], ['', '', ''], ['Brian', '', 20]];
+    expect(mapRows(rows, 0, { name: 0, email: 1, cost: 2 }, fields)).toEqual({
+      records: [
+        { name: 'Amina', email: 'amina@example.com', cost: 1500 },
+        { name: 'Brian', email: '', cost: 20 },
+      ],
+      errors: [],
+    });
+  });
+
+  it('reports every problem in a row with its spreadsheet row number', () => {
+    const rows = [header, ['', 'not-an-email', 'free'], ['Chege', '', '-5']];
+    const { records, errors } = mapRows(rows, 0, { name: 0, email: 1, cost: 2 }, fields);
+    expect(records).toEqual([]);
+    expect(errors).toEqual([
+      {
+        rowNumber: 2,
+        reasons: ['Name is missing', 'Email "not-an-email" is not a valid email address', 'Cost "free" is not a number'],
+        values: ['', 'not-an-email', 'free'],
+      },
+      { rowNumber: 3, reasons: ['Cost cannot be negative'], values: ['Chege', '', '-5'] },
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+// Shared spreadsheet import pipeline: read a CSV/Excel file, detect the sheet and header row,
+// map source columns to fields and validate every row, collecting errors instead of skipping silently
+
+import { downloadCsv, readCsvFile, restoreCsvFormulaText } from './csv';
+import { getDecimalSeparator } from './locale';
+
+export type SpreadsheetCell = string | number;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+}
+
+export type ImportFieldType = 'text' | 'number' | 'email';
+
+export interface ImportField<K extends string = string> {
+  key: K;
+  label: string;
+  type: ImportFieldType;
+  required: boolean;
+  // Lower-case header spellings recognised when mapping columns automatically
+  aliases: string[];
+}
+
+// Field key -> index of the source column, or null when the field is not mapped
+export type ColumnMapping<K extends string = string> = Record<K, number | null>;
+
+export type ImportRecord<K extends string = string> = Record<K, string | number>;
+
+export interface ImportRowError {
+  rowNumber: number;
+  reasons: string[];
+  values: SpreadsheetCell[];
+}
+
+export interface ImportResult<K extends string = string> {
+  records: ImportRecord<K>[];
+  errors: ImportRowError[];
+}
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['csv', 'xlsx', 'xls'];
+
+// Only the first rows are scanned for a header; titles and notes above the table are common
+const HEADER_SCAN_ROWS = 20;
+
+const normalizeHeader = (value: SpreadsheetCell) => value.toString().trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+const isEmptyRow = (row: SpreadsheetCell[]) => row.every((cell) => cell.toString().trim() === '');
+
+/**
+ * Read every sheet of a CSV or Excel file into rows of cells
+ * @param file - The uploaded file
+ * @returns The sheets in workbook order; a CSV file is a single sheet named after the file
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetSheet[]> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (!SUPPORTED_IMPORT_EXTENSIONS.includes(extension)) {
+    throw new Error('Unsupported file format. Please upload a CSV or Excel file.');
+  }
+  if (extension === 'csv') {
+    return [{ name: file.name, rows: await readCsvFile(file) }];
+  }
+  // SheetJS is only downloaded when an Excel file is imported
+  const XLSX = await import('xlsx');
+  const data = new Uint8Array(await file.arrayBuffer());
+  const workbook = XLSX.read(data, { type: 'array' });
+
+  return workbook.SheetNames.map((name) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '' });
+    return {
+      name,
+      rows: rows.map((row) => row.map((cell) => (typeof cell === 'number' ? cell : String(cell ?? '')))),
+    };
+  });
+}
+
+function headerScore(row: SpreadsheetCell[], fields: ImportField[]): number {
+  const headers = row.map(normalizeHeader);
+  return fields.filter((field) => headers.some((header) => field.aliases.includes(header))).length;
+}
+
+/**
+ * Find the row that most looks like a header for the given fields
+ * @param rows - Rows of a sheet
+ * @param fields - Fields being imported
+ * @returns Index of the header row and how many fields it recognises
+ */
+export function detectHeaderRow(rows: SpreadsheetCell[][], fields: ImportField[]): { index: number; score: number } {
+  let best = { index: rows.findIndex((row) => !isEmptyRow(row)), score: 0 };
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const score = headerScore(row, fields);
+    if (score > best.score) best = { index, score };
+  });
+  return { index: Math.max(best.index, 0), score: best.score };
+}
+
+/**
+ * Pick the sheet whose header row recognises the most fields, preferring earlier sheets on ties
+ * @param sheets - Sheets of the workbook
+ * @param fields - Fields being imported
+ * @returns Index of the sheet to import
+ */
+export function detectSheet(sheets: SpreadsheetSheet[], fields: ImportField[]): number {
+  let bestIndex = 0;
+  let bestScore = -1;
+  sheets.forEach((sheet, index) => {
+    const { score } = detectHeaderRow(sheet.rows, fields);
+    if (score > bestScore) {
+      bestIndex = index;
+      bestScore = score;
+    }
+  });
+  return bestIndex;
+}
+
+/**
+ * Map fields to source columns by matching header spellings
+ * @param headers - Cells of the header row
+ * @param fields - Fields being imported
+ * @returns Column index per field, null where no header matched
+ */
+export function autoMapColumns<K extends string>(headers: SpreadsheetCell[], fields: ImportField<K>[]): ColumnMapping<K> {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping<K>;
+  for (const field of fields) {
+    const index = normalized.findIndex((header) => field.aliases.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parse a number that may carry a currency prefix and thousand separators, e.g. "Kshs. 1,200.00".
+ * Separators must be used as the locale uses them, so "1.200,50" is rejected rather than read as 1.2005
+ * when the decimal separator is a dot.
+ * @param value - Cell value
+ * @param decimalSeparator - Decimal separator of the text, the organisation locale's by default
+ * @returns The number, or null when the value is not numeric
+ */
+export function parseCurrencyNumber(
+  value: SpreadsheetCell,
+  decimalSeparator = getDecimalSeparator()
+): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  // The abbreviation dot of a currency prefix such as "Kshs." or "Ksh." is not a decimal point
+  let text = value.trim().replace(/^([^\d.,]*[a-z])\./i, '$1');
+  // Accounting format writes negatives in parentheses; otherwise a minus sign may sit before or after the currency
+  const firstDigit = text.search(/[\d.,]/);
+  const negative = /^\(.*\)$/.test(text) || (firstDigit > 0 && text.slice(0, firstDigit).includes('-'));
+  // Drop currency codes, symbols and signs on either side, then spaces
+  text = text.replace(/^[^\d.,]+/, '').replace(/[^\d.,]+$/, '').replace(/\s/g, '');
+
+  // Thousand separators group exactly three digits; the other of comma and dot is the thousand separator
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  const group = escapeRegExp(groupSeparator);
+  const decimal = escapeRegExp(decimalSeparator);
+  const pattern = new RegExp(`^(?=.*\\d)(\\d+|\\d{1,3}(${group}\\d{3})+)?(${decimal}\\d+)?$`);
+  if (!pattern.test(text)) return null;
+  const number = parseFloat(text.split(groupSeparator).join('').replace(decimalSeparator, '.'));
+  return negative ? -number : number;
+}
+
+/**
+ * Turn the rows below the header into records, validating each mapped value
+ * @param rows - Rows of the sheet
+ * @param headerRowIndex - Index of the header row; data starts on the next row
+ * @param mapping - Column per field
+ * @param fields - Fields being imported
+ * @returns Valid records and one error per rejected row, with spreadsheet row numbers
+ */
+export function mapRows<K extends string>(
+  rows: SpreadsheetCell[][],
+  headerRowIndex: number,
+  mapping: ColumnMapping<K>,
+  fields: ImportField<K>[]
+): ImportResult<K> {
+  const records: ImportRecord<K>[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.forEach((row, index) => {
+    if (index <= headerRowIndex || isEmptyRow(row)) return;
+
+    const record = {} as ImportRecord<K>;
+    const reasons: string[] = [];
+
+    for (const field of fields) {
+      const column = mapping[field.key];
+      const raw = column === null ? '' : (row[column] ?? '');
+      // Text exported by this app may carry the apostrophe that stops spreadsheets running it as a formula
+      const text = restoreCsvFormulaText(raw.toString().trim());
+
+      if (!text) {
+        if (field.required) reasons.push(`${field.label} is missing`);
+        record[field.key] = field.type === 'number' ? 0 : '';
+        continue;
+      }
+
+      if (field.type === 'number') {
+        const number = parseCurrencyNumber(raw);
+        if (number === null) {
+          reasons.push(`${field.label} "${text}" is not a number`);
+        } else if (number < 0) {
+          reasons.push(`${field.label} cannot be negative`);
+        } else {
+          record[field.key] = number;
+        }
+      } else if (field.type === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) {
+        reasons.push(`${field.label} "${text}" is not a valid email address`);
+      } else {
+        record[field.key] = text;
+      }
+    }
+
+    if (reasons.length > 0) {
+      errors.push({ rowNumber: index + 1, reasons, values: row });
+    } else {
+      records.push(record);
+    }
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Download the rejected rows as a CSV file with the reasons next to the original values
+ * @param errors - Rejected rows
+ * @param headers - Header row of the imported sheet
+ * @param filename - Name of the downloaded file
+ */
+export function downloadImportErrorReport(errors: ImportRowError[], headers: SpreadsheetCell[], filename: string): void {
+  downloadCsv(
+    [['Row', 'Reasons', ...headers], ...errors.map((error) => [error.rowNumber, error.reasons.join('; '), ...error.values])],
+    filename
+  );
+}